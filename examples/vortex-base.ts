@@ -1,5 +1,6 @@
-import { Colormap } from '@/utils/colormap'
-import { VelocityImage } from '@/utils/wms'
+import { StreamlineCanvas } from '@/canvas'
+import { Color, Colormap } from '@/utils/colormap'
+import { VelocityImage } from '@/utils/velocity-image'
 import {
   StreamlineVisualiser,
   type StreamlineVisualiserOptions
@@ -11,29 +12,18 @@ import type { VisualiserOptionsControl } from './options'
 function createColormap(): Colormap {
   const values = [0, 0.25, 0.5, 0.75, 1]
   const colors = [
-    { r: 254, g: 235, b: 226 },
-    { r: 251, g: 180, b: 185 },
-    { r: 247, g: 104, b: 161 },
-    { r: 197, g: 27, b: 138 },
-    { r: 122, g: 1, b: 119 }
+    new Color(254, 235, 226),
+    new Color(251, 180, 185),
+    new Color(247, 104, 161),
+    new Color(197, 27, 138),
+    new Color(122, 1, 119)
   ]
   return new Colormap(values, colors)
 }
 
 function createVelocityImage(width: number, height: number): VelocityImage {
-  // Velocities are in the range [-1, 1], output should be in the range [0, 1].
-  //
-  // u = c * scale + offset
-  // c = (u - offset) / scale
-  //
-  //  (-1 - offset) / scale = 0 => -1 - offset = 0 => offset = -1
-  //  ( 1 - offset) / scale = 1 => 2 / scale = 1 => scale = 2
-  const uScale = 2
-  const vScale = 2
-  const uOffset = -1
-  const vOffset = -1
-
-  const data: number[] = []
+  const u = new Float32Array(width * height)
+  const v = new Float32Array(width * height)
   for (let row = 0; row < height; row++) {
     // Images are always specified with flipped y-coordinate.
     const y = (1.0 - row / height) * Math.PI
@@ -41,83 +31,33 @@ function createVelocityImage(width: number, height: number): VelocityImage {
       const x = (col / width) * Math.PI
 
       // (Undamped) Taylor-Green vortex, velocities in the range [-1, 1].
-      const u = Math.sin(x) * Math.cos(y)
-      const v = -Math.cos(x) * Math.sin(y)
-
-      // Translate to the range [0, 255] and round; this is the inverse
-      // operation from how we translate pixel values to velocities.
-      const uScaled = ((u - uOffset) / uScale) * 255
-      const vScaled = ((v - vOffset) / vScale) * 255
-
-      // Set R and G channels and leave B channel zero, then append to the data
-      // array. Strides from smallest to largest: RGB, columns, rows.
-      data.push(uScaled, vScaled, 0)
+      const index = row * width + col
+      u[index] = Math.sin(x) * Math.cos(y)
+      v[index] = -Math.cos(x) * Math.sin(y)
     }
   }
-
-  const dataBuffer = new Uint8ClampedArray(data)
-  return new VelocityImage(
-    dataBuffer,
-    width,
-    height,
-    uOffset,
-    vOffset,
-    uScale,
-    vScale
-  )
+  return VelocityImage.fromComponents(u, v, width, height)
 }
 
 export async function initialiseVisualiser(
   numParticles: number,
   options: StreamlineVisualiserOptions
 ): Promise<StreamlineVisualiser> {
-  // Get the canvas and make sure its contents are rendered at the same
-  // resolution as its size.
+  // The streamline canvas takes care of sizing the canvas, running the render
+  // loop, and panning and zooming.
   const canvas = document.getElementById('canvas') as HTMLCanvasElement
-  const width = canvas.clientWidth
-  const height = canvas.clientHeight
-  canvas.width = width
-  canvas.height = height
-
-  // Initialise WebGL2 context.
-  const gl = canvas.getContext('webgl2')
-  if (!gl) {
-    throw new Error('Could not create WebGL2 rendering context.')
-  }
+  const streamlineCanvas = new StreamlineCanvas(canvas, numParticles, options)
 
-  // Create visualiser.
-  const visualiser = new StreamlineVisualiser(
-    gl,
-    width,
-    height,
-    numParticles,
-    options
-  )
-
-  // Create and set demo colormap and velocity image.
+  // Create and set demo colormap and velocity image, which covers [0, pi] in
+  // both directions.
   const colormap = createColormap()
-  const velocityImage = createVelocityImage(width, height)
-
-  await visualiser.initialise(colormap)
-  visualiser.setVelocityImage(velocityImage, true)
-
-  // Enable rendering mode in the visualiser.
-  visualiser.start()
+  const velocityImage = createVelocityImage(canvas.width, canvas.height)
 
-  // Render a new frame every frame, taking into account the time between
-  // subsequent frames.
-  let previousFrameTime: number | null = null
-  const renderFrame = (now: number) => {
-    const dt = previousFrameTime ? (now - previousFrameTime) / 1000 : 1 / 60
-    previousFrameTime = now
-
-    visualiser.renderFrame(dt)
-
-    globalThis.requestAnimationFrame(renderFrame)
-  }
-  globalThis.requestAnimationFrame(renderFrame)
+  await streamlineCanvas.initialise(colormap)
+  streamlineCanvas.setVelocityImage(velocityImage, [0, 0, Math.PI, Math.PI])
+  streamlineCanvas.run()
 
-  return visualiser
+  return streamlineCanvas.visualiser
 }
 
 export function initialiseControl(visualiser: StreamlineVisualiser): void {
@@ -0,0 +1,407 @@
+import { debounce } from 'lodash-es'
+
+import { computeBoundingBoxScaling } from './render/final'
+import type { Colormap } from './utils/colormap'
+import type { VelocityImage } from './utils/velocity-image'
+import {
+  StreamlineVisualiser,
+  type StreamlineVisualiserOptions
+} from './visualiser'
+
+export interface StreamlineCanvasOptions {
+  /** Whether the view can be panned and zoomed with mouse and touch; true by default. */
+  interactive?: boolean
+  /** Maximum zoom factor with respect to the velocity image's extent; 32 by default. */
+  maxZoom?: number
+}
+
+/**
+ * Controller for showing a streamline visualisation in a canvas without a map.
+ *
+ * The controller creates a WebGL2 context and a `StreamlineVisualiser` for the
+ * canvas, resizes its drawing buffer with the canvas and the device pixel
+ * ratio, and runs the render loop. The velocity image is set with its extent in
+ * arbitrary coordinates; the view shows part of that extent, and can be panned
+ * and zoomed with the mouse (dragging and scrolling) and touch (dragging and
+ * pinching). The view is stretched to fill the canvas.
+ *
+ * When the view stops changing, the part of the velocity image in view is
+ * resampled at the resolution of the canvas, so particles and their trails
+ * stay sharp when zoomed in.
+ */
+export class StreamlineCanvas {
+  // Zoom factor per pixel scrolled with the mouse wheel.
+  private static readonly WHEEL_ZOOM_RATE = 1.002
+  private static readonly DEFAULT_MAX_ZOOM = 32
+
+  readonly canvas: HTMLCanvasElement
+  private readonly gl: WebGL2RenderingContext
+  private readonly _visualiser: StreamlineVisualiser
+  private readonly isInteractive: boolean
+  private readonly maxZoom: number
+  private readonly resizeObserver: ResizeObserver
+
+  private velocityImage: VelocityImage | null
+  private extent: [number, number, number, number] | null
+  private view: [number, number, number, number] | null
+  // Bounding box of the velocity image that is set on the visualiser, which is
+  // a resampled part of the velocity image when zoomed in.
+  private boundingBox: [number, number, number, number] | null
+  // Positions of the active pointers in CSS pixels, relative to the canvas.
+  private readonly pointers: Map<number, [number, number]>
+
+  private animationFrame: number | null
+  private previousFrameTime: DOMHighResTimeStamp | null
+
+  // Resampling is relatively expensive, so only do it once the view stops
+  // changing.
+  private readonly debouncedResample = debounce(() => this.resample(), 100)
+
+  constructor(
+    canvas: HTMLCanvasElement,
+    numParticles: number,
+    visualiserOptions: StreamlineVisualiserOptions,
+    options: StreamlineCanvasOptions = {}
+  ) {
+    this.canvas = canvas
+    this.isInteractive = options.interactive ?? true
+    this.maxZoom = options.maxZoom ?? StreamlineCanvas.DEFAULT_MAX_ZOOM
+
+    const gl = canvas.getContext('webgl2', { premultipliedAlpha: false })
+    if (!gl) throw new Error('Could not create WebGL2 rendering context.')
+    this.gl = gl
+
+    this.updateCanvasSize()
+    this._visualiser = new StreamlineVisualiser(
+      gl,
+      canvas.width,
+      canvas.height,
+      numParticles,
+      visualiserOptions
+    )
+
+    this.velocityImage = null
+    this.extent = null
+    this.view = null
+    this.boundingBox = null
+    this.pointers = new Map()
+
+    this.animationFrame = null
+    this.previousFrameTime = null
+
+    this.resizeObserver = new ResizeObserver(() => this.resize())
+    this.resizeObserver.observe(canvas)
+    if (this.isInteractive) {
+      // Prevent the browser from scrolling and zooming the page on touch.
+      canvas.style.touchAction = 'none'
+      canvas.addEventListener('pointerdown', this.onPointerDown)
+      canvas.addEventListener('pointermove', this.onPointerMove)
+      canvas.addEventListener('pointerup', this.onPointerUp)
+      canvas.addEventListener('pointercancel', this.onPointerUp)
+      canvas.addEventListener('wheel', this.onWheel, { passive: false })
+    }
+  }
+
+  get visualiser(): StreamlineVisualiser {
+    return this._visualiser
+  }
+
+  /** Whether the render loop is running. */
+  get isRunning(): boolean {
+    return this.animationFrame !== null
+  }
+
+  /** Bounding box of the view, or null if no velocity image has been set. */
+  get viewBoundingBox(): [number, number, number, number] | null {
+    return this.view ? [...this.view] : null
+  }
+
+  async initialise(colormap: Colormap): Promise<void> {
+    await this._visualiser.initialise(colormap)
+  }
+
+  /**
+   * Sets the velocity image to visualise, and resets the view to its extent.
+   *
+   * @param velocityImage velocity image to visualise.
+   * @param extent extent of the velocity image, as [xMin, yMin, xMax, yMax] in
+   *   arbitrary coordinates.
+   * @param doResetParticles whether to reset the particles.
+   */
+  setVelocityImage(
+    velocityImage: VelocityImage,
+    extent: [number, number, number, number],
+    doResetParticles: boolean = true
+  ): void {
+    this.velocityImage = velocityImage
+    this.extent = extent
+    this.view = [...extent]
+    this.debouncedResample.cancel()
+    this.setVisualiserVelocityImage(velocityImage, extent, doResetParticles)
+  }
+
+  /**
+   * Sets the view, which is restricted to the extent of the velocity image.
+   *
+   * @param view bounding box of the view, as [xMin, yMin, xMax, yMax].
+   */
+  setViewBoundingBox(view: [number, number, number, number]): void {
+    if (!this.extent) throw new Error('No velocity image has been set.')
+    const [xMin, , xMax] = view
+    const [extentXMin, , extentXMax] = this.extent
+    this.zoomView(
+      view,
+      (extentXMax - extentXMin) / (xMax - xMin),
+      view[0],
+      view[3]
+    )
+  }
+
+  /** Resets the view to the extent of the velocity image. */
+  resetView(): void {
+    if (!this.extent) return
+    this.setViewBoundingBox(this.extent)
+  }
+
+  /** Starts running the render loop. */
+  run(): void {
+    if (this.isRunning) return
+    this._visualiser.start()
+    this.previousFrameTime = null
+    this.animationFrame = requestAnimationFrame(this.renderFrame)
+  }
+
+  /** Pauses the render loop; the last frame stays visible. */
+  pause(): void {
+    if (this.animationFrame !== null) cancelAnimationFrame(this.animationFrame)
+    this.animationFrame = null
+    this._visualiser.stop()
+  }
+
+  /**
+   * Resizes the drawing buffer to the size of the canvas and the device pixel
+   * ratio. This is called automatically when the canvas is resized.
+   */
+  resize(): void {
+    const hasChanged = this.updateCanvasSize()
+    if (!hasChanged || !this._visualiser.isInitialised) return
+    this._visualiser.setDimensions(this.canvas.width, this.canvas.height)
+    this.debouncedResample()
+  }
+
+  /**
+   * Pauses the render loop, removes the event listeners, and destructs the
+   * visualiser.
+   */
+  destruct(): void {
+    this.pause()
+    this.debouncedResample.cancel()
+    this.resizeObserver.disconnect()
+    this.canvas.removeEventListener('pointerdown', this.onPointerDown)
+    this.canvas.removeEventListener('pointermove', this.onPointerMove)
+    this.canvas.removeEventListener('pointerup', this.onPointerUp)
+    this.canvas.removeEventListener('pointercancel', this.onPointerUp)
+    this.canvas.removeEventListener('wheel', this.onWheel)
+    this._visualiser.destruct()
+  }
+
+  private readonly renderFrame = (now: DOMHighResTimeStamp): void => {
+    const dt = this.previousFrameTime
+      ? (now - this.previousFrameTime) / 1000
+      : 1 / 60
+    this.previousFrameTime = now
+
+    const gl = this.gl
+    gl.viewport(0, 0, this.canvas.width, this.canvas.height)
+    gl.bindFramebuffer(gl.FRAMEBUFFER, null)
+    gl.clearColor(0, 0, 0, 0)
+    gl.clear(gl.COLOR_BUFFER_BIT)
+    this._visualiser.renderFrame(dt)
+
+    this.animationFrame = requestAnimationFrame(this.renderFrame)
+  }
+
+  private readonly onPointerDown = (event: PointerEvent): void => {
+    this.canvas.setPointerCapture(event.pointerId)
+    this.pointers.set(event.pointerId, this.getPosition(event))
+  }
+
+  private readonly onPointerMove = (event: PointerEvent): void => {
+    const previous = this.pointers.get(event.pointerId)
+    if (!previous || !this.view) return
+    const position = this.getPosition(event)
+
+    // Pan with a single pointer, and pan and pinch-zoom around the midpoint
+    // with two pointers.
+    const others = [...this.pointers]
+      .filter(([id]) => id !== event.pointerId)
+      .map(([, other]) => other)
+    const other = others[0]
+    this.pointers.set(event.pointerId, position)
+    if (others.length === 0) {
+      this.pan(position[0] - previous[0], position[1] - previous[1])
+    } else if (others.length === 1 && other) {
+      const previousMidpoint = midpoint(previous, other)
+      const newMidpoint = midpoint(position, other)
+      this.pan(
+        newMidpoint[0] - previousMidpoint[0],
+        newMidpoint[1] - previousMidpoint[1]
+      )
+      const previousDistance = distance(previous, other)
+      if (previousDistance > 0) {
+        this.zoom(distance(position, other) / previousDistance, newMidpoint)
+      }
+    }
+  }
+
+  private readonly onPointerUp = (event: PointerEvent): void => {
+    this.pointers.delete(event.pointerId)
+  }
+
+  private readonly onWheel = (event: WheelEvent): void => {
+    if (!this.view) return
+    event.preventDefault()
+    // Normalise the scroll distance to pixels; lines are about 16 pixels.
+    const deltaY =
+      event.deltaMode === WheelEvent.DOM_DELTA_PIXEL
+        ? event.deltaY
+        : event.deltaY * 16
+    this.zoom(
+      Math.pow(StreamlineCanvas.WHEEL_ZOOM_RATE, -deltaY),
+      this.getPosition(event)
+    )
+  }
+
+  private getPosition(event: MouseEvent): [number, number] {
+    const rect = this.canvas.getBoundingClientRect()
+    return [event.clientX - rect.left, event.clientY - rect.top]
+  }
+
+  private pan(dx: number, dy: number): void {
+    if (!this.view) return
+    const [xMin, yMin, xMax, yMax] = this.view
+    // Convert from CSS pixels to view coordinates; the y-axis points up.
+    const shiftX = (-dx * (xMax - xMin)) / this.canvas.clientWidth
+    const shiftY = (dy * (yMax - yMin)) / this.canvas.clientHeight
+    this.setViewBoundingBox([
+      xMin + shiftX,
+      yMin + shiftY,
+      xMax + shiftX,
+      yMax + shiftY
+    ])
+  }
+
+  private zoom(factor: number, position: [number, number]): void {
+    if (!this.view || !this.extent) return
+    const [xMin, yMin, xMax, yMax] = this.view
+    const [extentXMin, , extentXMax] = this.extent
+
+    // Zoom around the position, in view coordinates.
+    const anchorX =
+      xMin + (position[0] / this.canvas.clientWidth) * (xMax - xMin)
+    const anchorY =
+      yMax - (position[1] / this.canvas.clientHeight) * (yMax - yMin)
+    const zoom = ((extentXMax - extentXMin) / (xMax - xMin)) * factor
+    this.zoomView(this.view, zoom, anchorX, anchorY)
+  }
+
+  private zoomView(
+    view: [number, number, number, number],
+    zoom: number,
+    anchorX: number,
+    anchorY: number
+  ): void {
+    if (!this.extent) return
+    const [xMin, yMin, xMax, yMax] = view
+    const [extentXMin, extentYMin, extentXMax, extentYMax] = this.extent
+    const extentWidth = extentXMax - extentXMin
+    const extentHeight = extentYMax - extentYMin
+
+    // The view keeps the aspect ratio of the extent, and stays within it.
+    const clampedZoom = Math.min(Math.max(zoom, 1), this.maxZoom)
+    const width = extentWidth / clampedZoom
+    const height = extentHeight / clampedZoom
+    const relativeX = (anchorX - xMin) / (xMax - xMin)
+    const relativeY = (anchorY - yMin) / (yMax - yMin)
+    const newXMin = clamp(
+      anchorX - relativeX * width,
+      extentXMin,
+      extentXMax - width
+    )
+    const newYMin = clamp(
+      anchorY - relativeY * height,
+      extentYMin,
+      extentYMax - height
+    )
+    this.view = [newXMin, newYMin, newXMin + width, newYMin + height]
+    this.updateScaling()
+    this.debouncedResample()
+  }
+
+  private resample(): void {
+    if (!this.velocityImage || !this.extent || !this.view) return
+    if (!this._visualiser.isInitialised) return
+
+    const [xMin, , xMax] = this.view
+    const [extentXMin, , extentXMax] = this.extent
+    const isZoomedOut = xMax - xMin >= extentXMax - extentXMin
+    if (isZoomedOut) {
+      this.setVisualiserVelocityImage(this.velocityImage, this.extent, false)
+      return
+    }
+    const velocityImage = this.velocityImage.resample(
+      this.extent,
+      this.view,
+      this.canvas.width,
+      this.canvas.height
+    )
+    this.setVisualiserVelocityImage(velocityImage, [...this.view], false)
+  }
+
+  private setVisualiserVelocityImage(
+    velocityImage: VelocityImage,
+    boundingBox: [number, number, number, number],
+    doResetParticles: boolean
+  ): void {
+    // Particle positions are georeferenced with respect to the extent, so
+    // particles keep their positions when the resampled image changes.
+    this._visualiser.setBoundingBox(boundingBox)
+    this._visualiser.setVelocityImage(velocityImage, doResetParticles)
+    this.boundingBox = boundingBox
+    this.updateScaling()
+  }
+
+  private updateScaling(): void {
+    if (!this.boundingBox || !this.view) return
+    this._visualiser.setScaling(
+      computeBoundingBoxScaling(this.boundingBox, this.view)
+    )
+  }
+
+  private updateCanvasSize(): boolean {
+    const pixelRatio = globalThis.devicePixelRatio ?? 1
+    const width = Math.max(Math.round(this.canvas.clientWidth * pixelRatio), 1)
+    const height = Math.max(
+      Math.round(this.canvas.clientHeight * pixelRatio),
+      1
+    )
+    if (width === this.canvas.width && height === this.canvas.height) {
+      return false
+    }
+    this.canvas.width = width
+    this.canvas.height = height
+    return true
+  }
+}
+
+function midpoint(a: [number, number], b: [number, number]): [number, number] {
+  return [(a[0] + b[0]) / 2, (a[1] + b[1]) / 2]
+}
+
+function distance(a: [number, number], b: [number, number]): number {
+  return Math.hypot(a[0] - b[0], a[1] - b[1])
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(Math.max(value, min), max)
+}
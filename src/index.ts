@@ -1,5 +1,23 @@
-export { WMSStreamlineLayer, type WMSStreamlineLayerOptions } from './layer'
-export { StreamlineStyle } from './render'
+export {
+  WMSStreamlineLayer,
+  type WMSStreamlineLayerEventMap,
+  type WMSStreamlineLayerOptions
+} from './layer'
+export {
+  OpenLayersStreamlineLayer,
+  type OpenLayersFrameState,
+  type OpenLayersMap,
+  type OpenLayersStreamlineLayerEventMap,
+  type OpenLayersView
+} from './openlayers'
+export { StreamlineCanvas, type StreamlineCanvasOptions } from './canvas'
+export {
+  TimePlayer,
+  type TimePlayerEventMap,
+  type TimePlayerLayer,
+  type TimePlayerOptions
+} from './player'
+export { MeshRasteriser, StreamlineStyle, VelocityReprojector } from './render'
 export {
   StreamlineVisualiser,
   TrailParticleShape,
@@ -11,4 +29,93 @@ export {
   fetchWMSColormap,
   fetchWMSVelocityField
 } from './utils/wms'
+export {
+  AbortedError,
+  EmptyImageError,
+  FetchError,
+  HttpError,
+  MalformedGeoTiffError,
+  NetworkError,
+  ServiceExceptionError,
+  isTransientError
+} from './utils/errors'
+export { type RetryOptions } from './utils/fetch'
+export {
+  AntimeridianVelocityFieldSource,
+  CachedVelocityFieldSource,
+  FewsWMSVelocityFieldSource,
+  type CachedVelocityFieldSourceOptions,
+  type AvailableTimesAndElevations,
+  TiledVelocityFieldSource,
+  type FewsWMSVelocityFieldSourceOptions,
+  MeshVelocityFieldSource,
+  type MeshVelocityFieldSourceOptions,
+  ReprojectedVelocityFieldSource,
+  type TiledVelocityFieldSourceOptions,
+  type VelocityFieldRequest,
+  type VelocityFieldSource,
+  LocalColormapVelocityFieldSource,
+  type LocalColormapOptions,
+  createVelocityFieldSourceChain,
+  type VelocityFieldSourceChain,
+  type VelocityFieldSourceChainOptions
+} from './sources'
+export {
+  fetchNetCDFVelocityField,
+  readNetCDFVelocityField,
+  type NetCDFVelocityFieldOptions
+} from './utils/netcdf'
+export {
+  fetchGRIB2VelocityField,
+  readGRIB2VelocityField,
+  type GRIB2Level,
+  type GRIB2VelocityFieldOptions
+} from './utils/grib'
+export {
+  fetchGDALGeoTiffVelocityField,
+  readGDALGeoTiffVelocityField,
+  type GeoTiffVelocityFieldOptions
+} from './utils/geotiff'
+export {
+  VelocityMesh,
+  type MeshValueLocation,
+  type VelocityMeshOptions
+} from './utils/mesh'
+export { Color, Colormap } from './utils/colormap'
+export {
+  parseColorRamp,
+  parseCpt,
+  parseMatplotlibJson,
+  parseSldColorMap,
+  toColorRamp,
+  toCpt,
+  toMatplotlibJson,
+  toSldColorMap,
+  type ColorRampFormat
+} from './utils/colormap-formats'
+export { parseCssColor, type RGBA } from './utils/css-colors'
+export {
+  createPaletteColormap,
+  paletteNames,
+  type PaletteName
+} from './utils/palettes'
+export { EventEmitter, type EventCallback } from './utils/events'
+export {
+  createReprojectionGrid,
+  transformBoundingBox,
+  type CoordinateTransform,
+  type ReprojectionGrid
+} from './utils/reprojection'
 export { type BoundingBoxScaling } from './render/final'
+export {
+  type ShaderProjection,
+  type ShaderProjectionData
+} from './render/projection'
+export {
+  VelocityImage,
+  type FloatTextureFormat,
+  type GeoreferencedVelocityImage,
+  type NoDataOptions,
+  type VelocityImageData,
+  type VelocityImageOptions
+} from './utils/velocity-image'
@@ -1,22 +1,43 @@
 import { debounce } from 'lodash-es'
 import {
   type CustomLayerInterface,
-  LngLat,
-  LngLatBounds,
+  type CustomRenderMethodInput,
+  type LngLat,
+  type LngLatBounds,
   type Map,
   MercatorCoordinate
 } from 'maplibre-gl'
 import {
-  type BoundingBoxScaling,
   type StreamlineVisualiserOptions,
   type TrailParticleOptions,
   StreamlineStyle,
-  StreamlineVisualiser,
-  fetchWMSAvailableTimesAndElevations,
-  fetchWMSColormap,
-  fetchWMSVelocityField
+  StreamlineVisualiser
 } from '.'
+import { computeBoundingBoxScaling } from '@/render/final'
+import type { Colormap } from '@/utils/colormap'
+import { AbortedError } from '@/utils/errors'
+import { EventEmitter, type EventCallback } from '@/utils/events'
+import type { RetryOptions } from '@/utils/fetch'
+import {
+  LayerUpdates,
+  computeWorldCopyOffsets,
+  createVelocityFieldRequest,
+  findTimeIndex,
+  findTimeInterval
+} from '@/utils/layer'
+import type { PaletteName } from '@/utils/palettes'
+import type { CoordinateTransform } from '@/utils/reprojection'
 import type { TransformRequestFunction } from '@/utils/wms'
+import {
+  type AvailableTimesAndElevations,
+  type CachedVelocityFieldSource,
+  FewsWMSVelocityFieldSource,
+  type MeshVelocityFieldSource,
+  type ReprojectedVelocityFieldSource,
+  type VelocityFieldRequest,
+  type VelocityFieldSource,
+  createVelocityFieldSourceChain
+} from './sources'
 
 export interface WMSStreamlineLayerOptions {
   baseUrl: string
@@ -37,8 +58,41 @@ export interface WMSStreamlineLayerOptions {
   spriteUrl?: URL
   trailParticleOptions?: TrailParticleOptions
   transformRequest?: TransformRequestFunction
+  // Source of the velocity fields, times, elevations and colormaps; if not
+  // specified, these are fetched from the FEWS WMS service at the base URL.
+  source?: VelocityFieldSource
+  // Memory budget in bytes for caching fetched velocity fields; 256 MiB by
+  // default. Set to 0 to disable caching; fields that are being fetched are
+  // still shared between updates.
+  maxCacheBytes?: number
+  // Number of times before and after the current time for which to prefetch
+  // velocity fields; none by default.
+  numPrefetchedTimes?: number
+  // Whether to fetch velocity fields as XYZ tiles in EPSG:3857 of this size in
+  // pixels, instead of a single image for the view. Tiles are cached
+  // individually, so only tiles that came into view are fetched when panning.
+  tileSize?: number
+  // Coordinate reference system to request velocity fields from the FEWS WMS
+  // service in; EPSG:3857 by default. Other CRSs require a transformation
+  // between EPSG:3857 and the CRS, and the velocity fields are reprojected on
+  // the GPU.
+  crs?: string
+  // Transformation between EPSG:3857 and the CRS of the requested velocity
+  // fields, e.g. created with proj4.
+  crsTransform?: CoordinateTransform
+  // Retries of fetches that fail with network errors or server errors (5xx),
+  // with exponential backoff; no retries by default.
+  retry?: RetryOptions
+  // Colormap to use instead of fetching it with GetLegendGraphic, either as a
+  // colormap or as the name of a built-in palette. It is rescaled to the color
+  // scale range, if specified; palettes span [0, 1] otherwise.
+  colormap?: Colormap | PaletteName
 }
 
+// Kinds of updates of the layer; a new update of a kind supersedes the previous
+// one, which is aborted.
+type UpdateKind = 'initialise' | 'velocity-field' | 'colormap' | 'prefetch'
+
 function convertMapBoundsToEpsg3857BoundingBox(
   bounds: LngLatBounds
 ): [number, number, number, number] {
@@ -57,6 +111,71 @@ function convertMapBoundsToEpsg3857BoundingBox(
   return [xSW, ySW, xNE, yNE]
 }
 
+function convertEpsg3857BoundingBoxToMercator(
+  boundingBox: [number, number, number, number]
+): [number, number, number, number] {
+  // Converts actual EPSG:3857 to weird normalised EPSG:3857, with y pointing
+  // south.
+  const mercatorWidth = 2 * 20037508.34
+  const [xMin, yMin, xMax, yMax] = boundingBox
+  return [
+    xMin / mercatorWidth + 0.5,
+    0.5 - yMax / mercatorWidth,
+    xMax / mercatorWidth + 0.5,
+    0.5 - yMin / mercatorWidth
+  ]
+}
+
+/**
+ * Events of the streamline layer, with the type of their payload.
+ */
+export interface WMSStreamlineLayerEventMap {
+  /** The layer has been added to a map. */
+  add: void
+  /** The layer has been initialised and shows its first velocity field. */
+  initialised: void
+  /** Velocity fields are being fetched. */
+  'start-loading': void
+  /**
+   * Fetching velocity fields has finished, either because they are shown, or
+   * because fetching failed or was superseded by a newer update. Every
+   * `start-loading` event is followed by an `end-loading` event.
+   */
+  'end-loading': void
+  /** A velocity field has been loaded and is shown. */
+  'velocity-field-loaded': {
+    time: string
+    boundingBox: [number, number, number, number]
+  }
+  /**
+   * Fetching a velocity field, the colormap or the available times and
+   * elevations failed; aborted fetches are not reported. Errors of WMS fetches
+   * are subclasses of `FetchError`, e.g. `HttpError` or
+   * `ServiceExceptionError`. The promise of the method that caused the fetch,
+   * e.g. `setTime`, is rejected with the same error.
+   */
+  'fetch-error': { error: Error }
+  /**
+   * The time of the layer has changed; the velocity fields for the new time
+   * may still be loading.
+   */
+  'time-changed': { time: Date }
+  /**
+   * The elevation of the layer has changed; the velocity fields for the new
+   * elevation may still be loading.
+   */
+  'elevation-changed': { elevation: number | null }
+  /** A new colormap is shown. */
+  'colormap-changed': {
+    colormap: Colormap
+    colorScaleRange: [number, number] | null
+  }
+  /** Rendering has stopped, e.g. because fetching a velocity field failed. */
+  'rendering-paused': void
+  /** Rendering has (re)started. */
+  'rendering-resumed': void
+}
+
 export class WMSStreamlineLayer implements CustomLayerInterface {
   private static readonly MAX_PARTICLE_DISPLACEMENT = 1
 
@@ -69,6 +188,10 @@ export class WMSStreamlineLayer implements CustomLayerInterface {
   private gl: WebGL2RenderingContext | null
 
   private readonly options: WMSStreamlineLayerOptions
+  private readonly source: VelocityFieldSource
+  private readonly cache: CachedVelocityFieldSource
+  private readonly reprojectedSource: ReprojectedVelocityFieldSource | null
+  private readonly meshSource: MeshVelocityFieldSource | null
   private _visualiser: StreamlineVisualiser | null
   private previousFrameTime: DOMHighResTimeStamp | null
 
@@ -78,18 +201,18 @@ export class WMSStreamlineLayer implements CustomLayerInterface {
   private elevationBounds: [number, number] | null
 
   private timeIndex: number
+  // Index of the next time to interpolate to, and the factor to interpolate
+  // with, if we are in between two times.
+  private nextTimeIndex: number | null
+  private blendFactor: number
   private elevation: number | null
   private colorScaleRange: [number, number] | null
 
   private isInitialised: boolean
-  private readonly abortController: AbortController
-
-  private onLayerAdd: (() => void) | null
-  private onStartLoading: (() => void) | null
-  private onEndLoading: (() => void) | null
-  // Pause rendering during map resizes; rendering will be continued by the
-  // newly fetched velocity field.
-  private readonly onResizeStart = () => this._visualiser?.stop()
+  private isRendering: boolean
+  private readonly updates: LayerUpdates<UpdateKind>
+
+  private readonly events: EventEmitter<WMSStreamlineLayerEventMap>
   // Map moveend events are fired during resize animations, so we debounce the
   // callback to prevent too many velocity field updates from happening.
   private readonly debouncedOnMapMoveEnd = debounce(() => this.onMapMoveEnd(), 100)
@@ -102,6 +225,16 @@ export class WMSStreamlineLayer implements CustomLayerInterface {
     this.gl = null
 
     this.options = options
+    // The FEWS WMS source reads from our options object, so it picks up changes
+    // from e.g. setWmsLayer and setStyle.
+    const chain = createVelocityFieldSourceChain(
+      options.source ?? new FewsWMSVelocityFieldSource(this.options),
+      options
+    )
+    this.source = chain.source
+    this.cache = chain.cache
+    this.reprojectedSource = chain.reprojectedSource
+    this.meshSource = chain.meshSource
     this._visualiser = null
     this.previousFrameTime = null
 
@@ -111,15 +244,17 @@ export class WMSStreamlineLayer implements CustomLayerInterface {
     this.elevationBounds = null
 
     this.timeIndex = 0
+    this.nextTimeIndex = null
+    this.blendFactor = 0
     this.elevation = null
     this.colorScaleRange = null
 
     this.isInitialised = false
-    this.abortController = new AbortController()
-
-    this.onLayerAdd = null
-    this.onStartLoading = null
-    this.onEndLoading = null
+    this.isRendering = false
+    this.events = new EventEmitter()
+    this.updates = new LayerUpdates(error =>
+      this.events.emit('fetch-error', { error })
+    )
   }
 
   get id(): string {
@@ -130,8 +265,13 @@ export class WMSStreamlineLayer implements CustomLayerInterface {
     return this._visualiser
   }
 
+  /** Times for which velocity fields are available. */
+  get availableTimes(): string[] {
+    return [...this.times]
+  }
+
   private get signal(): AbortSignal {
-    return this.abortController.signal
+    return this.updates.signal
   }
 
   private get time(): string {
@@ -164,58 +304,70 @@ export class WMSStreamlineLayer implements CustomLayerInterface {
     this.elevationBounds = null
 
     this.timeIndex = 0
+    this.nextTimeIndex = null
+    this.blendFactor = 0
     this.elevation = null
     this.colorScaleRange = null
 
-    if (this.onLayerAdd) {
-      this.onLayerAdd()
-      this.onLayerAdd = null
-    }
+    this.events.emit('add')
   }
 
   onRemove(): void {
     // Abort any ongoing updates to the layer. This prevents map event listeners
     // from being set after the layer has been removed from the map.
-    this.abortController.abort()
+    this.updates.abort()
     this.map
-      ?.off('resize', this.onResizeStart)
-      .off('movestart', this.onMapMoveStart)
+      ?.off('movestart', this.onMapMoveStart)
       .off('moveend', this.debouncedOnMapMoveEnd)
+    this.stopRendering()
     this._visualiser?.destruct()
     this._visualiser = null
+    this.reprojectedSource?.destruct()
+    this.meshSource?.destruct()
     this.previousFrameTime = null
   }
 
-  render(): void {
+  render(
+    _gl: WebGLRenderingContext | WebGL2RenderingContext,
+    options: CustomRenderMethodInput
+  ): void {
     if (!this.map || !this.boundingBoxWMS || !this._visualiser) {
       return
     }
 
-    const [xSWCur, ySWCur, xNECur, yNECur] =
-      convertMapBoundsToEpsg3857BoundingBox(this.map.getBounds())
-    const [xSWWMS, ySWWMS, xNEWMS, yNEWMS] = this.boundingBoxWMS
-
-    // Compute offset and scale of the new bounding box compared to the old one.
-    // This is used to determine where to render the streamline visualisation in
-    // clip coordinates.
-    const widthWMS = xNEWMS - xSWWMS
-    const widthCur = xNECur - xSWCur
-    const heightWMS = yNEWMS - ySWWMS
-    const heightCur = yNECur - ySWCur
-
-    // Compute the offset based on the centre of the bounding box.
-    const xCentreCur = 0.5 * (xSWCur + xNECur)
-    const yCentreCur = 0.5 * (ySWCur + yNECur)
-    const xCentreWMS = 0.5 * (xSWWMS + xNEWMS)
-    const yCentreWMS = 0.5 * (ySWWMS + yNEWMS)
-
-    const scaling: BoundingBoxScaling = {
-      scaleX: widthWMS / widthCur,
-      scaleY: heightWMS / heightCur,
-      offsetX: (-2 * (xCentreCur - xCentreWMS)) / widthCur,
-      offsetY: (-2 * (yCentreCur - yCentreWMS)) / heightCur
+    // Rotated, pitched and globe views cannot be described by a bounding box,
+    // so we render with the projection shader code provided by Maplibre. On
+    // flat, north-up maps, we scale the bounding box to the view, which also
+    // supports rendering sprites.
+    const isGlobe = this.map.getProjection()?.type === 'globe'
+    const isFlat =
+      !isGlobe && this.map.getBearing() === 0 && this.map.getPitch() === 0
+    const viewBoundingBox = convertMapBoundsToEpsg3857BoundingBox(
+      this.map.getBounds()
+    )
+    if (isFlat) {
+      // Compute where to render the streamline visualisation in clip
+      // coordinates of the current view.
+      const scaling = computeBoundingBoxScaling(
+        this.boundingBoxWMS,
+        viewBoundingBox
+      )
+      this._visualiser.setProjection(null)
+      this._visualiser.setScaling(scaling)
+    } else {
+      this._visualiser.setProjection({
+        ...options.shaderData,
+        data: options.defaultProjectionData,
+        boundingBox: convertEpsg3857BoundingBoxToMercator(this.boundingBoxWMS)
+      })
     }
-    this._visualiser?.setScaling(scaling)
+    // A globe shows only a single world.
+    const doRenderWorldCopies = !isGlobe && this.map.getRenderWorldCopies()
+    this._visualiser.setCopyOffsets(
+      doRenderWorldCopies
+        ? computeWorldCopyOffsets(this.boundingBoxWMS, viewBoundingBox)
+        : [0]
+    )
 
     // Determine time elapsed between this frame and the previous frame.
     const now = performance.now()
@@ -231,16 +383,43 @@ export class WMSStreamlineLayer implements CustomLayerInterface {
     this.map.triggerRepaint()
   }
 
-  once(_: 'add', callback: () => void): void {
-    this.onLayerAdd = callback
+  /**
+   * Adds a listener for an event of the layer.
+   *
+   * @param event type of the event.
+   * @param callback function to call with the payload of the event.
+   */
+  on<K extends keyof WMSStreamlineLayerEventMap>(
+    event: K,
+    callback: EventCallback<WMSStreamlineLayerEventMap[K]>
+  ): void {
+    this.events.on(event, callback)
   }
 
-  on(event: 'start-loading' | 'end-loading', callback: () => void): void {
-    if (event === 'start-loading') {
-      this.onStartLoading = callback
-    } else if (event === 'end-loading') {
-      this.onEndLoading = callback
-    }
+  /**
+   * Removes a listener for an event of the layer.
+   *
+   * @param event type of the event.
+   * @param callback listener that was added with `on` or `once`.
+   */
+  off<K extends keyof WMSStreamlineLayerEventMap>(
+    event: K,
+    callback: EventCallback<WMSStreamlineLayerEventMap[K]>
+  ): void {
+    this.events.off(event, callback)
+  }
+
+  /**
+   * Adds a listener for the next event of a type.
+   *
+   * @param event type of the event.
+   * @param callback function to call with the payload of the event.
+   */
+  once<K extends keyof WMSStreamlineLayerEventMap>(
+    event: K,
+    callback: EventCallback<WMSStreamlineLayerEventMap[K]>
+  ): void {
+    this.events.once(event, callback)
   }
 
   async waitForInitialisation(signal?: AbortSignal): Promise<boolean> {
@@ -268,45 +447,70 @@ export class WMSStreamlineLayer implements CustomLayerInterface {
     colorScaleRange?: [number, number]
   ): Promise<void> {
     if (!this._visualiser || !this.map) throw new Error('Not added to a map.')
+    const signal = this.updates.start('initialise')
+    // Colormap and velocity field updates that are started while we are
+    // loading, e.g. by setting the colormap or time, supersede these updates.
+    const colormapSignal = this.updates.start('colormap')
+    const velocityFieldSignal = this.updates.start('velocity-field')
+    this.elevation = elevation ?? null
+    this.colorScaleRange = colorScaleRange ?? null
 
-    // Fetch colormap and use it to initialise the visualiser.
-    const colormap = await fetchWMSColormap(
-      this.options.baseUrl,
-      this.options.layer,
-      colorScaleRange,
-      this.signal,
-      this.options.transformRequest
-    )
+    let colormap: Colormap
+    let response: AvailableTimesAndElevations
+    try {
+      // Fetch colormap and use it to initialise the visualiser.
+      colormap = await this.source.getColormap(colorScaleRange, signal)
 
-    // Fetch available WMS times and elevations.
-    const response = await fetchWMSAvailableTimesAndElevations(
-      this.options.baseUrl,
-      this.options.layer,
-      this.signal,
-      this.options.transformRequest
-    )
+      // Fetch available times and elevations.
+      response = await this.source.getAvailableTimesAndElevations(signal)
+    } catch (error) {
+      this.updates.reportError(error, signal)
+      throw error
+    }
+    // A newer initialisation takes precedence.
+    if (signal.aborted) return
+
+    // A time that was set while loading takes precedence over ours.
+    const previousTime = this.times[this.timeIndex]
+    const shownTime =
+      velocityFieldSignal.aborted && previousTime !== undefined
+        ? new Date(previousTime)
+        : time
 
     this.times = response.times
     this.elevationBounds = response.elevationBounds
 
-    this.timeIndex = time ? this.findTimeIndex(time) : 0
-    this.elevation = elevation ?? null
-    this.colorScaleRange = colorScaleRange ?? null
+    this.timeIndex = shownTime ? findTimeIndex(this.times, shownTime) : 0
+    this.nextTimeIndex = null
+    this.blendFactor = 0
+    // The data may have changed since the velocity fields were cached, e.g.
+    // for a new forecast.
+    this.cache.clear()
+
+    // Velocity fields in other CRSs are reprojected, and meshes rasterised,
+    // with the map's context.
+    if (this.gl) {
+      await this.reprojectedSource?.initialise(this.gl)
+      await this.meshSource?.initialise(this.gl)
+    }
 
     // Initialise and fetch first velocity field; this will also enable
     // rendering.
     await this._visualiser.initialise(colormap)
+    // A colormap that was set while loading could not be applied to the
+    // visualiser before it was initialised.
+    if (colormapSignal.aborted) await this.updateColormap()
     await this.updateVelocityField(true)
 
     // Register event listeners for map changes. This will also be called when
     // the map is resized. Make sure we do not add the listener if we have
     // already aborted any requests because the layer is being removed.
     if (this.signal.aborted) return
-    this.map.on('resize', this.onResizeStart)
     this.map.on('movestart', this.onMapMoveStart)
     this.map.on('moveend', this.debouncedOnMapMoveEnd)
 
     this.isInitialised = true
+    this.events.emit('initialised')
 
     // Request a repaint to ensure we see the velocity field.
     this.map.triggerRepaint()
@@ -324,21 +528,73 @@ export class WMSStreamlineLayer implements CustomLayerInterface {
   }
 
   async setTime(time: Date): Promise<void> {
-    await this.setTimeIndex(this.findTimeIndex(time))
+    await this.setTimeIndex(findTimeIndex(this.times, time))
   }
 
   async setTimeIndex(index: number): Promise<void> {
     // No change, do not update.
-    if (index === this.timeIndex) return
+    if (index === this.timeIndex && this.nextTimeIndex === null) return
 
     if (index < 0 || index > this.times.length - 1) {
       throw new Error('Invalid time index.')
     }
     this.timeIndex = index
+    this.nextTimeIndex = null
+    this.blendFactor = 0
+    this.events.emit('time-changed', { time: new Date(this.time) })
     // The velocity field update is abortable.
     await this.updateVelocityField(true)
   }
 
+  /**
+   * Sets a time in between the available times, interpolating between the
+   * velocity fields of the surrounding times.
+   *
+   * Velocity fields are only fetched when the surrounding times change, so this
+   * can be called for every frame of an animation through time. Particles are
+   * not reset, so the flow evolves smoothly.
+   *
+   * @param time time to show the interpolated velocity field for.
+   */
+  async setTimeInterpolated(time: Date): Promise<void> {
+    const [index, nextIndex, blendFactor] = findTimeInterval(this.times, time)
+    this.blendFactor = blendFactor
+    this.events.emit('time-changed', { time })
+    if (index === this.timeIndex && nextIndex === this.nextTimeIndex) {
+      this._visualiser?.setBlendFactor(blendFactor)
+      return
+    }
+    this.timeIndex = index
+    this.nextTimeIndex = nextIndex
+    await this.updateVelocityField(false)
+  }
+
+  /**
+   * Fetches the velocity fields for times in advance, for the current view.
+   *
+   * Prefetched fields are cached, and used when the layer is set to these
+   * times, as long as the view does not change. A new prefetch aborts the
+   * fetches of the previous prefetch that are not shown.
+   *
+   * @param indices indices of the times to prefetch.
+   */
+  async prefetchTimeIndices(indices: number[]): Promise<void> {
+    if (!this.map || this.map.isMoving() || !this.boundingBoxWMS) return
+
+    const requests = indices
+      .map(index => this.times[index])
+      .filter(time => time !== undefined)
+      .map(time => this.createVelocityFieldRequest(time))
+
+    // Failures are not reported, since the fields will be fetched again once
+    // they are shown. Fetches that are shared with shown fields are only
+    // aborted by the cache once the shown fields are superseded too.
+    const signal = this.updates.start('prefetch')
+    await Promise.allSettled(
+      requests.map(request => this.source.getVelocityField(request, signal))
+    )
+  }
+
   async setElevation(elevation: number | null): Promise<void> {
     // No change, do not update.
     if (elevation === this.elevation) return
@@ -355,6 +611,7 @@ export class WMSStreamlineLayer implements CustomLayerInterface {
       }
       this.elevation = elevation
     }
+    this.events.emit('elevation-changed', { elevation: this.elevation })
     // The velocity field update is abortable.
     await this.updateVelocityField(true)
   }
@@ -375,18 +632,23 @@ export class WMSStreamlineLayer implements CustomLayerInterface {
 
     this.colorScaleRange = colorScaleRange
 
-    // Update colormap and velocity field for new color scale range.
-    const colormap = await fetchWMSColormap(
-      this.options.baseUrl,
-      this.options.layer,
-      colorScaleRange ?? undefined,
-      this.signal,
-      this.options.transformRequest
-    )
-    this._visualiser?.setColorMap(colormap)
-
     // Note that we do not need a velocity update, since the TIFF response from
     // the WMS server does not depend on the color scale range.
+    await this.updateColormap()
+  }
+
+  /**
+   * Sets the colormap to use instead of the colormap of the source.
+   *
+   * @param colormap colormap or name of a built-in palette, which is rescaled
+   *   to the color scale range; undefined to use the colormap of the source.
+   */
+  async setColormap(
+    colormap: Colormap | PaletteName | undefined
+  ): Promise<void> {
+    // The local colormap is read from our options object by the source.
+    this.options.colormap = colormap
+    await this.updateColormap()
   }
 
   setNumParticles(numParticles: number): void {
@@ -436,10 +698,11 @@ export class WMSStreamlineLayer implements CustomLayerInterface {
   }
 
   private onMapMoveEnd(): void {
-    const doResetParticles = true
-    this.updateVelocityField(doResetParticles).catch(() =>
-      console.error('Failed to update velocity field.')
-    )
+    // Keep the particles; their positions are georeferenced, so they stay at
+    // the same geographic positions in the new bounding box.
+    const doResetParticles = false
+    // Failures are reported with the fetch-error event.
+    this.updateVelocityField(doResetParticles).catch(() => {})
   }
 
   private async updateVelocityField(doResetParticles: boolean): Promise<void> {
@@ -448,8 +711,11 @@ export class WMSStreamlineLayer implements CustomLayerInterface {
       // Will be called again when the map stops moving.
       return
     }
+    // Supersede any ongoing update, so an older velocity field never replaces
+    // a newer one.
+    const signal = this.updates.start('velocity-field')
 
-    if (this.onStartLoading) this.onStartLoading()
+    this.events.emit('start-loading')
 
     // Update the canvas size and dimensions for the visualiser. This is no-op
     // if the size has not changed.
@@ -457,85 +723,137 @@ export class WMSStreamlineLayer implements CustomLayerInterface {
     this._visualiser?.setDimensions(width, height)
     // Restart animation after setting the dimensions, so we can still show
     // some animation after resizing the canvas, with the old velocity field.
-    this._visualiser?.start()
+    this.startRendering()
 
     // Make sure to get the bounds before we start the long wait for the WMS
     // layer, since the user may have moved the map while this fetch is
     // happening; this would cause the newly fetched WMS image to be placed at
     // the wrong coordinates.
-    // The FEWS Web Mapping Service cannot handle bounding boxes larger than a
-    // single earth, so we restrict ourselves to just the one earth. We also
-    // need to reduce the width of the requested image by the appropriate
-    // amount, as this size is not respected by FEWS WMS if the aspect ratio is
-    // not OK.
-    let factorWidth = 1
-    let bounds = this.map.getBounds()
-    const range = bounds.getEast() - bounds.getWest()
-    if (range > 360) {
-      factorWidth = 360 / range
-      bounds = new LngLatBounds(
-        new LngLat(0, bounds.getSouth()),
-        new LngLat(360, bounds.getNorth())
+    const request = this.createVelocityFieldRequest(this.time)
+    const nextRequest: VelocityFieldRequest | null =
+      this.nextTimeIndex !== null
+        ? { ...request, time: this.times[this.nextTimeIndex]! }
+        : null
+    try {
+      const [velocityImage, nextVelocityImage] = await Promise.all([
+        this.source.getVelocityField(request, signal),
+        nextRequest ? this.source.getVelocityField(nextRequest, signal) : null
+      ])
+      if (signal.aborted) return
+      // Particle positions are georeferenced, so particles keep their
+      // geographic positions in the new bounding box.
+      this._visualiser?.setBoundingBox(request.boundingBox)
+      this._visualiser?.setVelocityImages(
+        velocityImage,
+        nextVelocityImage,
+        doResetParticles
       )
-    }
-    const boundingBox = convertMapBoundsToEpsg3857BoundingBox(bounds)
+      this._visualiser?.setBlendFactor(this.blendFactor)
+
+      this.startRendering()
+      this.boundingBoxWMS = request.boundingBox
+
+      // Request a repaint from Maplibre so we (re)start the animation.
+      this.map.triggerRepaint()
 
-    const downsampleDimension = (length: number) => {
-      const divisor = this.options.downsampleFactorWMS ?? 1
-      return Math.round(length / divisor)
+      this.events.emit('velocity-field-loaded', {
+        time: request.time,
+        boundingBox: request.boundingBox
+      })
+    } catch (error) {
+      // Aborted fetches are not failures; a newer update is responsible for
+      // the velocity field then, so keep showing the current one.
+      if (signal.aborted || error instanceof AbortedError) return
+      this.updates.reportError(error, signal)
+      this.stopRendering()
+      this.boundingBoxWMS = null
+      throw error
+    } finally {
+      this.events.emit('end-loading')
     }
-    const widthWMS = downsampleDimension(factorWidth * width)
-    const heightWMS = downsampleDimension(height)
 
+    this.prefetchNeighbouringTimes()
+  }
+
+  private async updateColormap(): Promise<void> {
+    const signal = this.updates.start('colormap')
+    let colormap: Colormap
     try {
-      const velocityImage = await fetchWMSVelocityField(
-        this.options.baseUrl,
-        this.options.layer,
-        this.time,
-        boundingBox,
-        widthWMS,
-        heightWMS,
-        this.options.style,
-        this.options.useDisplayUnits,
-        this.options.useLastValue,
-        this.elevation ?? undefined,
-        this.signal,
-        this.options.transformRequest
+      colormap = await this.source.getColormap(
+        this.colorScaleRange ?? undefined,
+        signal
       )
-      this._visualiser?.setVelocityImage(velocityImage, doResetParticles)
     } catch (error) {
-      // No error message is necessary if the promise gets rejected due to an
-      // abort.
-      if (!this.signal.aborted) {
-        const errorString = (error as Error).toString()
-        console.error(
-          `Failed to fetch WMS velocity field, or received empty image: ${errorString}.`
-        )
-      }
-      this._visualiser?.stop()
-      this.boundingBoxWMS = null
-      return
+      this.updates.reportError(error, signal)
+      throw error
     }
+    // A newer colormap update takes precedence.
+    if (signal.aborted) return
+    // Initialisation applies the colormap once the visualiser is initialised.
+    if (!this._visualiser?.isInitialised) return
+    this._visualiser.setColorMap(colormap)
+    this.events.emit('colormap-changed', {
+      colormap,
+      colorScaleRange: this.colorScaleRange
+    })
+  }
 
-    this._visualiser?.start()
-    this.boundingBoxWMS = boundingBox
+  private startRendering(): void {
+    if (!this._visualiser) return
+    this._visualiser.start()
+    if (this.isRendering) return
+    this.isRendering = true
+    this.events.emit('rendering-resumed')
+  }
 
-    // Request a repaint from Maplibre so we (re)start the animation.
-    this.map.triggerRepaint()
+  private stopRendering(): void {
+    this._visualiser?.stop()
+    if (!this.isRendering) return
+    this.isRendering = false
+    this.events.emit('rendering-paused')
+  }
 
-    if (this.onEndLoading) this.onEndLoading()
+  private prefetchNeighbouringTimes(): void {
+    const numPrefetched = this.options.numPrefetchedTimes ?? 0
+    if (numPrefetched === 0) return
+
+    // Prefetch the times around the shown time(s), nearest first.
+    const first = this.timeIndex
+    const last = this.nextTimeIndex ?? this.timeIndex
+    const indices: number[] = []
+    for (let offset = 1; offset <= numPrefetched; offset++) {
+      indices.push(last + offset, first - offset)
+    }
+    this.prefetchTimeIndices(
+      indices.filter(index => index >= 0 && index < this.times.length)
+    ).catch(() => {})
   }
 
-  private findTimeIndex(time: Date): number {
-    // Find the closest date to the requested date.
-    const timestamps = this.times.map(cur => new Date(cur).getTime())
-    const timestamp = time.getTime()
-    const diffs = timestamps.map(cur => Math.abs(timestamp - cur))
-    const minDiff = Math.min(...diffs)
-    return diffs.findIndex(diff => diff == minDiff) ?? 0
+  private createVelocityFieldRequest(time: string): VelocityFieldRequest {
+    if (!this.map) throw new Error('Not added to a map')
+
+    // Use the resolution of the map at its centre, in EPSG:3857 units per
+    // pixel of the canvas; the world is 512 CSS pixels wide at zoom level 0.
+    const mercatorWidth = 2 * 20037508.34
+    const worldSize = 512 * 2 ** this.map.getZoom() * this.map.getPixelRatio()
+    return createVelocityFieldRequest(
+      {
+        // The bounds of rotated or pitched maps cover their whole visible
+        // footprint.
+        boundingBox: convertMapBoundsToEpsg3857BoundingBox(
+          this.map.getBounds()
+        ),
+        resolution: mercatorWidth / worldSize,
+        canvasSize: this.size
+      },
+      time,
+      this.elevation,
+      this.options.downsampleFactorWMS
+    )
   }
 
-  private static getVisualiserOptionsFromLayerOptions(
+  /** Visualiser options corresponding to the options of a layer. */
+  static getVisualiserOptionsFromLayerOptions(
     options: WMSStreamlineLayerOptions
   ): StreamlineVisualiserOptions {
     return {
@@ -0,0 +1,557 @@
+import { debounce } from 'lodash-es'
+
+import type {
+  WMSStreamlineLayerEventMap,
+  WMSStreamlineLayerOptions
+} from './layer'
+import { WMSStreamlineLayer } from './layer'
+import { computeBoundingBoxScaling } from './render/final'
+import {
+  type AvailableTimesAndElevations,
+  type CachedVelocityFieldSource,
+  FewsWMSVelocityFieldSource,
+  type MeshVelocityFieldSource,
+  type ReprojectedVelocityFieldSource,
+  type VelocityFieldRequest,
+  type VelocityFieldSource,
+  createVelocityFieldSourceChain
+} from './sources'
+import type { Colormap } from './utils/colormap'
+import { AbortedError } from './utils/errors'
+import { type EventCallback, EventEmitter } from './utils/events'
+import {
+  LayerUpdates,
+  computeWorldCopyOffsets,
+  createVelocityFieldRequest,
+  findTimeIndex
+} from './utils/layer'
+import type { PaletteName } from './utils/palettes'
+import {
+  type StreamlineVisualiserOptions,
+  StreamlineVisualiser
+} from './visualiser'
+
+/**
+ * Part of an OpenLayers view that the streamline layer uses.
+ */
+export interface OpenLayersView {
+  getResolution(): number | undefined
+  calculateExtent(size?: number[]): number[]
+}
+
+/**
+ * Part of an OpenLayers map that the streamline layer uses; an `ol/Map`
+ * satisfies this interface.
+ */
+export interface OpenLayersMap {
+  getSize(): number[] | undefined
+  getView(): OpenLayersView
+  on(type: 'movestart' | 'moveend', listener: () => void): unknown
+  un(type: 'movestart' | 'moveend', listener: () => void): unknown
+  render(): void
+}
+
+/**
+ * Part of an OpenLayers frame state that the streamline layer uses.
+ */
+export interface OpenLayersFrameState {
+  pixelRatio: number
+  // Extent of the view in map coordinates, covering the whole view if it is
+  // rotated.
+  extent: number[] | null
+  viewState: {
+    resolution: number
+    rotation: number
+  }
+}
+
+/**
+ * Events of the OpenLayers streamline layer, which have the same payloads as
+ * the corresponding events of `WMSStreamlineLayer`.
+ */
+export type OpenLayersStreamlineLayerEventMap = Pick<
+  WMSStreamlineLayerEventMap,
+  'start-loading' | 'end-loading' | 'velocity-field-loaded' | 'fetch-error'
+>
+
+/**
+ * Streamline layer for OpenLayers maps with an EPSG:3857 view.
+ *
+ * The layer renders into its own WebGL2 canvas, which is returned by `render`,
+ * so it can be used as the render function of an OpenLayers layer:
+ *
+ * ```typescript
+ * const streamlines = new OpenLayersStreamlineLayer(options)
+ * map.addLayer(new Layer({ render: frameState => streamlines.render(frameState) }))
+ * streamlines.attach(map)
+ * await streamlines.initialise()
+ * ```
+ *
+ * The canvas covers the extent of the view, and is rotated with the view.
+ * Velocity fields are fetched for the extent of the view when the map stops
+ * moving.
+ */
+export class OpenLayersStreamlineLayer {
+  private readonly options: WMSStreamlineLayerOptions
+  private readonly source: VelocityFieldSource
+  private readonly cache: CachedVelocityFieldSource
+  private readonly reprojectedSource: ReprojectedVelocityFieldSource | null
+  private readonly meshSource: MeshVelocityFieldSource | null
+
+  private readonly container: HTMLDivElement
+  private readonly canvas: HTMLCanvasElement
+  private map: OpenLayersMap | null
+  private gl: WebGL2RenderingContext | null
+  private _visualiser: StreamlineVisualiser | null
+  private pixelRatio: number
+  private previousFrameTime: DOMHighResTimeStamp | null
+
+  private boundingBox: [number, number, number, number] | null
+  private times: string[]
+  private elevationBounds: [number, number] | null
+  private timeIndex: number
+  private elevation: number | null
+  private colorScaleRange: [number, number] | null
+
+  private readonly events: EventEmitter<OpenLayersStreamlineLayerEventMap>
+  private readonly updates: LayerUpdates<
+    'initialise' | 'velocity-field' | 'colormap'
+  >
+
+  // Map moveend events are fired during animations, so we debounce the
+  // callback to prevent too many velocity field updates from happening.
+  private readonly debouncedOnMapMoveEnd = debounce(
+    () => this.onMapMoveEnd(),
+    100
+  )
+  private readonly onMapMoveStart = () => this.debouncedOnMapMoveEnd.cancel()
+
+  constructor(options: WMSStreamlineLayerOptions) {
+    this.options = options
+    // The FEWS WMS source reads from our options object, so it picks up changes
+    // from e.g. setStyle.
+    const chain = createVelocityFieldSourceChain(
+      options.source ?? new FewsWMSVelocityFieldSource(this.options),
+      options
+    )
+    this.source = chain.source
+    this.cache = chain.cache
+    this.reprojectedSource = chain.reprojectedSource
+    this.meshSource = chain.meshSource
+
+    this.container = document.createElement('div')
+    this.container.style.position = 'absolute'
+    this.container.style.inset = '0'
+    this.container.style.overflow = 'hidden'
+    this.container.style.pointerEvents = 'none'
+    this.canvas = document.createElement('canvas')
+    this.canvas.style.position = 'absolute'
+    this.canvas.style.left = '50%'
+    this.canvas.style.top = '50%'
+    this.container.appendChild(this.canvas)
+
+    this.map = null
+    this.gl = null
+    this._visualiser = null
+    this.pixelRatio = globalThis.devicePixelRatio ?? 1
+    this.previousFrameTime = null
+
+    this.boundingBox = null
+    this.times = []
+    this.elevationBounds = null
+    this.timeIndex = 0
+    this.elevation = null
+    this.colorScaleRange = null
+
+    this.events = new EventEmitter()
+    this.updates = new LayerUpdates(error =>
+      this.events.emit('fetch-error', { error })
+    )
+  }
+
+  get visualiser(): StreamlineVisualiser | null {
+    return this._visualiser
+  }
+
+  /** Times for which velocity fields are available. */
+  get availableTimes(): string[] {
+    return [...this.times]
+  }
+
+  private get signal(): AbortSignal {
+    return this.updates.signal
+  }
+
+  /**
+   * Attaches the layer to a map, and creates its WebGL2 context and
+   * visualiser.
+   *
+   * @param map map to attach to.
+   */
+  attach(map: OpenLayersMap): void {
+    this.map = map
+    this.resizeCanvas()
+
+    const gl = this.canvas.getContext('webgl2', { premultipliedAlpha: false })
+    if (!gl) throw new Error('Could not create WebGL2 rendering context.')
+    this.gl = gl
+
+    const visualiserOptions: StreamlineVisualiserOptions =
+      WMSStreamlineLayer.getVisualiserOptionsFromLayerOptions(this.options)
+    this._visualiser = new StreamlineVisualiser(
+      gl,
+      this.canvas.width,
+      this.canvas.height,
+      this.options.numParticles,
+      visualiserOptions
+    )
+  }
+
+  /**
+   * Detaches the layer from its map, aborting any ongoing fetches.
+   */
+  detach(): void {
+    this.updates.abort()
+    this.map?.un('movestart', this.onMapMoveStart)
+    this.map?.un('moveend', this.debouncedOnMapMoveEnd)
+    this.debouncedOnMapMoveEnd.cancel()
+    this._visualiser?.destruct()
+    this._visualiser = null
+    this.reprojectedSource?.destruct()
+    this.meshSource?.destruct()
+    this.map = null
+    this.gl = null
+    this.previousFrameTime = null
+  }
+
+  async initialise(
+    time?: Date,
+    elevation?: number,
+    colorScaleRange?: [number, number]
+  ): Promise<void> {
+    if (!this._visualiser || !this.map || !this.gl) {
+      throw new Error('Not attached to a map.')
+    }
+
+    const signal = this.updates.start('initialise')
+    // Colormap and velocity field updates that are started while we are
+    // loading, e.g. by setting the colormap or time, supersede these updates.
+    const colormapSignal = this.updates.start('colormap')
+    const velocityFieldSignal = this.updates.start('velocity-field')
+    this.elevation = elevation ?? null
+    this.colorScaleRange = colorScaleRange ?? null
+
+    let colormap: Colormap
+    let response: AvailableTimesAndElevations
+    try {
+      colormap = await this.source.getColormap(colorScaleRange, signal)
+      response = await this.source.getAvailableTimesAndElevations(signal)
+    } catch (error) {
+      this.updates.reportError(error, signal)
+      throw error
+    }
+    // A newer initialisation takes precedence.
+    if (signal.aborted) return
+
+    // A time that was set while loading takes precedence over ours.
+    const previousTime = this.times[this.timeIndex]
+    const shownTime =
+      velocityFieldSignal.aborted && previousTime !== undefined
+        ? new Date(previousTime)
+        : time
+
+    this.times = response.times
+    this.elevationBounds = response.elevationBounds
+    this.timeIndex = shownTime ? findTimeIndex(this.times, shownTime) : 0
+    // The data may have changed since the velocity fields were cached, e.g.
+    // for a new forecast.
+    this.cache.clear()
+
+    await this.reprojectedSource?.initialise(this.gl)
+    await this.meshSource?.initialise(this.gl)
+    await this._visualiser.initialise(colormap)
+    // A colormap that was set while loading could not be applied to the
+    // visualiser before it was initialised.
+    if (colormapSignal.aborted) await this.updateColormap()
+    await this.updateVelocityField(true)
+
+    if (this.signal.aborted) return
+    this.map.on('movestart', this.onMapMoveStart)
+    this.map.on('moveend', this.debouncedOnMapMoveEnd)
+    this.map.render()
+  }
+
+  /**
+   * Renders a frame of the streamline visualisation.
+   *
+   * @param frameState frame state of the OpenLayers map.
+   * @returns element with the canvas to show in the map.
+   */
+  render(frameState: OpenLayersFrameState): HTMLElement {
+    this.pixelRatio = frameState.pixelRatio
+    const extent = frameState.extent
+    if (!this.map || !this.gl || !this._visualiser || !this.boundingBox) {
+      return this.container
+    }
+    if (!extent) return this.container
+
+    // Stretch the canvas over the extent of the view, and rotate it with the
+    // view; the drawing buffer is only resized when the velocity field is
+    // updated.
+    const [xMin, yMin, xMax, yMax] = extent as [number, number, number, number]
+    const { resolution, rotation } = frameState.viewState
+    this.canvas.style.width = `${(xMax - xMin) / resolution}px`
+    this.canvas.style.height = `${(yMax - yMin) / resolution}px`
+    this.canvas.style.transform = `translate(-50%, -50%) rotate(${rotation}rad)`
+
+    const scaling = computeBoundingBoxScaling(this.boundingBox, [
+      xMin,
+      yMin,
+      xMax,
+      yMax
+    ])
+    this._visualiser.setScaling(scaling)
+    // Views wider than a single earth show copies of the velocity field.
+    this._visualiser.setCopyOffsets(
+      computeWorldCopyOffsets(this.boundingBox, [xMin, yMin, xMax, yMax])
+    )
+
+    const now = performance.now()
+    const dt = this.previousFrameTime
+      ? (now - this.previousFrameTime) / 1000
+      : 1 / 60
+    this.previousFrameTime = now
+
+    const gl = this.gl
+    gl.viewport(0, 0, this.canvas.width, this.canvas.height)
+    gl.bindFramebuffer(gl.FRAMEBUFFER, null)
+    gl.clearColor(0, 0, 0, 0)
+    gl.clear(gl.COLOR_BUFFER_BIT)
+    this._visualiser.renderFrame(dt)
+
+    // Request the next frame from OpenLayers.
+    this.map.render()
+    return this.container
+  }
+
+  async setStyle(style: string): Promise<void> {
+    this.options.style = style
+    await this.updateVelocityField(false)
+  }
+
+  async setTime(time: Date): Promise<void> {
+    await this.setTimeIndex(findTimeIndex(this.times, time))
+  }
+
+  async setTimeIndex(index: number): Promise<void> {
+    if (index === this.timeIndex) return
+    if (index < 0 || index > this.times.length - 1) {
+      throw new Error('Invalid time index.')
+    }
+    this.timeIndex = index
+    await this.updateVelocityField(true)
+  }
+
+  async setElevation(elevation: number | null): Promise<void> {
+    if (elevation === this.elevation) return
+    if (
+      elevation !== null &&
+      (this.elevationBounds === null ||
+        elevation < this.elevationBounds[0] ||
+        elevation > this.elevationBounds[1])
+    ) {
+      throw new Error('Invalid elevation.')
+    }
+    this.elevation = elevation
+    await this.updateVelocityField(true)
+  }
+
+  async setColorScaleRange(
+    colorScaleRange: [number, number] | null
+  ): Promise<void> {
+    if (
+      colorScaleRange?.[0] === this.colorScaleRange?.[0] &&
+      colorScaleRange?.[1] === this.colorScaleRange?.[1]
+    ) {
+      return
+    }
+    this.colorScaleRange = colorScaleRange
+    await this.updateColormap()
+  }
+
+  /**
+   * Sets the colormap to use instead of the colormap of the source.
+   *
+   * @param colormap colormap or name of a built-in palette, which is rescaled
+   *   to the color scale range; undefined to use the colormap of the source.
+   */
+  async setColormap(
+    colormap: Colormap | PaletteName | undefined
+  ): Promise<void> {
+    this.options.colormap = colormap
+    await this.updateColormap()
+  }
+
+  setNumParticles(numParticles: number): void {
+    this._visualiser?.setNumParticles(numParticles)
+  }
+
+  async setVisualiserOptions(
+    options: Partial<StreamlineVisualiserOptions>
+  ): Promise<void> {
+    await this._visualiser?.updateOptions(options)
+  }
+
+  /**
+   * Adds a listener for an event of the layer.
+   *
+   * @param event type of the event.
+   * @param callback function to call with the payload of the event.
+   */
+  on<K extends keyof OpenLayersStreamlineLayerEventMap>(
+    event: K,
+    callback: EventCallback<OpenLayersStreamlineLayerEventMap[K]>
+  ): void {
+    this.events.on(event, callback)
+  }
+
+  /**
+   * Removes a listener for an event of the layer.
+   *
+   * @param event type of the event.
+   * @param callback listener that was added with `on` or `once`.
+   */
+  off<K extends keyof OpenLayersStreamlineLayerEventMap>(
+    event: K,
+    callback: EventCallback<OpenLayersStreamlineLayerEventMap[K]>
+  ): void {
+    this.events.off(event, callback)
+  }
+
+  /**
+   * Adds a listener for the next event of a type.
+   *
+   * @param event type of the event.
+   * @param callback function to call with the payload of the event.
+   */
+  once<K extends keyof OpenLayersStreamlineLayerEventMap>(
+    event: K,
+    callback: EventCallback<OpenLayersStreamlineLayerEventMap[K]>
+  ): void {
+    this.events.once(event, callback)
+  }
+
+  private onMapMoveEnd(): void {
+    // Particle positions are georeferenced, so we keep the particles. Failures
+    // are reported with the fetch-error event.
+    this.updateVelocityField(false).catch(() => {})
+  }
+
+  private resizeCanvas(): void {
+    const [width, height] = this.getViewSize()
+    this.canvas.width = Math.max(Math.round(width * this.pixelRatio), 1)
+    this.canvas.height = Math.max(Math.round(height * this.pixelRatio), 1)
+    this.canvas.style.width = `${width}px`
+    this.canvas.style.height = `${height}px`
+  }
+
+  private getViewExtent(): [number, number, number, number] {
+    if (!this.map) throw new Error('Not attached to a map.')
+    const [xMin, yMin, xMax, yMax] = this.map
+      .getView()
+      .calculateExtent(this.map.getSize())
+    if (
+      xMin === undefined ||
+      yMin === undefined ||
+      xMax === undefined ||
+      yMax === undefined
+    ) {
+      throw new Error('Invalid view extent.')
+    }
+    return [xMin, yMin, xMax, yMax]
+  }
+
+  private getViewSize(): [number, number] {
+    // Size of the extent of the view in CSS pixels, which is larger than the
+    // map if the view is rotated.
+    if (!this.map) throw new Error('Not attached to a map.')
+    const resolution = this.map.getView().getResolution()
+    if (resolution === undefined) throw new Error('View has no resolution.')
+    const [xMin, yMin, xMax, yMax] = this.getViewExtent()
+    return [(xMax - xMin) / resolution, (yMax - yMin) / resolution]
+  }
+
+  private async updateVelocityField(doResetParticles: boolean): Promise<void> {
+    if (!this.map || !this._visualiser) return
+    const time = this.times[this.timeIndex]
+    if (time === undefined) throw new Error('No available times.')
+
+    this.resizeCanvas()
+    this._visualiser.setDimensions(this.canvas.width, this.canvas.height)
+    this._visualiser.start()
+
+    // Supersede any ongoing update, so an older velocity field never replaces
+    // a newer one.
+    const signal = this.updates.start('velocity-field')
+    const request = this.createVelocityFieldRequest(time)
+    this.events.emit('start-loading')
+    try {
+      const velocityImage = await this.source.getVelocityField(request, signal)
+      if (signal.aborted) return
+      this._visualiser?.setBoundingBox(request.boundingBox)
+      this._visualiser?.setVelocityImage(velocityImage, doResetParticles)
+      this.boundingBox = request.boundingBox
+      this.map?.render()
+      this.events.emit('velocity-field-loaded', {
+        time: request.time,
+        boundingBox: request.boundingBox
+      })
+    } catch (error) {
+      // Aborted fetches are not failures; a newer update is responsible for
+      // the velocity field then, so keep showing the current one.
+      if (signal.aborted || error instanceof AbortedError) return
+      this.updates.reportError(error, signal)
+      this._visualiser?.stop()
+      this.boundingBox = null
+      throw error
+    } finally {
+      this.events.emit('end-loading')
+    }
+  }
+
+  private async updateColormap(): Promise<void> {
+    const signal = this.updates.start('colormap')
+    let colormap: Colormap
+    try {
+      colormap = await this.source.getColormap(
+        this.colorScaleRange ?? undefined,
+        signal
+      )
+    } catch (error) {
+      this.updates.reportError(error, signal)
+      throw error
+    }
+    // A newer colormap update takes precedence.
+    if (signal.aborted) return
+    // Initialisation applies the colormap once the visualiser is initialised.
+    if (!this._visualiser?.isInitialised) return
+    this._visualiser.setColorMap(colormap)
+  }
+
+  private createVelocityFieldRequest(time: string): VelocityFieldRequest {
+    if (!this.map) throw new Error('Not attached to a map.')
+    const resolution = this.map.getView().getResolution()
+    if (resolution === undefined) throw new Error('View has no resolution.')
+    return createVelocityFieldRequest(
+      {
+        boundingBox: this.getViewExtent(),
+        // Resolution in EPSG:3857 units per pixel of the canvas.
+        resolution: resolution / this.pixelRatio,
+        canvasSize: [this.canvas.width, this.canvas.height]
+      },
+      time,
+      this.elevation,
+      this.options.downsampleFactorWMS
+    )
+  }
+}
@@ -0,0 +1,333 @@
+import type { WMSStreamlineLayer } from './layer'
+import { AbortedError } from './utils/errors'
+import { type EventCallback, EventEmitter } from './utils/events'
+
+/**
+ * Part of the streamline layer that the time player controls.
+ */
+export type TimePlayerLayer = Pick<
+  WMSStreamlineLayer,
+  | 'availableTimes'
+  | 'setTimeIndex'
+  | 'setTimeInterpolated'
+  | 'prefetchTimeIndices'
+>
+
+export interface TimePlayerOptions {
+  /** Model time in seconds that passes per second of playback; 1 hour by default. */
+  rate?: number
+  /** Whether to restart at the start of the time window when reaching its end. */
+  loop?: boolean
+  /** Window of time to play through; all available times by default. */
+  window?: [Date, Date]
+  /** Whether to interpolate between the available times; true by default. */
+  interpolate?: boolean
+  /** Number of upcoming available times to prefetch; 2 by default. */
+  numPrefetch?: number
+}
+
+/**
+ * Events of the time player, with the types of their payloads.
+ */
+export interface TimePlayerEventMap {
+  /** The time of the player has changed. */
+  time: Date
+  /** Playback has started. */
+  play: void
+  /** Playback has been paused. */
+  pause: void
+  /** Playback has reached the end of the time window without looping. */
+  end: void
+  /**
+   * Updating the layer to a new time failed, e.g. because fetching its
+   * velocity field failed. Aborted updates are not reported.
+   */
+  error: { error: Error }
+}
+
+/**
+ * Plays through the available times of a streamline layer.
+ *
+ * Model time advances with the playback rate while playing, but waits while
+ * the velocity fields for a new time are being fetched, so playback never runs
+ * ahead of the data. Velocity fields of upcoming times are prefetched.
+ */
+export class TimePlayer {
+  private static readonly DEFAULT_RATE = 3600
+  private static readonly DEFAULT_NUM_PREFETCH = 2
+
+  private readonly layer: TimePlayerLayer
+  private rate: number
+  private loop: boolean
+  private window: [Date, Date] | null
+  private readonly interpolate: boolean
+  private readonly numPrefetch: number
+
+  private _time: Date | null
+  private _isPlaying: boolean
+  private animationFrame: number | null
+  private previousFrameTime: DOMHighResTimeStamp | null
+  private pendingUpdate: Promise<void> | null
+
+  private readonly events: EventEmitter<TimePlayerEventMap>
+
+  constructor(layer: TimePlayerLayer, options: TimePlayerOptions = {}) {
+    this.layer = layer
+    this.rate = options.rate ?? TimePlayer.DEFAULT_RATE
+    this.loop = options.loop ?? false
+    this.window = options.window ?? null
+    this.interpolate = options.interpolate ?? true
+    this.numPrefetch = options.numPrefetch ?? TimePlayer.DEFAULT_NUM_PREFETCH
+
+    this._time = null
+    this._isPlaying = false
+    this.animationFrame = null
+    this.previousFrameTime = null
+    this.pendingUpdate = null
+
+    this.events = new EventEmitter()
+  }
+
+  /** Current time of the player; the start of the time window initially. */
+  get time(): Date {
+    return this._time ?? this.windowStart
+  }
+
+  get isPlaying(): boolean {
+    return this._isPlaying
+  }
+
+  private get timestamps(): number[] {
+    return this.layer.availableTimes.map(time => new Date(time).getTime())
+  }
+
+  private get windowStart(): Date {
+    if (this.window) return this.window[0]
+    const first = this.timestamps[0]
+    if (first === undefined) throw new Error('No available times.')
+    return new Date(first)
+  }
+
+  private get windowEnd(): Date {
+    if (this.window) return this.window[1]
+    const last = this.timestamps.at(-1)
+    if (last === undefined) throw new Error('No available times.')
+    return new Date(last)
+  }
+
+  /**
+   * Adds a listener for an event of the player.
+   *
+   * @param event type of the event.
+   * @param callback function to call with the payload of the event.
+   */
+  on<K extends keyof TimePlayerEventMap>(
+    event: K,
+    callback: EventCallback<TimePlayerEventMap[K]>
+  ): void {
+    this.events.on(event, callback)
+  }
+
+  /**
+   * Removes a listener for an event of the player.
+   *
+   * @param event type of the event.
+   * @param callback listener that was added with `on` or `once`.
+   */
+  off<K extends keyof TimePlayerEventMap>(
+    event: K,
+    callback: EventCallback<TimePlayerEventMap[K]>
+  ): void {
+    this.events.off(event, callback)
+  }
+
+  /**
+   * Adds a listener for the next event of a type.
+   *
+   * @param event type of the event.
+   * @param callback function to call with the payload of the event.
+   */
+  once<K extends keyof TimePlayerEventMap>(
+    event: K,
+    callback: EventCallback<TimePlayerEventMap[K]>
+  ): void {
+    this.events.once(event, callback)
+  }
+
+  play(): void {
+    if (this._isPlaying) return
+    // Restart from the beginning if we are at the end of the window.
+    if (this.time.getTime() >= this.windowEnd.getTime()) {
+      this._time = this.windowStart
+    }
+    this._isPlaying = true
+    this.previousFrameTime = null
+    this.events.emit('play')
+    this.requestFrame()
+  }
+
+  pause(): void {
+    if (!this._isPlaying) return
+    this._isPlaying = false
+    if (this.animationFrame !== null) {
+      globalThis.cancelAnimationFrame(this.animationFrame)
+      this.animationFrame = null
+    }
+    this.events.emit('pause')
+  }
+
+  /**
+   * Steps to the next or previous available time in the time window.
+   *
+   * @param direction 1 to step forward, -1 to step backward.
+   */
+  async step(direction: 1 | -1 = 1): Promise<void> {
+    const timestamp = this.time.getTime()
+    const start = this.windowStart.getTime()
+    const end = this.windowEnd.getTime()
+    const candidates = this.timestamps.filter(cur => cur >= start && cur <= end)
+    let target =
+      direction === 1
+        ? candidates.find(cur => cur > timestamp)
+        : candidates.filter(cur => cur < timestamp).at(-1)
+    if (target === undefined && this.loop) {
+      target = direction === 1 ? candidates[0] : candidates.at(-1)
+    }
+    if (target === undefined) return
+    await this.seek(new Date(target))
+  }
+
+  /**
+   * Sets the time of the player, clamped to the time window.
+   *
+   * @param time time to show.
+   */
+  async seek(time: Date): Promise<void> {
+    await this.update(this.clamp(time))
+  }
+
+  setRate(rate: number): void {
+    this.rate = rate
+  }
+
+  setLoop(loop: boolean): void {
+    this.loop = loop
+  }
+
+  /**
+   * Sets the window of time to play through.
+   *
+   * @param window start and end of the window, or null for all available
+   *   times.
+   */
+  async setWindow(window: [Date, Date] | null): Promise<void> {
+    if (window && window[0].getTime() > window[1].getTime()) {
+      throw new Error('Start of time window should not be after its end.')
+    }
+    this.window = window
+    // Move into the new window if the current time is outside of it.
+    const time = this.time
+    const clamped = this.clamp(time)
+    if (clamped.getTime() !== time.getTime()) await this.update(clamped)
+  }
+
+  destruct(): void {
+    this.pause()
+    this.events.clear()
+  }
+
+  private requestFrame(): void {
+    this.animationFrame = globalThis.requestAnimationFrame(now =>
+      this.onFrame(now)
+    )
+  }
+
+  private onFrame(now: DOMHighResTimeStamp): void {
+    if (!this._isPlaying) return
+    const dt =
+      this.previousFrameTime !== null
+        ? (now - this.previousFrameTime) / 1000
+        : 0
+    this.previousFrameTime = now
+
+    // Do not advance while a velocity field is being fetched, so we do not
+    // skip over times, or race with our own requests.
+    if (this.pendingUpdate === null && dt > 0) {
+      const end = this.windowEnd.getTime()
+      let timestamp = this.time.getTime() + dt * this.rate * 1000
+      let isAtEnd = false
+      if (timestamp >= end) {
+        if (this.loop) {
+          timestamp = this.windowStart.getTime()
+        } else {
+          timestamp = end
+          isAtEnd = true
+        }
+      }
+      // Failures are reported with the error event.
+      this.update(new Date(timestamp)).catch(() => {})
+      if (isAtEnd) {
+        this.pause()
+        this.events.emit('end')
+        return
+      }
+    }
+    this.requestFrame()
+  }
+
+  private async update(time: Date): Promise<void> {
+    this._time = time
+    this.events.emit('time', time)
+
+    const update = this.interpolate
+      ? this.layer.setTimeInterpolated(time)
+      : this.layer.setTimeIndex(this.findTimeIndex(time))
+    this.pendingUpdate = update
+    try {
+      await update
+    } catch (error) {
+      // Aborted updates have been superseded by a newer update.
+      if (!(error instanceof AbortedError)) {
+        this.events.emit('error', {
+          error: error instanceof Error ? error : new Error(String(error))
+        })
+      }
+      throw error
+    } finally {
+      if (this.pendingUpdate === update) this.pendingUpdate = null
+    }
+
+    this.prefetch(time)
+  }
+
+  private prefetch(time: Date): void {
+    // Prefetch the available times after the current time, in the window.
+    // When interpolating, the first upcoming time is already being shown.
+    const timestamp = time.getTime()
+    const end = this.windowEnd.getTime()
+    const numSkip = this.interpolate ? 1 : 0
+    const indices: number[] = []
+    this.timestamps.forEach((cur, index) => {
+      if (cur > timestamp && cur <= end) indices.push(index)
+    })
+    indices.splice(0, numSkip)
+    indices.splice(this.numPrefetch)
+    if (indices.length === 0) return
+    this.layer.prefetchTimeIndices(indices).catch(() => {})
+  }
+
+  private findTimeIndex(time: Date): number {
+    // Show the last available time before the requested time.
+    const timestamp = time.getTime()
+    const numBefore = this.timestamps.filter(cur => cur <= timestamp).length
+    return Math.max(numBefore - 1, 0)
+  }
+
+  private clamp(time: Date): Date {
+    const timestamp = Math.min(
+      Math.max(time.getTime(), this.windowStart.getTime()),
+      this.windowEnd.getTime()
+    )
+    return new Date(timestamp)
+  }
+}
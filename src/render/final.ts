@@ -1,7 +1,9 @@
 import { Colormap } from '../utils/colormap'
 import { createRectangleVertexArray } from '../utils/geometry'
 import { ShaderProgram, bindTexture } from '../utils/shader-program'
-import { VelocityImage } from '../utils/wms'
+import { VelocityImage } from '../utils/velocity-image'
+import { ProjectedFinalPrograms, type ShaderProjection } from './projection'
+import { VelocityTextures, updateVelocityTextures } from './velocity-textures'
 
 export interface BoundingBoxScaling {
   scaleX: number
@@ -10,6 +12,56 @@ export interface BoundingBoxScaling {
   offsetY: number
 }
 
+/**
+ * Computes the scaling from clip coordinates of a bounding box to clip
+ * coordinates of a target bounding box.
+ *
+ * @param boundingBox bounding box as [xMin, yMin, xMax, yMax].
+ * @param targetBoundingBox target bounding box, in the same coordinates.
+ * @returns scaling from the bounding box to the target bounding box.
+ */
+export function computeBoundingBoxScaling(
+  boundingBox: [number, number, number, number],
+  targetBoundingBox: [number, number, number, number]
+): BoundingBoxScaling {
+  const [xSW, ySW, xNE, yNE] = boundingBox
+  const [xSWTarget, ySWTarget, xNETarget, yNETarget] = targetBoundingBox
+
+  const width = xNE - xSW
+  const widthTarget = xNETarget - xSWTarget
+  const height = yNE - ySW
+  const heightTarget = yNETarget - ySWTarget
+
+  // Compute the offset based on the centre of the bounding box.
+  const xCentre = 0.5 * (xSW + xNE)
+  const yCentre = 0.5 * (ySW + yNE)
+  const xCentreTarget = 0.5 * (xSWTarget + xNETarget)
+  const yCentreTarget = 0.5 * (ySWTarget + yNETarget)
+
+  return {
+    scaleX: width / widthTarget,
+    scaleY: height / heightTarget,
+    offsetX: (-2 * (xCentreTarget - xCentre)) / widthTarget,
+    offsetY: (-2 * (yCentreTarget - yCentre)) / heightTarget
+  }
+}
+
+/**
+ * Combines two scalings into a single scaling that applies the first scaling,
+ * then the second.
+ */
+export function combineBoundingBoxScalings(
+  first: BoundingBoxScaling,
+  second: BoundingBoxScaling
+): BoundingBoxScaling {
+  return {
+    scaleX: first.scaleX * second.scaleX,
+    scaleY: first.scaleY * second.scaleY,
+    offsetX: first.offsetX * second.scaleX + second.offsetX,
+    offsetY: first.offsetY * second.scaleY + second.offsetY
+  }
+}
+
 export enum StreamlineStyle {
   LightParticlesOnMagnitude = 0,
   DarkParticlesOnMagnitude = 1,
@@ -21,15 +73,18 @@ export class FinalRenderer {
   private static readonly NUM_SEGMENTS_COLORMAP = 64
 
   public style: StreamlineStyle
+  // Factor to interpolate between the current (0) and next (1) velocity image.
+  public blendFactor: number
 
   private readonly program: ShaderProgram
+  private readonly projectedPrograms: ProjectedFinalPrograms
   private positionBuffer: WebGLBuffer | null
   private texCoordBuffer: WebGLBuffer | null
   private vertexArray: WebGLVertexArrayObject | null
-  private velocityImage: VelocityImage | null
   private colormap: Colormap
   private colormapTexture: WebGLTexture | null
-  private velocityTexture: WebGLTexture | null
+  private velocityTextures: VelocityTextures | null
+  private nextVelocityTextures: VelocityTextures | null
 
   constructor(
     program: ShaderProgram,
@@ -37,14 +92,16 @@ export class FinalRenderer {
     colormap: Colormap
   ) {
     this.program = program
+    this.projectedPrograms = new ProjectedFinalPrograms(program.gl)
     this.style = style
+    this.blendFactor = 0
     this.positionBuffer = null
     this.texCoordBuffer = null
     this.vertexArray = null
-    this.velocityImage = null
     this.colormap = colormap
     this.colormapTexture = null
-    this.velocityTexture = null
+    this.velocityTextures = null
+    this.nextVelocityTextures = null
   }
 
   initialise(): void {
@@ -82,18 +139,81 @@ export class FinalRenderer {
     gl.deleteBuffer(this.texCoordBuffer)
     gl.deleteVertexArray(this.vertexArray)
     gl.deleteTexture(this.colormapTexture)
-    gl.deleteTexture(this.velocityTexture)
+    this.velocityTextures?.destruct(gl)
+    if (this.nextVelocityTextures !== this.velocityTextures) {
+      this.nextVelocityTextures?.destruct(gl)
+    }
+    this.projectedPrograms.destruct()
     this.program.destruct()
   }
 
-  render(particleTexture: WebGLTexture, scaling: BoundingBoxScaling): void {
+  /**
+   * Renders the particle texture and velocity magnitude to the canvas.
+   *
+   * @param particleTexture texture with the rendered particles.
+   * @param scaling scaling from the velocity images' bounding box to the
+   *   current view, used without a projection.
+   * @param projection projection to render the velocity images with, e.g. on
+   *   a globe; null to render on a flat map.
+   */
+  render(
+    particleTexture: WebGLTexture,
+    scaling: BoundingBoxScaling,
+    projection: ShaderProjection | null = null
+  ): void {
     const gl = this.program.gl
-    this.program.use()
 
-    gl.bindVertexArray(this.vertexArray)
+    if (!this.velocityTextures) {
+      throw new Error(
+        'Velocity image is not defined, no velocity image was set?'
+      )
+    }
+    // Without a next velocity image, interpolate with the current image.
+    const nextVelocityTextures =
+      this.nextVelocityTextures ?? this.velocityTextures
+
+    let program = this.program
+    let numVertices = 4
+    let mode: GLenum = gl.TRIANGLE_STRIP
+    if (projection) {
+      const projected = this.projectedPrograms.get(projection)
+      // Skip rendering until the program for this projection has been
+      // compiled.
+      if (!projected) return
+      program = projected.program
+      program.use()
+      gl.bindVertexArray(projected.vertexArray)
+      this.projectedPrograms.bindProjectionUniforms(program, projection)
+      numVertices = this.projectedPrograms.numVertices
+      mode = gl.TRIANGLES
+    } else {
+      program.use()
+      gl.bindVertexArray(this.vertexArray)
 
-    this.bindUniforms(scaling)
-    this.bindTextures(particleTexture)
+      // Scaling parameters for the bounding box.
+      gl.uniform2f(
+        program.getUniformLocation('u_bbox_scale'),
+        scaling.scaleX,
+        scaling.scaleY
+      )
+      gl.uniform2f(
+        program.getUniformLocation('u_bbox_offset'),
+        scaling.offsetX,
+        scaling.offsetY
+      )
+    }
+
+    this.bindUniforms(
+      program,
+      this.velocityTextures.velocityImage,
+      nextVelocityTextures.velocityImage
+    )
+    this.bindTextures(
+      program,
+      particleTexture,
+      this.velocityTextures,
+      nextVelocityTextures
+    )
 
     // Make sure no framebuffer is bound so we render to the canvas.
     gl.bindFramebuffer(gl.FRAMEBUFFER, null)
@@ -103,12 +223,21 @@ export class FinalRenderer {
     gl.enable(gl.BLEND)
     gl.blendFunc(gl.SRC_ALPHA, gl.ONE_MINUS_SRC_ALPHA)
 
-    gl.drawArrays(gl.TRIANGLE_STRIP, 0, 4)
+    gl.drawArrays(mode, 0, numVertices)
   }
 
-  setVelocityImage(velocityImage: VelocityImage) {
-    this.velocityImage = velocityImage
-    this.velocityTexture = velocityImage.toTexture(this.program.gl, false)
+  setVelocityImages(
+    velocityImage: VelocityImage,
+    nextVelocityImage: VelocityImage | null
+  ) {
+    const [current, next] = updateVelocityTextures(
+      this.program.gl,
+      [this.velocityTextures, this.nextVelocityTextures],
+      velocityImage,
+      nextVelocityImage
+    )
+    this.velocityTextures = current
+    this.nextVelocityTextures = next
   }
 
   setColorMap(colormap: Colormap) {
@@ -119,59 +248,88 @@ export class FinalRenderer {
     )
   }
 
-  private bindUniforms(scaling: BoundingBoxScaling): void {
-    if (!this.velocityImage) {
-      throw new Error(
-        'Velocity image is not defined, no velocity image was set?'
-      )
-    }
-    const gl = this.program.gl
-
-    // Scaling parameters for the bounding box.
-    gl.uniform2f(
-      this.program.getUniformLocation('u_bbox_scale'),
-      scaling.scaleX,
-      scaling.scaleY
-    )
-    gl.uniform2f(
-      this.program.getUniformLocation('u_bbox_offset'),
-      scaling.offsetX,
-      scaling.offsetY
-    )
+  private bindUniforms(
+    program: ShaderProgram,
+    velocityImage: VelocityImage,
+    nextVelocityImage: VelocityImage
+  ): void {
+    const gl = program.gl
 
     // Uniform to set the render style, its values correspond to the values
     // of the StreamlineStyle enum.
-    gl.uniform1i(this.program.getUniformLocation('u_style'), this.style)
+    gl.uniform1i(program.getUniformLocation('u_style'), this.style)
 
     // Uniforms for the start and end of the colormap.
     gl.uniform1f(
-      this.program.getUniformLocation('u_colormap_start'),
+      program.getUniformLocation('u_colormap_start'),
       this.colormap.start
     )
     gl.uniform1f(
-      this.program.getUniformLocation('u_colormap_end'),
+      program.getUniformLocation('u_colormap_end'),
       this.colormap.end
     )
 
     // Uniforms for correctly scaling the velocity.
     gl.uniform2f(
-      this.program.getUniformLocation('u_scale'),
-      this.velocityImage.uScale,
-      this.velocityImage.vScale
+      program.getUniformLocation('u_scale'),
+      velocityImage.uScale,
+      velocityImage.vScale
     )
     gl.uniform2f(
-      this.program.getUniformLocation('u_offset'),
-      this.velocityImage.uOffset,
-      this.velocityImage.vOffset
+      program.getUniformLocation('u_offset'),
+      velocityImage.uOffset,
+      velocityImage.vOffset
+    )
+    gl.uniform2f(
+      program.getUniformLocation('u_next_scale'),
+      nextVelocityImage.uScale,
+      nextVelocityImage.vScale
+    )
+    gl.uniform2f(
+      program.getUniformLocation('u_next_offset'),
+      nextVelocityImage.uOffset,
+      nextVelocityImage.vOffset
+    )
+    gl.uniform1f(
+      program.getUniformLocation('u_blend_factor'),
+      this.nextVelocityTextures ? this.blendFactor : 0
     )
   }
 
-  private bindTextures(particleTexture: WebGLTexture): void {
-    if (this.colormapTexture === null || this.velocityTexture === null) {
+  private bindTextures(
+    program: ShaderProgram,
+    particleTexture: WebGLTexture,
+    velocityTextures: VelocityTextures,
+    nextVelocityTextures: VelocityTextures
+  ): void {
+    if (this.colormapTexture === null) {
       throw new Error('Textures have not been initialised.')
     }
-    bindTexture(this.program, 'u_particle_texture', 0, particleTexture)
-    bindTexture(this.program, 'u_colormap_texture', 1, this.colormapTexture)
-    bindTexture(this.program, 'u_velocity_texture', 2, this.velocityTexture)
+    bindTexture(program, 'u_particle_texture', 0, particleTexture)
+    bindTexture(program, 'u_colormap_texture', 1, this.colormapTexture)
+    bindTexture(
+      program,
+      'u_velocity_texture',
+      2,
+      velocityTextures.velocityTexture
+    )
+    bindTexture(
+      program,
+      'u_velocity_mask_texture',
+      3,
+      velocityTextures.maskTexture
+    )
+    bindTexture(
+      program,
+      'u_next_velocity_texture',
+      4,
+      nextVelocityTextures.velocityTexture
+    )
+    bindTexture(
+      program,
+      'u_next_velocity_mask_texture',
+      5,
+      nextVelocityTextures.maskTexture
+    )
   }
 }
@@ -2,3 +2,5 @@ export { ParticlePropagator } from './propagator'
 export { ParticleRenderer } from './particles'
 export { TextureRenderer } from './texture'
 export { FinalRenderer, StreamlineStyle } from './final'
+export { MeshRasteriser } from './mesh'
+export { VelocityReprojector } from './reprojector'
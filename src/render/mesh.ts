@@ -0,0 +1,158 @@
+import meshVertexShaderSource from '../shaders/mesh.vert.glsl'
+import meshFragmentShaderSource from '../shaders/mesh.frag.glsl'
+
+import { FragmentShader, VertexShader } from '../utils/shader'
+import {
+  ShaderProgram,
+  bindAttribute,
+  createAndFillStaticBuffer
+} from '../utils/shader-program'
+import type { VelocityMesh } from '../utils/mesh'
+import type {
+  VelocityImage,
+  VelocityImageOptions
+} from '../utils/velocity-image'
+import { renderToVelocityImage } from './readback'
+
+/**
+ * Rasterises velocity meshes on the GPU into velocity images.
+ *
+ * The mesh is drawn into a floating-point framebuffer covering the requested
+ * bounding box, so only the part of the mesh in view is rasterised, at the
+ * resolution of the view. The result is read back into a velocity image, so it
+ * can be used like any other velocity field. Pixels not covered by the mesh
+ * are missing.
+ *
+ * Rendering to floating-point textures requires the EXT_color_buffer_float
+ * extension.
+ */
+export class MeshRasteriser {
+  private readonly gl: WebGL2RenderingContext
+  private program: ShaderProgram | null
+  private mesh: VelocityMesh | null
+  private positionBuffer: WebGLBuffer | null
+  private velocityBuffer: WebGLBuffer | null
+  private vertexArray: WebGLVertexArrayObject | null
+
+  constructor(gl: WebGL2RenderingContext) {
+    this.gl = gl
+    this.program = null
+    this.mesh = null
+    this.positionBuffer = null
+    this.velocityBuffer = null
+    this.vertexArray = null
+  }
+
+  async initialise(): Promise<void> {
+    if (this.gl.getExtension('EXT_color_buffer_float') === null) {
+      throw new Error(
+        'Rasterising meshes requires the EXT_color_buffer_float extension.'
+      )
+    }
+    const program = new ShaderProgram(
+      this.gl,
+      new VertexShader(this.gl, meshVertexShaderSource),
+      new FragmentShader(this.gl, meshFragmentShaderSource)
+    )
+    await program.link()
+    this.program = program
+  }
+
+  destruct(): void {
+    this.deleteMeshBuffers()
+    this.program?.destruct()
+  }
+
+  /**
+   * Rasterises a velocity mesh for a bounding box.
+   *
+   * @param mesh mesh to rasterise.
+   * @param boundingBox bounding box to rasterise as [xMin, yMin, xMax, yMax],
+   *   in the same coordinate reference system as the mesh nodes.
+   * @param width width of the resulting velocity image.
+   * @param height height of the resulting velocity image.
+   * @param options texture format of the resulting velocity image.
+   * @returns velocity image covering the bounding box.
+   */
+  rasterise(
+    mesh: VelocityMesh,
+    boundingBox: [number, number, number, number],
+    width: number,
+    height: number,
+    options: Omit<VelocityImageOptions, 'noData'> = {}
+  ): VelocityImage {
+    if (!this.program) {
+      throw new Error('Cannot rasterise mesh for uninitialised rasteriser.')
+    }
+    const gl = this.gl
+    // Transform the mesh coordinates (relative to the mesh origin) to clip
+    // space of the bounding box. Compute the offset in double precision to
+    // avoid loss of precision for large coordinates.
+    const [xMin, yMin, xMax, yMax] = boundingBox
+    const scaleX = 2 / (xMax - xMin)
+    const scaleY = 2 / (yMax - yMin)
+    const offsetX = (mesh.origin[0] - xMin) * scaleX - 1
+    const offsetY = (mesh.origin[1] - yMin) * scaleY - 1
+
+    const program = this.program
+    return renderToVelocityImage(
+      gl,
+      width,
+      height,
+      () => {
+        // Only upload the mesh if it differs from the previously rasterised
+        // mesh, so the same mesh can efficiently be rasterised for different
+        // views. This binds buffers, so it is done while the state is saved.
+        if (mesh !== this.mesh) this.setMesh(mesh)
+        program.use()
+        gl.bindVertexArray(this.vertexArray)
+        gl.uniform2f(program.getUniformLocation('u_scale'), scaleX, scaleY)
+        gl.uniform2f(program.getUniformLocation('u_offset'), offsetX, offsetY)
+        gl.drawArrays(gl.TRIANGLES, 0, mesh.numVertices)
+      },
+      options
+    )
+  }
+
+  private setMesh(mesh: VelocityMesh): void {
+    if (!this.program) {
+      throw new Error('Cannot set mesh for uninitialised rasteriser.')
+    }
+    const gl = this.gl
+    this.deleteMeshBuffers()
+
+    const vertexArray = gl.createVertexArray()
+    if (vertexArray === null) {
+      throw new Error('Failed to create vertex array.')
+    }
+    gl.bindVertexArray(vertexArray)
+    this.positionBuffer = createAndFillStaticBuffer(gl, mesh.positions)
+    this.velocityBuffer = createAndFillStaticBuffer(gl, mesh.velocities)
+    bindAttribute(
+      gl,
+      this.positionBuffer,
+      this.program.getAttributeLocation('a_position'),
+      2
+    )
+    bindAttribute(
+      gl,
+      this.velocityBuffer,
+      this.program.getAttributeLocation('a_velocity'),
+      2
+    )
+
+    this.vertexArray = vertexArray
+    this.mesh = mesh
+  }
+
+  private deleteMeshBuffers(): void {
+    const gl = this.gl
+    gl.deleteBuffer(this.positionBuffer)
+    gl.deleteBuffer(this.velocityBuffer)
+    gl.deleteVertexArray(this.vertexArray)
+    this.positionBuffer = null
+    this.velocityBuffer = null
+    this.vertexArray = null
+    this.mesh = null
+  }
+}
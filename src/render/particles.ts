@@ -7,6 +7,8 @@ export class ParticleRenderer {
   public particleSize: number
   public maxAge: number
   public growthRate: number
+  // Transformation from particle positions to clip coordinates.
+  public positionScaling: BoundingBoxScaling
 
   private readonly program: ShaderProgram
   private width: number
@@ -51,6 +53,7 @@ export class ParticleRenderer {
 
     this.maxAge = maxAge
     this.growthRate = growthRate
+    this.positionScaling = { scaleX: 1, scaleY: 1, offsetX: 0, offsetY: 0 }
 
     this.positionBuffer = null
     this.texCoordBuffer = null
@@ -295,6 +298,16 @@ export class ParticleRenderer {
       scaling?.offsetX ?? 0.0,
       scaling?.offsetY ?? 0.0
     )
+    gl.uniform2f(
+      this.program.getUniformLocation('u_position_scale'),
+      this.positionScaling.scaleX,
+      this.positionScaling.scaleY
+    )
+    gl.uniform2f(
+      this.program.getUniformLocation('u_position_offset'),
+      this.positionScaling.offsetX,
+      this.positionScaling.offsetY
+    )
 
     gl.uniform1f(this.program.getUniformLocation('u_max_age'), this.maxAge)
     gl.uniform1f(
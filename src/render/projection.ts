@@ -0,0 +1,201 @@
+import finalProjectedVertexShaderSource from '../shaders/final_projected.vert.glsl'
+import finalFragmentShaderSource from '../shaders/final.frag.glsl'
+
+import { FragmentShader, VertexShader } from '../utils/shader'
+import {
+  ShaderProgram,
+  bindAttribute,
+  createAndFillStaticBuffer
+} from '../utils/shader-program'
+
+/**
+ * Uniforms of the projection shader code; these match the default projection
+ * data of MapLibre custom layers.
+ */
+export interface ShaderProjectionData {
+  mainMatrix: ArrayLike<number>
+  tileMercatorCoords: [number, number, number, number]
+  clippingPlane: [number, number, number, number]
+  projectionTransition: number
+  fallbackMatrix: ArrayLike<number>
+}
+
+/**
+ * Projection of normalised mercator coordinates to clip coordinates, specified
+ * as shader code defining a `projectTile` function and its uniforms, as
+ * provided by MapLibre to custom layers. This allows rendering on a globe.
+ */
+export interface ShaderProjection {
+  /** Name of the shader variant; changes whenever the shader code changes. */
+  variantName: string
+  /** Vertex shader code that defines `projectTile`. */
+  vertexShaderPrelude: string
+  /** Defines to add to the vertex shader. */
+  define: string
+  /** Uniforms for the projection shader code. */
+  data: ShaderProjectionData
+  /**
+   * Bounding box of the velocity images in normalised mercator coordinates, as
+   * [xMin, yMin, xMax, yMax], with y pointing south.
+   */
+  boundingBox: [number, number, number, number]
+}
+
+interface ProjectedProgram {
+  program: ShaderProgram
+  vertexArray: WebGLVertexArrayObject
+}
+
+/**
+ * Shader programs to render the final result with a projection.
+ *
+ * The velocity field is rendered as a grid of triangles that is projected by
+ * the projection's shader code, so it follows e.g. the curvature of a globe.
+ * Programs are compiled for each variant of the projection shader code.
+ */
+export class ProjectedFinalPrograms {
+  // Number of grid cells in each direction; the grid should be fine enough to
+  // follow the curvature of a globe.
+  private static readonly NUM_GRID_CELLS = 32
+
+  private readonly gl: WebGL2RenderingContext
+  // Programs per projection variant; null while the program is being linked.
+  private readonly programs: Map<string, ProjectedProgram | null>
+  private texCoordBuffer: WebGLBuffer | null
+
+  constructor(gl: WebGL2RenderingContext) {
+    this.gl = gl
+    this.programs = new Map()
+    this.texCoordBuffer = null
+  }
+
+  get numVertices(): number {
+    return 6 * ProjectedFinalPrograms.NUM_GRID_CELLS ** 2
+  }
+
+  destruct(): void {
+    for (const entry of this.programs.values()) {
+      if (!entry) continue
+      this.gl.deleteVertexArray(entry.vertexArray)
+      entry.program.destruct()
+    }
+    this.programs.clear()
+    this.gl.deleteBuffer(this.texCoordBuffer)
+    this.texCoordBuffer = null
+  }
+
+  /**
+   * Gets the program for a projection, compiling it if necessary.
+   *
+   * @param projection projection to get the program for.
+   * @returns program and its vertex array, or null if the program is still
+   *   being compiled.
+   */
+  get(projection: ShaderProjection): ProjectedProgram | null {
+    const entry = this.programs.get(projection.variantName)
+    if (entry !== undefined) return entry
+
+    // Compile in the background; we do not render with this projection until
+    // the program has been linked.
+    this.programs.set(projection.variantName, null)
+    this.createProgram(projection)
+      .then(created => this.programs.set(projection.variantName, created))
+      .catch(error =>
+        console.error(
+          `Failed to create shader program for projection "${projection.variantName}": ${(error as Error).toString()}`
+        )
+      )
+    return null
+  }
+
+  bindProjectionUniforms(
+    program: ShaderProgram,
+    projection: ShaderProjection
+  ): void {
+    const gl = this.gl
+    const data = projection.data
+    // Depending on the projection, some uniforms are not used by its shader
+    // code.
+    const setMatrix = (name: string, matrix: ArrayLike<number>) => {
+      if (!program.hasUniform(name)) return
+      gl.uniformMatrix4fv(
+        program.getUniformLocation(name),
+        false,
+        Float32Array.from(matrix)
+      )
+    }
+    const setVector = (
+      name: string,
+      vector: [number, number, number, number]
+    ) => {
+      if (!program.hasUniform(name)) return
+      gl.uniform4f(program.getUniformLocation(name), ...vector)
+    }
+    setMatrix('u_projection_matrix', data.mainMatrix)
+    setMatrix('u_projection_fallback_matrix', data.fallbackMatrix)
+    setVector('u_projection_tile_mercator_coords', data.tileMercatorCoords)
+    setVector('u_projection_clipping_plane', data.clippingPlane)
+    if (program.hasUniform('u_projection_transition')) {
+      gl.uniform1f(
+        program.getUniformLocation('u_projection_transition'),
+        data.projectionTransition
+      )
+    }
+    setVector('u_mercator_bbox', projection.boundingBox)
+  }
+
+  private async createProgram(
+    projection: ShaderProjection
+  ): Promise<ProjectedProgram> {
+    const gl = this.gl
+    const vertexShaderSource = [
+      '#version 300 es',
+      'precision highp float;',
+      projection.vertexShaderPrelude,
+      projection.define,
+      finalProjectedVertexShaderSource
+    ].join('\n')
+    const program = new ShaderProgram(
+      gl,
+      new VertexShader(gl, vertexShaderSource),
+      new FragmentShader(gl, finalFragmentShaderSource)
+    )
+    await program.link()
+
+    const vertexArray = gl.createVertexArray()
+    if (vertexArray === null) {
+      throw new Error('Failed to create vertex array.')
+    }
+    gl.bindVertexArray(vertexArray)
+    bindAttribute(
+      gl,
+      this.getTexCoordBuffer(),
+      program.getAttributeLocation('a_tex_coord'),
+      2
+    )
+    gl.bindVertexArray(null)
+    return { program, vertexArray }
+  }
+
+  private getTexCoordBuffer(): WebGLBuffer {
+    if (this.texCoordBuffer) return this.texCoordBuffer
+
+    // Two triangles for every grid cell, with texture coordinates from 0 to 1.
+    const numCells = ProjectedFinalPrograms.NUM_GRID_CELLS
+    const texCoords = new Float32Array(2 * this.numVertices)
+    let index = 0
+    for (let row = 0; row < numCells; row++) {
+      for (let column = 0; column < numCells; column++) {
+        const u0 = column / numCells
+        const u1 = (column + 1) / numCells
+        const v0 = row / numCells
+        const v1 = (row + 1) / numCells
+        for (const value of [u0, v0, u1, v0, u0, v1, u1, v0, u1, v1, u0, v1]) {
+          texCoords[index++] = value
+        }
+      }
+    }
+    this.texCoordBuffer = createAndFillStaticBuffer(this.gl, texCoords)
+    return this.texCoordBuffer
+  }
+}
@@ -4,7 +4,9 @@ import {
   bindAttribute,
   bindTexture
 } from '../utils/shader-program'
-import { VelocityImage } from '../utils/wms'
+import { VelocityImage } from '../utils/velocity-image'
+import type { BoundingBoxScaling } from './final'
+import { VelocityTextures, updateVelocityTextures } from './velocity-textures'
 
 export class ParticleBuffers {
   private readonly gl: WebGL2RenderingContext
@@ -59,6 +61,11 @@ export class ParticleBuffers {
 }
 
 export class ParticlePropagator {
+  // Factor to interpolate between the current (0) and next (1) velocity image.
+  public blendFactor: number
+  // Transformation from particle positions to clip coordinates.
+  public positionScaling: BoundingBoxScaling
+
   private readonly program: ShaderProgram
   private width: number
   private height: number
@@ -69,8 +76,8 @@ export class ParticlePropagator {
   private inputBuffers: ParticleBuffers | null
   private outputBuffers: ParticleBuffers | null
   private transformFeedback: WebGLTransformFeedback | null
-  private velocityImage: VelocityImage | null
-  private velocityTexture: WebGLTexture | null
+  private velocityTextures: VelocityTextures | null
+  private nextVelocityTextures: VelocityTextures | null
 
   constructor(
     program: ShaderProgram,
@@ -89,8 +96,10 @@ export class ParticlePropagator {
     this.numParticlesAllocate = numParticlesAllocate
     this.maxAge = maxAge
 
-    this.velocityImage = null
-    this.velocityTexture = null
+    this.velocityTextures = null
+    this.nextVelocityTextures = null
+    this.blendFactor = 0
+    this.positionScaling = { scaleX: 1, scaleY: 1, offsetX: 0, offsetY: 0 }
     this.speedCurve = speedCurve
 
     this.inputBuffers = null
@@ -120,7 +129,10 @@ export class ParticlePropagator {
     if (this.outputBuffers) this.outputBuffers.destroy()
 
     gl.deleteTransformFeedback(this.transformFeedback)
-    gl.deleteTexture(this.velocityTexture)
+    this.velocityTextures?.destruct(gl)
+    if (this.nextVelocityTextures !== this.velocityTextures) {
+      this.nextVelocityTextures?.destruct(gl)
+    }
     this.program.destruct()
   }
 
@@ -129,9 +141,18 @@ export class ParticlePropagator {
     this.height = height
   }
 
-  setVelocityImage(velocityImage: VelocityImage): void {
-    this.velocityImage = velocityImage
-    this.velocityTexture = velocityImage.toTexture(this.program.gl, false)
+  setVelocityImages(
+    velocityImage: VelocityImage,
+    nextVelocityImage: VelocityImage | null
+  ): void {
+    const [current, next] = updateVelocityTextures(
+      this.program.gl,
+      [this.velocityTextures, this.nextVelocityTextures],
+      velocityImage,
+      nextVelocityImage
+    )
+    this.velocityTextures = current
+    this.nextVelocityTextures = next
   }
 
   setNumParticles(numParticles: number, numParticlesAllocate: number): void {
@@ -170,6 +191,41 @@ export class ParticlePropagator {
     this.swapBuffers()
   }
 
+  /**
+   * Moves the particles with a bounding box scaling.
+   *
+   * This keeps particles at the same geographic position when the bounding box
+   * of the velocity field changes, e.g. after panning. Particles that end up
+   * outside of the new bounding box are regenerated in the next update.
+   *
+   * @param scaling scaling from the old to the new bounding box, in clip
+   *   coordinates.
+   */
+  transformParticles(scaling: BoundingBoxScaling): void {
+    if (!this.outputBuffers) {
+      throw new Error(
+        'No output buffer defined, particle renderer was not initialised?'
+      )
+    }
+    const gl = this.program.gl
+    // The output buffer contains the latest particle data, which is used as
+    // input for the next update.
+    const data = new Float32Array(4 * this.numParticles)
+    gl.bindBuffer(gl.ARRAY_BUFFER, this.outputBuffers.data)
+    gl.getBufferSubData(gl.ARRAY_BUFFER, 0, data)
+    for (let i = 0; i < this.numParticles; i++) {
+      const index = 4 * i
+      data[index] = data[index]! * scaling.scaleX + scaling.offsetX
+      data[index + 1] = data[index + 1]! * scaling.scaleY + scaling.offsetY
+      // Velocities are in clip coordinates, so scale them too. Zero velocities
+      // remain zero, so particles without velocity are still regenerated.
+      data[index + 2] = data[index + 2]! * scaling.scaleX
+      data[index + 3] = data[index + 3]! * scaling.scaleY
+    }
+    gl.bufferSubData(gl.ARRAY_BUFFER, 0, data)
+    gl.bindBuffer(gl.ARRAY_BUFFER, null)
+  }
+
   resetAges(): void {
     const initialAges = this.generateInitialParticleAges()
     // Set the new ages on the output buffer, since we swap the buffers at the
@@ -186,11 +242,14 @@ export class ParticlePropagator {
         'Input buffer and/or output buffer is not defined, particle renderer was not initialised?'
       )
     }
-    if (!this.velocityTexture) {
+    if (!this.velocityTextures) {
       throw new Error(
         'Velocity texture is not defined, no velocity image was set?'
       )
     }
+    // Without a next velocity image, interpolate with the current image.
+    const nextVelocityTextures =
+      this.nextVelocityTextures ?? this.velocityTextures
 
     // We need to swap the buffers before we do the update, since we use the
     // output buffer in later rendering steps, so it should not have been
@@ -209,8 +268,35 @@ export class ParticlePropagator {
       this.program.getAttributeLocation('a_particle_age'),
       1
     )
-    bindTexture(this.program, 'u_velocity_texture', 0, this.velocityTexture)
-    this.bindUniforms(dt)
+    bindTexture(
+      this.program,
+      'u_velocity_texture',
+      0,
+      this.velocityTextures.velocityTexture
+    )
+    bindTexture(
+      this.program,
+      'u_velocity_mask_texture',
+      1,
+      this.velocityTextures.maskTexture
+    )
+    bindTexture(
+      this.program,
+      'u_next_velocity_texture',
+      2,
+      nextVelocityTextures.velocityTexture
+    )
+    bindTexture(
+      this.program,
+      'u_next_velocity_mask_texture',
+      3,
+      nextVelocityTextures.maskTexture
+    )
+    this.bindUniforms(
+      dt,
+      this.velocityTextures.velocityImage,
+      nextVelocityTextures.velocityImage
+    )
 
     // Bind transform feedback and buffer so we can write the updated positions
     // of the particles from the vertex shader to the output buffer.
@@ -231,12 +317,11 @@ export class ParticlePropagator {
     gl.bindTransformFeedback(gl.TRANSFORM_FEEDBACK, null)
   }
 
-  private bindUniforms(dt: number): void {
-    if (!this.velocityImage) {
-      throw new Error(
-        'Velocity image is not defined, no velocity image was set?'
-      )
-    }
+  private bindUniforms(
+    dt: number,
+    velocityImage: VelocityImage,
+    nextVelocityImage: VelocityImage
+  ): void {
     const gl = this.program.gl
 
     // Time step such that the propagation is proportional to the time spent on
@@ -250,13 +335,37 @@ export class ParticlePropagator {
     )
     gl.uniform2f(
       this.program.getUniformLocation('u_scale_in'),
-      this.velocityImage.uScale,
-      this.velocityImage.vScale
+      velocityImage.uScale,
+      velocityImage.vScale
     )
     gl.uniform2f(
       this.program.getUniformLocation('u_offset_in'),
-      this.velocityImage.uOffset,
-      this.velocityImage.vOffset
+      velocityImage.uOffset,
+      velocityImage.vOffset
+    )
+    gl.uniform2f(
+      this.program.getUniformLocation('u_next_scale_in'),
+      nextVelocityImage.uScale,
+      nextVelocityImage.vScale
+    )
+    gl.uniform2f(
+      this.program.getUniformLocation('u_next_offset_in'),
+      nextVelocityImage.uOffset,
+      nextVelocityImage.vOffset
+    )
+    gl.uniform1f(
+      this.program.getUniformLocation('u_blend_factor'),
+      this.nextVelocityTextures ? this.blendFactor : 0
+    )
+    gl.uniform2f(
+      this.program.getUniformLocation('u_position_scale'),
+      this.positionScaling.scaleX,
+      this.positionScaling.scaleY
+    )
+    gl.uniform2f(
+      this.program.getUniformLocation('u_position_offset'),
+      this.positionScaling.offsetX,
+      this.positionScaling.offsetY
     )
     gl.uniform1f(
       this.program.getUniformLocation('u_speed_factor'),
@@ -282,11 +391,13 @@ export class ParticlePropagator {
 
   private generateInitialParticleData(): Float32Array {
     const data = new Float32Array(this.numParticles * 4)
+    const { scaleX, scaleY, offsetX, offsetY } = this.positionScaling
     for (let i = 0; i < this.numParticles; i++) {
       const [x, y] = ParticlePropagator.randomClipCoords()
       const index = 4 * i
-      data[index] = x
-      data[index + 1] = y
+      // Transform from clip coordinates to particle positions.
+      data[index] = (x - offsetX) / scaleX
+      data[index + 1] = (y - offsetY) / scaleY
       // Initialise velocity at almost, but not quite zero. If we initialise at
       // exactly 0, the shader logic will interpret this as "undefined speed".
       data[index + 2] = 1e-6
@@ -0,0 +1,153 @@
+import {
+  VelocityImage,
+  type VelocityImageOptions
+} from '../utils/velocity-image'
+
+// Capabilities that affect drawing into the framebuffer; they are disabled
+// while drawing, and restored afterwards.
+const CAPABILITIES = [
+  'BLEND',
+  'CULL_FACE',
+  'DEPTH_TEST',
+  'SCISSOR_TEST',
+  'STENCIL_TEST'
+] as const
+
+/**
+ * Renders velocities into a floating-point framebuffer, and reads the result
+ * back into a velocity image.
+ *
+ * The draw call should write the velocity components to the red and green
+ * channels, and 1 to the blue channel for covered pixels; uncovered pixels
+ * keep the clear value of 0 and are considered missing. The draw call may also
+ * create and bind the buffers, vertex arrays and textures it needs. All state
+ * that may be changed is restored afterwards, so this can be used in between
+ * rendering frames with a context that is shared with e.g. a map library.
+ *
+ * @param gl WebGL2 rendering context, with the EXT_color_buffer_float
+ *   extension enabled.
+ * @param width width of the resulting velocity image.
+ * @param height height of the resulting velocity image.
+ * @param draw function that draws the velocities into the framebuffer.
+ * @param options texture format of the resulting velocity image.
+ * @returns velocity image with the rendered velocities.
+ */
+export function renderToVelocityImage(
+  gl: WebGL2RenderingContext,
+  width: number,
+  height: number,
+  draw: () => void,
+  options: Omit<VelocityImageOptions, 'noData'> = {}
+): VelocityImage {
+  const restoreState = saveState(gl)
+  const texture = gl.createTexture()
+  const framebuffer = gl.createFramebuffer()
+  const pixels = new Float32Array(4 * width * height)
+  try {
+    gl.bindTexture(gl.TEXTURE_2D, texture)
+    gl.texStorage2D(gl.TEXTURE_2D, 1, gl.RGBA32F, width, height)
+
+    gl.bindFramebuffer(gl.FRAMEBUFFER, framebuffer)
+    gl.framebufferTexture2D(
+      gl.FRAMEBUFFER,
+      gl.COLOR_ATTACHMENT0,
+      gl.TEXTURE_2D,
+      texture,
+      0
+    )
+    gl.viewport(0, 0, width, height)
+    for (const capability of CAPABILITIES) gl.disable(gl[capability])
+    gl.colorMask(true, true, true, true)
+    gl.clearColor(0, 0, 0, 0)
+    gl.clear(gl.COLOR_BUFFER_BIT)
+
+    draw()
+
+    gl.readPixels(0, 0, width, height, gl.RGBA, gl.FLOAT, pixels)
+  } finally {
+    restoreState()
+    gl.deleteFramebuffer(framebuffer)
+    gl.deleteTexture(texture)
+  }
+
+  // The framebuffer's first row is at the bottom, while the first row of a
+  // velocity image is at the top.
+  const u = new Float32Array(width * height)
+  const v = new Float32Array(width * height)
+  for (let row = 0; row < height; row++) {
+    const sourceRow = height - 1 - row
+    for (let column = 0; column < width; column++) {
+      const index = row * width + column
+      const sourceIndex = 4 * (sourceRow * width + column)
+      const isCovered = pixels[sourceIndex + 2]! > 0.5
+      u[index] = isCovered ? pixels[sourceIndex]! : NaN
+      v[index] = isCovered ? pixels[sourceIndex + 1]! : NaN
+    }
+  }
+  return VelocityImage.fromComponents(u, v, width, height, options)
+}
+
+/**
+ * Stores the state that rendering velocities may change, i.e. framebuffer,
+ * viewport, capabilities, color mask and clear color, program, vertex array,
+ * array buffer and texture bindings.
+ *
+ * @param gl WebGL2 rendering context.
+ * @returns function that restores the stored state.
+ */
+function saveState(gl: WebGL2RenderingContext): () => void {
+  const drawFramebuffer = gl.getParameter(
+    gl.DRAW_FRAMEBUFFER_BINDING
+  ) as WebGLFramebuffer | null
+  const readFramebuffer = gl.getParameter(
+    gl.READ_FRAMEBUFFER_BINDING
+  ) as WebGLFramebuffer | null
+  const viewport = gl.getParameter(gl.VIEWPORT) as Int32Array
+  const enabledCapabilities = CAPABILITIES.filter(capability =>
+    gl.isEnabled(gl[capability])
+  )
+  const colorMask = gl.getParameter(gl.COLOR_WRITEMASK) as boolean[]
+  const clearColor = gl.getParameter(gl.COLOR_CLEAR_VALUE) as Float32Array
+  const program = gl.getParameter(gl.CURRENT_PROGRAM) as WebGLProgram | null
+  const vertexArray = gl.getParameter(
+    gl.VERTEX_ARRAY_BINDING
+  ) as WebGLVertexArrayObject | null
+  const arrayBuffer = gl.getParameter(
+    gl.ARRAY_BUFFER_BINDING
+  ) as WebGLBuffer | null
+  const activeTexture = gl.getParameter(gl.ACTIVE_TEXTURE) as number
+  const numTextureUnits = gl.getParameter(
+    gl.MAX_COMBINED_TEXTURE_IMAGE_UNITS
+  ) as number
+  const textures: (WebGLTexture | null)[] = []
+  for (let unit = 0; unit < numTextureUnits; unit++) {
+    gl.activeTexture(gl.TEXTURE0 + unit)
+    textures.push(gl.getParameter(gl.TEXTURE_BINDING_2D) as WebGLTexture | null)
+  }
+  gl.activeTexture(activeTexture)
+
+  return () => {
+    gl.bindFramebuffer(gl.DRAW_FRAMEBUFFER, drawFramebuffer)
+    gl.bindFramebuffer(gl.READ_FRAMEBUFFER, readFramebuffer)
+    gl.viewport(viewport[0]!, viewport[1]!, viewport[2]!, viewport[3]!)
+    for (const capability of CAPABILITIES) {
+      if (enabledCapabilities.includes(capability)) gl.enable(gl[capability])
+      else gl.disable(gl[capability])
+    }
+    gl.colorMask(colorMask[0]!, colorMask[1]!, colorMask[2]!, colorMask[3]!)
+    gl.clearColor(
+      clearColor[0]!,
+      clearColor[1]!,
+      clearColor[2]!,
+      clearColor[3]!
+    )
+    gl.useProgram(program)
+    gl.bindVertexArray(vertexArray)
+    gl.bindBuffer(gl.ARRAY_BUFFER, arrayBuffer)
+    textures.forEach((texture, unit) => {
+      gl.activeTexture(gl.TEXTURE0 + unit)
+      gl.bindTexture(gl.TEXTURE_2D, texture)
+    })
+    gl.activeTexture(activeTexture)
+  }
+}
@@ -0,0 +1,165 @@
+import reprojectVertexShaderSource from '../shaders/reproject.vert.glsl'
+import reprojectFragmentShaderSource from '../shaders/reproject.frag.glsl'
+
+import {
+  type CoordinateTransform,
+  createReprojectionGrid
+} from '../utils/reprojection'
+import { FragmentShader, VertexShader } from '../utils/shader'
+import {
+  ShaderProgram,
+  bindAttribute,
+  bindTexture,
+  createAndFillStaticBuffer
+} from '../utils/shader-program'
+import type {
+  VelocityImage,
+  VelocityImageOptions
+} from '../utils/velocity-image'
+import { renderToVelocityImage } from './readback'
+import { VelocityTextures } from './velocity-textures'
+
+/**
+ * Reprojects velocity images from another coordinate reference system into the
+ * display CRS (EPSG:3857) on the GPU.
+ *
+ * The target bounding box is covered by a grid of triangles, for which the
+ * coordinates in the source velocity image are computed with a coordinate
+ * transformation. The source velocity image is resampled by drawing the grid
+ * into a floating-point framebuffer, rotating the velocities from the axes of
+ * the source CRS into the axes of the display CRS. Pixels outside of the
+ * source velocity image are missing.
+ *
+ * Rendering to floating-point textures requires the EXT_color_buffer_float
+ * extension.
+ */
+export class VelocityReprojector {
+  // Number of grid cells in each direction; the grid should be fine enough to
+  // follow the curvature of the transformation.
+  private static readonly NUM_GRID_CELLS = 64
+
+  private readonly gl: WebGL2RenderingContext
+  private program: ShaderProgram | null
+
+  constructor(gl: WebGL2RenderingContext) {
+    this.gl = gl
+    this.program = null
+  }
+
+  async initialise(): Promise<void> {
+    if (this.gl.getExtension('EXT_color_buffer_float') === null) {
+      throw new Error(
+        'Reprojecting velocity images requires the EXT_color_buffer_float extension.'
+      )
+    }
+    const program = new ShaderProgram(
+      this.gl,
+      new VertexShader(this.gl, reprojectVertexShaderSource),
+      new FragmentShader(this.gl, reprojectFragmentShaderSource)
+    )
+    await program.link()
+    this.program = program
+  }
+
+  destruct(): void {
+    this.program?.destruct()
+  }
+
+  /**
+   * Reprojects a velocity image into a bounding box in the display CRS.
+   *
+   * @param velocityImage velocity image to reproject, with velocity components
+   *   along the axes of its CRS.
+   * @param sourceBoundingBox bounding box of the velocity image in its CRS, as
+   *   [xMin, yMin, xMax, yMax].
+   * @param transform transformation between the display CRS and the CRS of
+   *   the velocity image.
+   * @param boundingBox bounding box to reproject into, in the display CRS.
+   * @param width width of the resulting velocity image.
+   * @param height height of the resulting velocity image.
+   * @param options texture format of the resulting velocity image.
+   * @returns velocity image covering the bounding box.
+   */
+  reproject(
+    velocityImage: VelocityImage,
+    sourceBoundingBox: [number, number, number, number],
+    transform: CoordinateTransform,
+    boundingBox: [number, number, number, number],
+    width: number,
+    height: number,
+    options: Omit<VelocityImageOptions, 'noData'> = {}
+  ): VelocityImage {
+    if (!this.program) {
+      throw new Error('Cannot reproject with uninitialised reprojector.')
+    }
+    const gl = this.gl
+    const program = this.program
+
+    const grid = createReprojectionGrid(
+      transform,
+      sourceBoundingBox,
+      boundingBox,
+      VelocityReprojector.NUM_GRID_CELLS
+    )
+    // Buffers and textures are created while drawing, so that the bindings
+    // they change are restored afterwards.
+    return renderToVelocityImage(
+      gl,
+      width,
+      height,
+      () => {
+        const vertexArray = gl.createVertexArray()
+        if (vertexArray === null) {
+          throw new Error('Failed to create vertex array.')
+        }
+        const buffers: WebGLBuffer[] = []
+        let textures: VelocityTextures | null = null
+        try {
+          gl.bindVertexArray(vertexArray)
+          const attributes: [string, Float32Array][] = [
+            ['a_position', grid.positions],
+            ['a_tex_coord', grid.texCoords],
+            ['a_axis_x', grid.axesX],
+            ['a_axis_y', grid.axesY]
+          ]
+          for (const [name, data] of attributes) {
+            const buffer = createAndFillStaticBuffer(gl, data)
+            buffers.push(buffer)
+            bindAttribute(gl, buffer, program.getAttributeLocation(name), 2)
+          }
+          textures = new VelocityTextures(gl, velocityImage)
+
+          program.use()
+          gl.uniform2f(
+            program.getUniformLocation('u_scale'),
+            velocityImage.uScale,
+            velocityImage.vScale
+          )
+          gl.uniform2f(
+            program.getUniformLocation('u_offset'),
+            velocityImage.uOffset,
+            velocityImage.vOffset
+          )
+          bindTexture(
+            program,
+            'u_velocity_texture',
+            0,
+            textures.velocityTexture
+          )
+          bindTexture(
+            program,
+            'u_velocity_mask_texture',
+            1,
+            textures.maskTexture
+          )
+          gl.drawArrays(gl.TRIANGLES, 0, grid.numVertices)
+        } finally {
+          textures?.destruct(gl)
+          buffers.forEach(buffer => gl.deleteBuffer(buffer))
+          gl.deleteVertexArray(vertexArray)
+        }
+      },
+      options
+    )
+  }
+}
@@ -1,5 +1,6 @@
 import { createRectangleVertexArray } from '../utils/geometry'
 import { ShaderProgram, bindTexture } from '../utils/shader-program'
+import type { BoundingBoxScaling } from './final'
 
 export class TextureRenderer {
   private readonly program: ShaderProgram
@@ -57,13 +58,29 @@ export class TextureRenderer {
     this.setupFramebuffer(this.currentFramebuffer, currentParticleTexture)
   }
 
-  render(inputTexture: WebGLTexture, fadeAmount: number): void {
+  render(
+    inputTexture: WebGLTexture,
+    fadeAmount: number,
+    scaling?: BoundingBoxScaling
+  ): void {
     const gl = this.program.gl
     this.program.use()
 
     gl.bindVertexArray(this.vertexArray)
     bindTexture(this.program, 'u_texture', 0, inputTexture)
     gl.uniform1f(this.program.getUniformLocation('u_fade_amount'), fadeAmount)
+    // Optionally move the texture, e.g. to keep particle trails at the same
+    // position when the bounding box of the velocity field changes.
+    gl.uniform2f(
+      this.program.getUniformLocation('u_bbox_scale'),
+      scaling?.scaleX ?? 1.0,
+      scaling?.scaleY ?? 1.0
+    )
+    gl.uniform2f(
+      this.program.getUniformLocation('u_bbox_offset'),
+      scaling?.offsetX ?? 0.0,
+      scaling?.offsetY ?? 0.0
+    )
 
     gl.bindFramebuffer(gl.FRAMEBUFFER, this.currentFramebuffer)
     gl.clear(gl.COLOR_BUFFER_BIT | gl.DEPTH_BUFFER_BIT)
@@ -0,0 +1,61 @@
+import { VelocityImage } from '../utils/velocity-image'
+
+/**
+ * Velocity and mask textures of a velocity image.
+ */
+export class VelocityTextures {
+  readonly velocityImage: VelocityImage
+  readonly velocityTexture: WebGLTexture
+  readonly maskTexture: WebGLTexture
+
+  constructor(gl: WebGL2RenderingContext, velocityImage: VelocityImage) {
+    this.velocityImage = velocityImage
+    this.velocityTexture = velocityImage.toTexture(gl, false)
+    this.maskTexture = velocityImage.toMaskTexture(gl)
+  }
+
+  destruct(gl: WebGL2RenderingContext): void {
+    gl.deleteTexture(this.velocityTexture)
+    gl.deleteTexture(this.maskTexture)
+  }
+}
+
+/**
+ * Updates the textures of the current and next velocity image for temporal
+ * interpolation.
+ *
+ * Textures of velocity images that were already uploaded are reused, so that
+ * stepping to the next time (where the next image becomes the current image)
+ * only uploads the new next image. Textures that are no longer used are
+ * deleted.
+ *
+ * @param gl WebGL2 rendering context.
+ * @param previous current and next textures before the update.
+ * @param velocityImage new current velocity image.
+ * @param nextVelocityImage new next velocity image, if interpolating.
+ * @returns current and next textures after the update.
+ */
+export function updateVelocityTextures(
+  gl: WebGL2RenderingContext,
+  previous: (VelocityTextures | null)[],
+  velocityImage: VelocityImage,
+  nextVelocityImage: VelocityImage | null
+): [VelocityTextures, VelocityTextures | null] {
+  const existing = previous.filter(textures => textures !== null)
+  const findOrCreate = (image: VelocityImage) => {
+    let textures = existing.find(entry => entry.velocityImage === image)
+    if (!textures) {
+      textures = new VelocityTextures(gl, image)
+      existing.push(textures)
+    }
+    return textures
+  }
+
+  const current = findOrCreate(velocityImage)
+  const next = nextVelocityImage ? findOrCreate(nextVelocityImage) : null
+
+  for (const textures of new Set(existing)) {
+    if (textures !== current && textures !== next) textures.destruct(gl)
+  }
+  return [current, next]
+}
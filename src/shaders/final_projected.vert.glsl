@@ -0,0 +1,29 @@
+// Vertex shader for rendering the final result on a projected map, e.g. a
+// globe. The version, precision and the code defining `projectTile` are
+// prepended when compiling, since they depend on the map's projection.
+
+// Bounding box of the velocity field in normalised mercator coordinates, as
+// (x_min, y_min, x_max, y_max) with y pointing south.
+uniform vec4 u_mercator_bbox;
+
+in vec2 a_tex_coord;
+
+out vec2 v_tex_coord;
+out vec2 v_flipped_tex_coord;
+
+void main() {
+    v_tex_coord = a_tex_coord;
+    // Vertically flipped texture coordinate for velocity field data.
+    v_flipped_tex_coord = vec2(
+        a_tex_coord.x,
+        1.0 - a_tex_coord.y
+    );
+
+    // Texture coordinates start at the bottom left, while mercator coordinates
+    // start at the top left.
+    vec2 mercator = vec2(
+        mix(u_mercator_bbox.x, u_mercator_bbox.z, a_tex_coord.x),
+        mix(u_mercator_bbox.w, u_mercator_bbox.y, a_tex_coord.y)
+    );
+    gl_Position = projectTile(mercator);
+}
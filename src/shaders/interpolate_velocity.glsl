@@ -0,0 +1,17 @@
+vec2 interpolate_velocity(
+    sampler2D velocity_texture,
+    vec2 scale,
+    vec2 offset,
+    sampler2D next_velocity_texture,
+    vec2 next_scale,
+    vec2 next_offset,
+    float blend_factor,
+    vec2 pos
+) {
+    // Compute both velocities in physical units before interpolating, since
+    // the fields may have been quantised with different scales and offsets.
+    vec2 velocity = texture(velocity_texture, pos).rg * scale + offset;
+    vec2 next_velocity = texture(next_velocity_texture, pos).rg * next_scale
+        + next_offset;
+    return mix(velocity, next_velocity, blend_factor);
+}
@@ -1,4 +1,16 @@
-bool is_missing_velocity(vec4 raw) {
-    // There is no velocity if r = g = 255.
-    return raw.r == 1.0 && raw.g == 1.0;
+bool is_missing_velocity(sampler2D mask_texture, vec2 pos) {
+    // Missing velocities are marked with a value of 0 in the mask texture.
+    return texture(mask_texture, pos).r < 0.5;
+}
+
+bool is_missing_velocity(
+    sampler2D mask_texture,
+    sampler2D next_mask_texture,
+    float blend_factor,
+    vec2 pos
+) {
+    // When interpolating between two velocity fields, the velocity is missing
+    // if it is missing in any of the fields that contribute to it.
+    return (blend_factor < 1.0 && is_missing_velocity(mask_texture, pos))
+        || (blend_factor > 0.0 && is_missing_velocity(next_mask_texture, pos));
 }
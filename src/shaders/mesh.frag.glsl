@@ -0,0 +1,12 @@
+#version 300 es
+precision highp float;
+
+in vec2 v_velocity;
+
+out vec4 color;
+
+void main() {
+    // The blue channel marks pixels covered by the mesh; uncovered pixels keep
+    // the clear value of 0 and are considered missing.
+    color = vec4(v_velocity, 1.0, 1.0);
+}
@@ -0,0 +1,17 @@
+#version 300 es
+precision highp float;
+
+// Vertex position relative to the origin of the mesh.
+in vec2 a_position;
+in vec2 a_velocity;
+
+// Transformation from mesh coordinates to clip space of the rasterised image.
+uniform vec2 u_scale;
+uniform vec2 u_offset;
+
+out vec2 v_velocity;
+
+void main() {
+    v_velocity = a_velocity;
+    gl_Position = vec4(a_position * u_scale + u_offset, 0.0, 1.0);
+}
@@ -2,6 +2,12 @@
 precision highp float;
 
 uniform sampler2D u_velocity_texture;
+uniform sampler2D u_velocity_mask_texture;
+uniform sampler2D u_next_velocity_texture;
+uniform sampler2D u_next_velocity_mask_texture;
+
+// Factor to interpolate between the current (0) and next (1) velocity field.
+uniform float u_blend_factor;
 
 uniform float u_speed_factor;
 uniform float u_speed_exponent;
@@ -9,9 +15,17 @@ uniform float u_speed_exponent;
 uniform float u_aspect_ratio;
 uniform vec2 u_scale_in;
 uniform vec2 u_offset_in;
+uniform vec2 u_next_scale_in;
+uniform vec2 u_next_offset_in;
 
 uniform float u_dt;
 
+// Transformation from particle positions to clip coordinates of the velocity
+// field; particle positions are either in clip coordinates themselves, or in
+// world coordinates relative to an origin.
+uniform vec2 u_position_scale;
+uniform vec2 u_position_offset;
+
 uniform float u_max_age;
 
 in vec4 a_particle_data;
@@ -21,6 +35,7 @@ out vec4 v_new_particle_data;
 out float v_new_particle_age;
 
 #include is_missing_velocity;
+#include interpolate_velocity;
 
 // From: https://stackoverflow.com/questions/4200224/random-noise-functions-for-glsl
 float gold_noise(vec2 pos, float seed){
@@ -28,11 +43,17 @@ float gold_noise(vec2 pos, float seed){
     return fract(tan(distance(pos * phi, pos) * seed) * pos.x);
 }
 
+vec2 to_clip_space(vec2 pos) {
+    return pos * u_position_scale + u_position_offset;
+}
+
 vec2 random_position() {
-    vec2 pos = a_particle_data.xy;
+    // Generate the random position in clip space, so the noise does not depend
+    // on the magnitude of world coordinates.
+    vec2 pos = to_clip_space(a_particle_data.xy);
     float x = gold_noise(pos, -123.456) * 2.0 - 1.0;
     float y = gold_noise(pos, 789.012) * 2.0 - 1.0;
-    return vec2(x, y);
+    return (vec2(x, y) - u_position_offset) / u_position_scale;
 }
 
 vec2 get_clip_space_velocity(vec2 pos) {
@@ -43,15 +64,36 @@ vec2 get_clip_space_velocity(vec2 pos) {
         0.5 + 0.5 * pos.x,
         0.5 - 0.5 * pos.y
     );
-    vec4 velocity_raw = texture(u_velocity_texture, pos_texture);
-
     // Set missing velocities to zero.
-    if (is_missing_velocity(velocity_raw)) {
+    if (
+        is_missing_velocity(
+            u_velocity_mask_texture,
+            u_next_velocity_mask_texture,
+            u_blend_factor,
+            pos_texture
+        )
+    ) {
         return vec2(0.0, 0.0);
     }
 
     // Compute velocity in physical coordinates.
-    vec2 velocity = velocity_raw.rg * u_scale_in + u_offset_in;
+    vec2 velocity = interpolate_velocity(
+        u_velocity_texture,
+        u_scale_in,
+        u_offset_in,
+        u_next_velocity_texture,
+        u_next_scale_in,
+        u_next_offset_in,
+        u_blend_factor,
+        pos_texture
+    );
+
+    // A zero velocity is used to mark particles in regions without velocity,
+    // so return a tiny velocity for valid data with zero velocity instead.
+    // This also prevents normalising a zero vector below.
+    if (velocity.x == 0.0 && velocity.y == 0.0) {
+        return vec2(0.0, 1e-6);
+    }
 
     if (u_speed_exponent == 0.0) {
         // For a speed exponent of exactly 0, only use the velocity direction
@@ -77,6 +119,8 @@ vec2 get_clip_space_velocity(vec2 pos) {
 
 void main() {
     vec2 pos = a_particle_data.xy;
+    vec2 clip_pos = to_clip_space(pos);
+    // Velocity is in clip coordinates per second.
     vec2 velocity = a_particle_data.zw;
 
     vec2 new_position;
@@ -93,18 +137,21 @@ void main() {
         // all these particle the same age, they will also all die at the same
         // time.
         new_position = random_position();
-        new_age = gold_noise(pos, 987.65) * u_max_age;
-    } else if (pos.x < -1.0 || pos.x > 1.0 || pos.y < -1.0 || pos.y > 1.0) {
+        new_age = gold_noise(clip_pos, 987.65) * u_max_age;
+    } else if (
+        clip_pos.x < -1.0 || clip_pos.x > 1.0 ||
+        clip_pos.y < -1.0 || clip_pos.y > 1.0
+    ) {
         // Also generate new positions and reset age to 0 if our particle leaves
         // clip space.
         new_position = random_position();
         new_age = 0.0;
     } else {
-        new_position = pos + velocity * u_dt;
+        new_position = pos + velocity / u_position_scale * u_dt;
         new_age = a_particle_age + u_dt;
     }
 
-    vec2 new_velocity = get_clip_space_velocity(new_position);
+    vec2 new_velocity = get_clip_space_velocity(to_clip_space(new_position));
 
     v_new_particle_data = vec4(new_position, new_velocity);
     v_new_particle_age = new_age;
@@ -16,6 +16,11 @@ uniform lowp int u_do_rotate_particles;
 uniform vec2 u_bbox_scale;
 uniform vec2 u_bbox_offset;
 
+// Transformation from particle positions to clip coordinates of the velocity
+// field.
+uniform vec2 u_position_scale;
+uniform vec2 u_position_offset;
+
 uniform float u_max_age;
 uniform float u_growth_rate;
 
@@ -44,7 +49,7 @@ void main() {
     vec4 particle_data = texelFetch(u_particle_data_texture, texture_indices, mipmap_level);
     float particle_age = texelFetch(u_particle_age_texture, texture_indices, mipmap_level).r;
 
-    vec2 particle_position = particle_data.xy;
+    vec2 particle_position = particle_data.xy * u_position_scale + u_position_offset;
     vec2 particle_velocity = particle_data.zw;
 
     if(particle_velocity.x == 0.0f && particle_velocity.y == 0.0f) {
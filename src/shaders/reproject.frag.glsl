@@ -0,0 +1,36 @@
+#version 300 es
+precision highp float;
+
+uniform sampler2D u_velocity_texture;
+uniform sampler2D u_velocity_mask_texture;
+
+uniform vec2 u_scale;
+uniform vec2 u_offset;
+
+in vec2 v_tex_coord;
+in vec2 v_axis_x;
+in vec2 v_axis_y;
+
+out vec4 color;
+
+#include is_missing_velocity;
+
+void main() {
+    // Pixels outside of the source velocity image, or with missing velocities,
+    // keep the clear value of 0 and are considered missing.
+    bool is_outside = any(lessThan(v_tex_coord, vec2(0.0)))
+        || any(greaterThan(v_tex_coord, vec2(1.0)));
+    if (is_outside || is_missing_velocity(u_velocity_mask_texture, v_tex_coord)) {
+        color = vec4(0.0, 0.0, 0.0, 0.0);
+        return;
+    }
+
+    // Rotate the velocity from the axes of the source CRS into the axes of
+    // the target CRS.
+    vec2 velocity = texture(u_velocity_texture, v_tex_coord).rg * u_scale
+        + u_offset;
+    vec2 rotated = velocity.x * v_axis_x + velocity.y * v_axis_y;
+
+    // The blue channel marks pixels covered by the source velocity image.
+    color = vec4(rotated, 1.0, 1.0);
+}
@@ -0,0 +1,21 @@
+#version 300 es
+precision highp float;
+
+// Vertex position in clip space of the reprojected image.
+in vec2 a_position;
+// Coordinate into the source velocity texture.
+in vec2 a_tex_coord;
+// Unit vectors along the axes of the source CRS, in the target CRS.
+in vec2 a_axis_x;
+in vec2 a_axis_y;
+
+out vec2 v_tex_coord;
+out vec2 v_axis_x;
+out vec2 v_axis_y;
+
+void main() {
+    v_tex_coord = a_tex_coord;
+    v_axis_x = a_axis_x;
+    v_axis_y = a_axis_y;
+    gl_Position = vec4(a_position, 0.0, 1.0);
+}
@@ -0,0 +1,135 @@
+import type { Colormap } from '../utils/colormap'
+import { VelocityImage } from '../utils/velocity-image'
+import type {
+  AvailableTimesAndElevations,
+  VelocityFieldRequest,
+  VelocityFieldSource
+} from './source'
+
+interface RequestPart {
+  // Horizontal extent of the part in the coordinates of the original request.
+  xMin: number
+  xMax: number
+  // Request for the part, shifted into the world from -180° to 180°.
+  request: VelocityFieldRequest
+}
+
+// Half the circumference of the earth in EPSG:3857 coordinates.
+const MERCATOR_EXTENT = 20037508.34
+// Tolerance in worlds for round-off in bounding boxes, so bounding boxes that
+// end exactly at the antimeridian are not split.
+const TOLERANCE = 1e-9
+
+/**
+ * Velocity field source that splits requests crossing the antimeridian into
+ * requests for each world they cover, and stitches the results into a single
+ * velocity field for the requested bounding box.
+ *
+ * Bounding boxes are in EPSG:3857, and may extend beyond the world from -180°
+ * to 180°, e.g. for views of the Pacific. The wrapped source only receives
+ * requests within that world, at resolutions proportional to the part of the
+ * requested bounding box they cover.
+ */
+export class AntimeridianVelocityFieldSource implements VelocityFieldSource {
+  private readonly source: VelocityFieldSource
+
+  constructor(source: VelocityFieldSource) {
+    this.source = source
+  }
+
+  getAvailableTimesAndElevations(
+    signal?: AbortSignal
+  ): Promise<AvailableTimesAndElevations> {
+    return this.source.getAvailableTimesAndElevations(signal)
+  }
+
+  getColormap(
+    colorScaleRange?: [number, number],
+    signal?: AbortSignal
+  ): Promise<Colormap> {
+    return this.source.getColormap(colorScaleRange, signal)
+  }
+
+  async getVelocityField(
+    request: VelocityFieldRequest,
+    signal?: AbortSignal
+  ): Promise<VelocityImage> {
+    const parts = this.split(request)
+    // Bounding boxes within a single world do not need to be stitched.
+    const [first] = parts
+    if (first && parts.length === 1) {
+      return this.source.getVelocityField(first.request, signal)
+    }
+    const images = await Promise.all(
+      parts.map(part => this.source.getVelocityField(part.request, signal))
+    )
+    return this.stitch(request, parts, images)
+  }
+
+  getCacheKey(): string {
+    return this.source.getCacheKey?.() ?? ''
+  }
+
+  private split(request: VelocityFieldRequest): RequestPart[] {
+    const worldWidth = 2 * MERCATOR_EXTENT
+    const [xMin, yMin, xMax, yMax] = request.boundingBox
+    // Worlds are numbered from the world from -180° to 180°.
+    const first = Math.floor((xMin + MERCATOR_EXTENT) / worldWidth + TOLERANCE)
+    const last =
+      Math.ceil((xMax + MERCATOR_EXTENT) / worldWidth - TOLERANCE) - 1
+
+    const parts: RequestPart[] = []
+    for (let world = first; world <= last; world++) {
+      const shift = world * worldWidth
+      const partXMin = Math.max(xMin, -MERCATOR_EXTENT + shift)
+      const partXMax = Math.min(xMax, MERCATOR_EXTENT + shift)
+      const width = Math.max(
+        Math.round((request.width * (partXMax - partXMin)) / (xMax - xMin)),
+        1
+      )
+      parts.push({
+        xMin: partXMin,
+        xMax: partXMax,
+        request: {
+          ...request,
+          boundingBox: [partXMin - shift, yMin, partXMax - shift, yMax],
+          width
+        }
+      })
+    }
+    return parts
+  }
+
+  private stitch(
+    request: VelocityFieldRequest,
+    parts: RequestPart[],
+    images: VelocityImage[]
+  ): VelocityImage {
+    const { width, height } = request
+    const [xMin, , xMax] = request.boundingBox
+
+    // Sample the parts at the centres of the pixels of the requested image.
+    // Parts may not have been returned at the requested size, so compute the
+    // pixel from the size of their image.
+    const u = new Float32Array(width * height).fill(NaN)
+    const v = new Float32Array(width * height).fill(NaN)
+    for (let column = 0; column < width; column++) {
+      const x = xMin + ((column + 0.5) * (xMax - xMin)) / width
+      const index = parts.findIndex(part => x >= part.xMin && x < part.xMax)
+      const part = parts[index]
+      const image = images[index]
+      if (!part || !image) continue
+
+      const relativeX = (x - part.xMin) / (part.xMax - part.xMin)
+      const pixelX = Math.floor(relativeX * image.width)
+      for (let row = 0; row < height; row++) {
+        const pixelY = Math.floor(((row + 0.5) * image.height) / height)
+        const velocity = image.getVelocityAt(pixelX, pixelY)
+        if (!velocity) continue
+        u[row * width + column] = velocity[0]
+        v[row * width + column] = velocity[1]
+      }
+    }
+    return VelocityImage.fromComponents(u, v, width, height)
+  }
+}
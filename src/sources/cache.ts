@@ -0,0 +1,202 @@
+import type { Colormap } from '../utils/colormap'
+import { AbortedError } from '../utils/errors'
+import type { VelocityImage } from '../utils/velocity-image'
+import type {
+  AvailableTimesAndElevations,
+  VelocityFieldRequest,
+  VelocityFieldSource
+} from './source'
+
+export interface CachedVelocityFieldSourceOptions {
+  /**
+   * Maximum number of bytes of velocity fields to keep; 256 MiB by default. With
+   * 0, fields are only shared while they are being fetched.
+   */
+  maxBytes?: number
+}
+
+interface CacheEntry {
+  velocityImage: Promise<VelocityImage>
+  // Zero while the velocity field is being fetched.
+  byteLength: number
+  isFetching: boolean
+  // Aborts the fetch when all requests that wait for it have been aborted.
+  controller: AbortController
+  numWaiting: number
+}
+
+/**
+ * Velocity field source that caches the velocity fields of another source.
+ *
+ * Fields are cached per request and configuration of the wrapped source (see
+ * `VelocityFieldSource.getCacheKey`), so returning to a previous view, time or
+ * elevation does not fetch the field again. Fields that are still being
+ * fetched are shared between requests; aborting a request only aborts the
+ * fetch if no other request waits for it. When the cached fields exceed the
+ * memory budget, the least recently used fields are evicted. Failed and
+ * aborted fetches are not cached.
+ */
+export class CachedVelocityFieldSource implements VelocityFieldSource {
+  private static readonly DEFAULT_MAX_BYTES = 256 * 1024 * 1024
+
+  private readonly source: VelocityFieldSource
+  private readonly maxBytes: number
+  // Map iteration follows insertion order, and entries are reinserted when
+  // used, so the least recently used entry comes first.
+  private readonly entries: Map<string, CacheEntry>
+  private numBytes: number
+
+  constructor(
+    source: VelocityFieldSource,
+    options: CachedVelocityFieldSourceOptions = {}
+  ) {
+    this.source = source
+    this.maxBytes =
+      options.maxBytes ?? CachedVelocityFieldSource.DEFAULT_MAX_BYTES
+    this.entries = new Map()
+    this.numBytes = 0
+  }
+
+  /** Number of bytes used by the cached velocity fields. */
+  get byteLength(): number {
+    return this.numBytes
+  }
+
+  getAvailableTimesAndElevations(
+    signal?: AbortSignal
+  ): Promise<AvailableTimesAndElevations> {
+    return this.source.getAvailableTimesAndElevations(signal)
+  }
+
+  getColormap(
+    colorScaleRange?: [number, number],
+    signal?: AbortSignal
+  ): Promise<Colormap> {
+    return this.source.getColormap(colorScaleRange, signal)
+  }
+
+  getVelocityField(
+    request: VelocityFieldRequest,
+    signal?: AbortSignal
+  ): Promise<VelocityImage> {
+    if (signal?.aborted) return Promise.reject(new AbortedError())
+
+    const key = this.createKey(request)
+    let entry = this.entries.get(key)
+    if (entry) {
+      // Mark the entry as most recently used.
+      this.entries.delete(key)
+      this.entries.set(key, entry)
+    } else {
+      entry = this.fetchEntry(key, request)
+    }
+    if (!entry.isFetching) return entry.velocityImage
+    return this.waitForEntry(key, entry, signal)
+  }
+
+  getCacheKey(): string {
+    return this.source.getCacheKey?.() ?? ''
+  }
+
+  /**
+   * Removes all cached velocity fields.
+   */
+  clear(): void {
+    this.entries.clear()
+    this.numBytes = 0
+  }
+
+  private fetchEntry(key: string, request: VelocityFieldRequest): CacheEntry {
+    // The fetch is shared between requests, so it has its own controller
+    // rather than the signal of the first request.
+    const controller = new AbortController()
+    const velocityImage = this.source.getVelocityField(
+      request,
+      controller.signal
+    )
+    const entry: CacheEntry = {
+      velocityImage,
+      byteLength: 0,
+      isFetching: true,
+      controller,
+      numWaiting: 0
+    }
+    this.entries.set(key, entry)
+    velocityImage.then(
+      image => {
+        entry.isFetching = false
+        // The entry may have been evicted or cleared while fetching.
+        if (this.entries.get(key) !== entry) return
+        entry.byteLength = image.byteLength
+        this.numBytes += image.byteLength
+        this.evict()
+      },
+      () => {
+        entry.isFetching = false
+        if (this.entries.get(key) === entry) this.entries.delete(key)
+      }
+    )
+    return entry
+  }
+
+  private waitForEntry(
+    key: string,
+    entry: CacheEntry,
+    signal?: AbortSignal
+  ): Promise<VelocityImage> {
+    // Every request follows its own signal, so aborting one request does not
+    // reject the others that wait for the same fetch.
+    entry.numWaiting++
+    return new Promise((resolve, reject) => {
+      const onAbort = () => {
+        entry.numWaiting--
+        // Do not count this request again when the fetch settles.
+        isWaiting = false
+        reject(new AbortedError())
+        // Requests that supersede the aborted one may start waiting in the
+        // same task, so we check after they had the chance to reuse the entry.
+        queueMicrotask(() => {
+          if (entry.numWaiting > 0 || !entry.isFetching) return
+          entry.controller.abort()
+          if (this.entries.get(key) === entry) this.entries.delete(key)
+        })
+      }
+      let isWaiting = true
+      signal?.addEventListener('abort', onAbort, { once: true })
+      entry.velocityImage.then(
+        image => {
+          signal?.removeEventListener('abort', onAbort)
+          if (isWaiting) entry.numWaiting--
+          resolve(image)
+        },
+        (error: unknown) => {
+          signal?.removeEventListener('abort', onAbort)
+          if (isWaiting) entry.numWaiting--
+          reject(error)
+        }
+      )
+    })
+  }
+
+  private createKey(request: VelocityFieldRequest): string {
+    return JSON.stringify([
+      this.source.getCacheKey?.() ?? null,
+      request.boundingBox,
+      request.width,
+      request.height,
+      request.time,
+      request.elevation ?? null
+    ])
+  }
+
+  private evict(): void {
+    // Fields that are still being fetched do not count towards the budget and
+    // are not evicted.
+    for (const [key, entry] of this.entries) {
+      if (this.numBytes <= this.maxBytes) break
+      if (entry.byteLength === 0) continue
+      this.entries.delete(key)
+      this.numBytes -= entry.byteLength
+    }
+  }
+}
@@ -0,0 +1,87 @@
+import type { CoordinateTransform } from '../utils/reprojection'
+import { AntimeridianVelocityFieldSource } from './antimeridian'
+import { CachedVelocityFieldSource } from './cache'
+import {
+  type LocalColormapOptions,
+  LocalColormapVelocityFieldSource
+} from './colormap'
+import { MeshVelocityFieldSource } from './mesh'
+import { ReprojectedVelocityFieldSource } from './reprojected'
+import type { VelocityFieldSource } from './source'
+import { TiledVelocityFieldSource } from './tiled'
+
+export interface VelocityFieldSourceChainOptions extends LocalColormapOptions {
+  /**
+   * Memory budget in bytes for caching; 256 MiB by default. With 0, fields are
+   * only shared while they are being fetched.
+   */
+  maxCacheBytes?: number
+  /** Size of XYZ tiles to fetch in pixels; a single image if not specified. */
+  tileSize?: number
+  /** CRS of the source; EPSG:3857 by default. */
+  crs?: string
+  /** Transformation to the CRS of the source, required if it is not EPSG:3857. */
+  crsTransform?: CoordinateTransform
+}
+
+/**
+ * Velocity field source wrapped in the sources that a streamline layer uses,
+ * with the parts of the chain that need to be managed by the layer.
+ */
+export interface VelocityFieldSourceChain {
+  source: VelocityFieldSource
+  cache: CachedVelocityFieldSource
+  reprojectedSource: ReprojectedVelocityFieldSource | null
+  meshSource: MeshVelocityFieldSource | null
+}
+
+/**
+ * Wraps a velocity field source for use in a streamline layer.
+ *
+ * Velocity fields are reprojected from the source's CRS if necessary, then
+ * cached; the cache also shares fields that are being fetched between
+ * requests, and aborts their fetches once all requests are aborted. Requests
+ * that cross the antimeridian are split into requests within a single world,
+ * either as tiles or by the antimeridian source. The colormap is taken from
+ * the options if specified there; the options object is read for every
+ * request, so the colormap can be changed later.
+ *
+ * @param source source to wrap.
+ * @param options options for the wrapping sources.
+ * @returns wrapped source, the cache, and the reprojected and mesh sources if
+ *   any, which rasterise on the GPU.
+ * @throws if the source has another CRS than EPSG:3857, but no transformation.
+ */
+export function createVelocityFieldSourceChain(
+  source: VelocityFieldSource,
+  options: VelocityFieldSourceChainOptions
+): VelocityFieldSourceChain {
+  // Without a transformation, velocity fields would silently be treated as if
+  // they were in EPSG:3857.
+  if (
+    options.crs !== undefined &&
+    options.crs !== 'EPSG:3857' &&
+    !options.crsTransform
+  ) {
+    throw new Error(
+      `Velocity fields in ${options.crs} require a crsTransform from EPSG:3857.`
+    )
+  }
+  const reprojectedSource = options.crsTransform
+    ? new ReprojectedVelocityFieldSource(source, options.crsTransform)
+    : null
+  const reprojected = reprojectedSource ?? source
+  const cache = new CachedVelocityFieldSource(reprojected, {
+    maxBytes: options.maxCacheBytes
+  })
+  const wrapped =
+    options.tileSize !== undefined
+      ? new TiledVelocityFieldSource(cache, { tileSize: options.tileSize })
+      : new AntimeridianVelocityFieldSource(cache)
+  return {
+    source: new LocalColormapVelocityFieldSource(wrapped, options),
+    cache,
+    reprojectedSource,
+    meshSource: source instanceof MeshVelocityFieldSource ? source : null
+  }
+}
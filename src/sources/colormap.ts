@@ -0,0 +1,64 @@
+import type { Colormap } from '../utils/colormap'
+import { type PaletteName, createPaletteColormap } from '../utils/palettes'
+import type { VelocityImage } from '../utils/velocity-image'
+import type {
+  AvailableTimesAndElevations,
+  VelocityFieldRequest,
+  VelocityFieldSource
+} from './source'
+
+export interface LocalColormapOptions {
+  // Colormap to use instead of the colormap of the source, either as a
+  // colormap or as the name of a built-in palette. The colormap is rescaled to
+  // the color scale range, if specified; palettes span [0, 1] otherwise.
+  colormap?: Colormap | PaletteName
+}
+
+/**
+ * Velocity field source that provides a locally defined colormap instead of
+ * the colormap of another source, e.g. for sources without a legend, or to use
+ * the same palette for different services.
+ *
+ * Options are read for every request, so changes to the options object are
+ * taken into account for subsequent requests. Without a local colormap, the
+ * colormap of the wrapped source is used.
+ */
+export class LocalColormapVelocityFieldSource implements VelocityFieldSource {
+  constructor(
+    private readonly source: VelocityFieldSource,
+    private readonly options: LocalColormapOptions
+  ) {}
+
+  getAvailableTimesAndElevations(
+    signal?: AbortSignal
+  ): Promise<AvailableTimesAndElevations> {
+    return this.source.getAvailableTimesAndElevations(signal)
+  }
+
+  async getColormap(
+    colorScaleRange?: [number, number],
+    signal?: AbortSignal
+  ): Promise<Colormap> {
+    const colormap = this.options.colormap
+    if (colormap === undefined) {
+      return this.source.getColormap(colorScaleRange, signal)
+    }
+    if (typeof colormap === 'string') {
+      return createPaletteColormap(colormap, colorScaleRange)
+    }
+    return colorScaleRange
+      ? colormap.rescale(colorScaleRange[0], colorScaleRange[1])
+      : colormap
+  }
+
+  getVelocityField(
+    request: VelocityFieldRequest,
+    signal?: AbortSignal
+  ): Promise<VelocityImage> {
+    return this.source.getVelocityField(request, signal)
+  }
+
+  getCacheKey(): string {
+    return this.source.getCacheKey?.() ?? ''
+  }
+}
@@ -0,0 +1,99 @@
+import type { RetryOptions } from '../utils/fetch'
+import {
+  type TransformRequestFunction,
+  fetchWMSAvailableTimesAndElevations,
+  fetchWMSColormap,
+  fetchWMSVelocityField
+} from '../utils/wms'
+import type { Colormap } from '../utils/colormap'
+import type { VelocityImage } from '../utils/velocity-image'
+import type {
+  AvailableTimesAndElevations,
+  VelocityFieldRequest,
+  VelocityFieldSource
+} from './source'
+
+export interface FewsWMSVelocityFieldSourceOptions {
+  baseUrl: string
+  layer: string
+  style?: string
+  useDisplayUnits?: boolean
+  useLastValue?: boolean
+  transformRequest?: TransformRequestFunction
+  // Coordinate reference system to request velocity fields in; EPSG:3857 by
+  // default. Velocity fields in other CRSs should be reprojected with a
+  // ReprojectedVelocityFieldSource.
+  crs?: string
+  // Retries of transient failures (network errors and 5xx responses); no
+  // retries by default.
+  retry?: RetryOptions
+}
+
+/**
+ * Velocity field source backed by a FEWS Web Mapping Service.
+ *
+ * Options are read for every request, so changes to the options object are
+ * taken into account for subsequent requests.
+ */
+export class FewsWMSVelocityFieldSource implements VelocityFieldSource {
+  constructor(private readonly options: FewsWMSVelocityFieldSourceOptions) {}
+
+  getAvailableTimesAndElevations(
+    signal?: AbortSignal
+  ): Promise<AvailableTimesAndElevations> {
+    return fetchWMSAvailableTimesAndElevations(
+      this.options.baseUrl,
+      this.options.layer,
+      signal,
+      this.options.transformRequest,
+      this.options.retry
+    )
+  }
+
+  getColormap(
+    colorScaleRange?: [number, number],
+    signal?: AbortSignal
+  ): Promise<Colormap> {
+    return fetchWMSColormap(
+      this.options.baseUrl,
+      this.options.layer,
+      colorScaleRange,
+      signal,
+      this.options.transformRequest,
+      this.options.retry
+    )
+  }
+
+  getVelocityField(
+    request: VelocityFieldRequest,
+    signal?: AbortSignal
+  ): Promise<VelocityImage> {
+    return fetchWMSVelocityField(
+      this.options.baseUrl,
+      this.options.layer,
+      request.time,
+      request.boundingBox,
+      request.width,
+      request.height,
+      this.options.style,
+      this.options.useDisplayUnits,
+      this.options.useLastValue,
+      request.elevation,
+      signal,
+      this.options.transformRequest,
+      this.options.crs,
+      this.options.retry
+    )
+  }
+
+  getCacheKey(): string {
+    return JSON.stringify([
+      this.options.baseUrl,
+      this.options.layer,
+      this.options.style,
+      this.options.useDisplayUnits,
+      this.options.useLastValue,
+      this.options.crs
+    ])
+  }
+}
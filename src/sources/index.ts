@@ -0,0 +1,32 @@
+export { AntimeridianVelocityFieldSource } from './antimeridian'
+export {
+  CachedVelocityFieldSource,
+  type CachedVelocityFieldSourceOptions
+} from './cache'
+export {
+  LocalColormapVelocityFieldSource,
+  type LocalColormapOptions
+} from './colormap'
+export {
+  createVelocityFieldSourceChain,
+  type VelocityFieldSourceChain,
+  type VelocityFieldSourceChainOptions
+} from './chain'
+export {
+  FewsWMSVelocityFieldSource,
+  type FewsWMSVelocityFieldSourceOptions
+} from './fews-wms'
+export {
+  MeshVelocityFieldSource,
+  type MeshVelocityFieldSourceOptions
+} from './mesh'
+export { ReprojectedVelocityFieldSource } from './reprojected'
+export {
+  type AvailableTimesAndElevations,
+  type VelocityFieldRequest,
+  type VelocityFieldSource
+} from './source'
+export {
+  TiledVelocityFieldSource,
+  type TiledVelocityFieldSourceOptions
+} from './tiled'
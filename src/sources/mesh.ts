@@ -0,0 +1,102 @@
+import { MeshRasteriser } from '../render/mesh'
+import type { Colormap } from '../utils/colormap'
+import { AbortedError } from '../utils/errors'
+import type { VelocityMesh } from '../utils/mesh'
+import type { FloatTextureFormat, VelocityImage } from '../utils/velocity-image'
+import type {
+  AvailableTimesAndElevations,
+  VelocityFieldRequest,
+  VelocityFieldSource
+} from './source'
+
+export interface MeshVelocityFieldSourceOptions {
+  /** Times for which meshes are available. */
+  times: string[]
+  /** Bounds of the available elevations, if the meshes have elevations. */
+  elevationBounds?: [number, number] | null
+  /** Precision of the rasterised velocity fields; 32 bits by default. */
+  floatFormat?: FloatTextureFormat
+  /**
+   * Gets the mesh for a time and elevation. Meshes are not cached by the
+   * source, but rasterising the same mesh for consecutive requests only
+   * uploads it once.
+   */
+  getMesh(
+    time: string,
+    elevation: number | undefined,
+    signal?: AbortSignal
+  ): Promise<VelocityMesh>
+}
+
+/**
+ * Velocity field source that rasterises velocity meshes on the GPU, e.g. the
+ * output of a model on an unstructured mesh.
+ *
+ * Only the part of the mesh in the requested bounding box is rasterised, at
+ * the requested resolution. Node coordinates should be in EPSG:3857, or in the
+ * CRS of the layer's `crsTransform`. Meshes have no colormap, so the source
+ * should be wrapped in a `LocalColormapVelocityFieldSource`, e.g. by
+ * specifying the `colormap` option of the layer.
+ *
+ * The source should be initialised with a WebGL2 context before fetching
+ * velocity fields; the streamline layers initialise it with the context of the
+ * map. Rasterising restores the state of the context, so it can share the
+ * context of a map and rasterise in between the map's rendering.
+ */
+export class MeshVelocityFieldSource implements VelocityFieldSource {
+  private readonly options: MeshVelocityFieldSourceOptions
+  private rasteriser: MeshRasteriser | null
+
+  constructor(options: MeshVelocityFieldSourceOptions) {
+    this.options = options
+    this.rasteriser = null
+  }
+
+  async initialise(gl: WebGL2RenderingContext): Promise<void> {
+    const rasteriser = new MeshRasteriser(gl)
+    await rasteriser.initialise()
+    this.rasteriser?.destruct()
+    this.rasteriser = rasteriser
+  }
+
+  destruct(): void {
+    this.rasteriser?.destruct()
+    this.rasteriser = null
+  }
+
+  async getAvailableTimesAndElevations(): Promise<AvailableTimesAndElevations> {
+    return {
+      times: this.options.times,
+      elevationBounds: this.options.elevationBounds ?? null
+    }
+  }
+
+  async getColormap(): Promise<Colormap> {
+    throw new Error(
+      'Meshes have no colormap; wrap the source in a LocalColormapVelocityFieldSource.'
+    )
+  }
+
+  async getVelocityField(
+    request: VelocityFieldRequest,
+    signal?: AbortSignal
+  ): Promise<VelocityImage> {
+    const mesh = await this.options.getMesh(
+      request.time,
+      request.elevation,
+      signal
+    )
+    if (signal?.aborted) throw new AbortedError()
+    // The source may have been destructed while getting the mesh.
+    if (!this.rasteriser) {
+      throw new Error('Mesh source has not been initialised.')
+    }
+    return this.rasteriser.rasterise(
+      mesh,
+      request.boundingBox,
+      request.width,
+      request.height,
+      { floatFormat: this.options.floatFormat }
+    )
+  }
+}
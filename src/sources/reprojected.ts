@@ -0,0 +1,108 @@
+import { VelocityReprojector } from '../render/reprojector'
+import type { Colormap } from '../utils/colormap'
+import {
+  type CoordinateTransform,
+  transformBoundingBox
+} from '../utils/reprojection'
+import type { VelocityImage } from '../utils/velocity-image'
+import type {
+  AvailableTimesAndElevations,
+  VelocityFieldRequest,
+  VelocityFieldSource
+} from './source'
+
+/**
+ * Velocity field source that fetches velocity fields in another coordinate
+ * reference system from another source, and reprojects them on the GPU into
+ * the requested bounding box in EPSG:3857.
+ *
+ * The wrapped source receives requests for a bounding box in its CRS that
+ * covers the requested bounding box, with about the same number of pixels. Its
+ * velocity components should be along the axes of its CRS; they are rotated
+ * into the axes of EPSG:3857. The source should be initialised with a WebGL2
+ * context before fetching velocity fields. Reprojecting restores the state of
+ * the context, so it can share the context of a map and reproject in between
+ * the map's rendering.
+ */
+export class ReprojectedVelocityFieldSource implements VelocityFieldSource {
+  private readonly source: VelocityFieldSource
+  private readonly transform: CoordinateTransform
+  private reprojector: VelocityReprojector | null
+
+  constructor(source: VelocityFieldSource, transform: CoordinateTransform) {
+    this.source = source
+    this.transform = transform
+    this.reprojector = null
+  }
+
+  async initialise(gl: WebGL2RenderingContext): Promise<void> {
+    const reprojector = new VelocityReprojector(gl)
+    await reprojector.initialise()
+    this.reprojector?.destruct()
+    this.reprojector = reprojector
+  }
+
+  destruct(): void {
+    this.reprojector?.destruct()
+    this.reprojector = null
+  }
+
+  getAvailableTimesAndElevations(
+    signal?: AbortSignal
+  ): Promise<AvailableTimesAndElevations> {
+    return this.source.getAvailableTimesAndElevations(signal)
+  }
+
+  getColormap(
+    colorScaleRange?: [number, number],
+    signal?: AbortSignal
+  ): Promise<Colormap> {
+    return this.source.getColormap(colorScaleRange, signal)
+  }
+
+  async getVelocityField(
+    request: VelocityFieldRequest,
+    signal?: AbortSignal
+  ): Promise<VelocityImage> {
+    const sourceRequest = this.createSourceRequest(request)
+    const velocityImage = await this.source.getVelocityField(
+      sourceRequest,
+      signal
+    )
+    // The source may have been destructed while fetching.
+    if (!this.reprojector) {
+      throw new Error('Reprojected source has not been initialised.')
+    }
+    return this.reprojector.reproject(
+      velocityImage,
+      sourceRequest.boundingBox,
+      this.transform,
+      request.boundingBox,
+      request.width,
+      request.height
+    )
+  }
+
+  getCacheKey(): string {
+    return this.source.getCacheKey?.() ?? ''
+  }
+
+  private createSourceRequest(
+    request: VelocityFieldRequest
+  ): VelocityFieldRequest {
+    const boundingBox = transformBoundingBox(request.boundingBox, (x, y) =>
+      this.transform.forward(x, y)
+    )
+    // Keep the number of pixels, with the aspect ratio of the bounding box in
+    // the source's CRS.
+    const [xMin, yMin, xMax, yMax] = boundingBox
+    const aspectRatio = (xMax - xMin) / (yMax - yMin)
+    const numPixels = request.width * request.height
+    return {
+      ...request,
+      boundingBox,
+      width: Math.max(Math.round(Math.sqrt(numPixels * aspectRatio)), 1),
+      height: Math.max(Math.round(Math.sqrt(numPixels / aspectRatio)), 1)
+    }
+  }
+}
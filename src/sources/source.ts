@@ -0,0 +1,78 @@
+import type { Colormap } from '../utils/colormap'
+import type { VelocityImage } from '../utils/velocity-image'
+
+export interface AvailableTimesAndElevations {
+  times: string[]
+  elevationBounds: [number, number] | null
+}
+
+/**
+ * Request for a velocity field covering a bounding box.
+ */
+export interface VelocityFieldRequest {
+  /** Bounding box in EPSG:3857 coordinates, as [xMin, yMin, xMax, yMax]. */
+  boundingBox: [number, number, number, number]
+  /** Requested width of the velocity image in pixels. */
+  width: number
+  /** Requested height of the velocity image in pixels. */
+  height: number
+  /** Time of the velocity field, as one of the available times. */
+  time: string
+  /** Elevation of the velocity field, if the source has elevations. */
+  elevation?: number
+}
+
+/**
+ * A source of velocity fields, with their available times and elevations and
+ * a colormap for the velocity magnitude.
+ *
+ * Implementations can be backed by any service or data, for example a WMS
+ * service, static files or an in-memory model.
+ */
+export interface VelocityFieldSource {
+  /**
+   * Gets the times and elevation bounds for which velocity fields are
+   * available.
+   *
+   * @param signal signal to abort the request.
+   * @returns available times and elevation bounds.
+   */
+  getAvailableTimesAndElevations(
+    signal?: AbortSignal
+  ): Promise<AvailableTimesAndElevations>
+
+  /**
+   * Gets the colormap to use for the velocity magnitude.
+   *
+   * @param colorScaleRange optional range to rescale the colormap to.
+   * @param signal signal to abort the request.
+   * @returns colormap for the velocity magnitude.
+   */
+  getColormap(
+    colorScaleRange?: [number, number],
+    signal?: AbortSignal
+  ): Promise<Colormap>
+
+  /**
+   * Gets a velocity field for a bounding box, size, time and elevation.
+   *
+   * @param request bounding box, size, time and elevation of the field.
+   * @param signal signal to abort the request.
+   * @returns velocity image covering the requested bounding box.
+   */
+  getVelocityField(
+    request: VelocityFieldRequest,
+    signal?: AbortSignal
+  ): Promise<VelocityImage>
+
+  /**
+   * Gets a key identifying the current configuration of the source, e.g. its
+   * layer, style and units, that determines the fetched velocity fields.
+   *
+   * Cached velocity fields are only reused for the same key. Sources that
+   * cannot change their configuration do not need to implement this.
+   *
+   * @returns key of the current configuration.
+   */
+  getCacheKey?(): string
+}
@@ -0,0 +1,209 @@
+import type { Colormap } from '../utils/colormap'
+import { VelocityImage } from '../utils/velocity-image'
+import type {
+  AvailableTimesAndElevations,
+  VelocityFieldRequest,
+  VelocityFieldSource
+} from './source'
+
+export interface TiledVelocityFieldSourceOptions {
+  /** Width and height of the tiles in pixels; 256 by default. */
+  tileSize?: number
+  /** Maximum zoom level to fetch tiles for; 18 by default. */
+  maxZoom?: number
+}
+
+interface Tile {
+  // Column of the tile, which may be outside of the world for bounding boxes
+  // that cross the antimeridian.
+  x: number
+  y: number
+  z: number
+}
+
+// Half the circumference of the earth in EPSG:3857 coordinates.
+const MERCATOR_EXTENT = 20037508.34
+// Tolerance in tiles for round-off in bounding boxes, so bounding boxes that
+// exactly match tiles do not fetch neighbouring tiles or the next zoom level.
+const TOLERANCE = 1e-6
+
+/**
+ * Velocity field source that fetches velocity fields as XYZ tiles in
+ * EPSG:3857 from another source, and stitches them into a velocity field for
+ * the requested bounding box.
+ *
+ * Tiles follow the usual XYZ scheme, with tile (0, 0) at the top left of the
+ * world, and are requested from the wrapped source with their own bounding box
+ * and size. The zoom level is chosen such that the tiles have at least the
+ * requested resolution. Wrap the tiled source around a
+ * `CachedVelocityFieldSource` to cache the tiles, so only tiles that came into
+ * view are fetched when panning, and tiles can be reused between views.
+ */
+export class TiledVelocityFieldSource implements VelocityFieldSource {
+  private static readonly DEFAULT_TILE_SIZE = 256
+  private static readonly DEFAULT_MAX_ZOOM = 18
+
+  private readonly source: VelocityFieldSource
+  private readonly tileSize: number
+  private readonly maxZoom: number
+
+  constructor(
+    source: VelocityFieldSource,
+    options: TiledVelocityFieldSourceOptions = {}
+  ) {
+    this.source = source
+    this.tileSize =
+      options.tileSize ?? TiledVelocityFieldSource.DEFAULT_TILE_SIZE
+    this.maxZoom = options.maxZoom ?? TiledVelocityFieldSource.DEFAULT_MAX_ZOOM
+  }
+
+  getAvailableTimesAndElevations(
+    signal?: AbortSignal
+  ): Promise<AvailableTimesAndElevations> {
+    return this.source.getAvailableTimesAndElevations(signal)
+  }
+
+  getColormap(
+    colorScaleRange?: [number, number],
+    signal?: AbortSignal
+  ): Promise<Colormap> {
+    return this.source.getColormap(colorScaleRange, signal)
+  }
+
+  async getVelocityField(
+    request: VelocityFieldRequest,
+    signal?: AbortSignal
+  ): Promise<VelocityImage> {
+    const tiles = this.getTiles(request)
+    const images = await Promise.all(
+      tiles.map(tile =>
+        this.source.getVelocityField(
+          this.createTileRequest(tile, request),
+          signal
+        )
+      )
+    )
+    return this.stitch(request, tiles, images)
+  }
+
+  getCacheKey(): string {
+    return this.source.getCacheKey?.() ?? ''
+  }
+
+  private getZoomLevel(request: VelocityFieldRequest): number {
+    // Choose the lowest zoom level with at least the requested resolution.
+    const [xMin, , xMax] = request.boundingBox
+    const resolution = (xMax - xMin) / request.width
+    const tileResolution = (2 * MERCATOR_EXTENT) / this.tileSize
+    const zoom = Math.ceil(Math.log2(tileResolution / resolution) - TOLERANCE)
+    return Math.min(Math.max(zoom, 0), this.maxZoom)
+  }
+
+  private getTiles(request: VelocityFieldRequest): Tile[] {
+    const z = this.getZoomLevel(request)
+    const numTiles = 2 ** z
+    const tileWidth = (2 * MERCATOR_EXTENT) / numTiles
+    const [xMin, yMin, xMax, yMax] = request.boundingBox
+
+    const first = (coordinate: number) =>
+      Math.floor(coordinate / tileWidth + TOLERANCE)
+    const last = (coordinate: number) =>
+      Math.ceil(coordinate / tileWidth - TOLERANCE) - 1
+
+    const xStart = first(xMin + MERCATOR_EXTENT)
+    const xEnd = last(xMax + MERCATOR_EXTENT)
+    // Rows outside of the world do not exist.
+    const yStart = Math.max(first(MERCATOR_EXTENT - yMax), 0)
+    const yEnd = Math.min(last(MERCATOR_EXTENT - yMin), numTiles - 1)
+
+    const tiles: Tile[] = []
+    for (let y = yStart; y <= yEnd; y++) {
+      for (let x = xStart; x <= xEnd; x++) {
+        tiles.push({ x, y, z })
+      }
+    }
+    return tiles
+  }
+
+  private createTileRequest(
+    tile: Tile,
+    request: VelocityFieldRequest
+  ): VelocityFieldRequest {
+    // Wrap tiles outside of the world around, so they are the same requests
+    // as the tiles inside the world.
+    const numTiles = 2 ** tile.z
+    const x = ((tile.x % numTiles) + numTiles) % numTiles
+    const tileWidth = (2 * MERCATOR_EXTENT) / numTiles
+    const xMin = -MERCATOR_EXTENT + x * tileWidth
+    const yMax = MERCATOR_EXTENT - tile.y * tileWidth
+    return {
+      boundingBox: [xMin, yMax - tileWidth, xMin + tileWidth, yMax],
+      width: this.tileSize,
+      height: this.tileSize,
+      time: request.time,
+      elevation: request.elevation
+    }
+  }
+
+  private stitch(
+    request: VelocityFieldRequest,
+    tiles: Tile[],
+    images: VelocityImage[]
+  ): VelocityImage {
+    const { width, height } = request
+    const [xMin, yMin, xMax, yMax] = request.boundingBox
+    const first = tiles[0]
+    const tileWidth = first ? (2 * MERCATOR_EXTENT) / 2 ** first.z : 1
+    const numColumns = first
+      ? Math.max(...tiles.map(tile => tile.x)) - first.x + 1
+      : 0
+
+    // Sample the tiles at the centres of the pixels of the requested image;
+    // pixels outside of the tiles are missing.
+    const u = new Float32Array(width * height).fill(NaN)
+    const v = new Float32Array(width * height).fill(NaN)
+    for (let row = 0; row < height; row++) {
+      const y = yMax - ((row + 0.5) * (yMax - yMin)) / height
+      const tileY = (MERCATOR_EXTENT - y) / tileWidth
+      for (let column = 0; column < width; column++) {
+        const x = xMin + ((column + 0.5) * (xMax - xMin)) / width
+        const tileX = (x + MERCATOR_EXTENT) / tileWidth
+        const velocity = this.sampleTiles(
+          tiles,
+          images,
+          numColumns,
+          tileX,
+          tileY
+        )
+        if (!velocity) continue
+        const index = row * width + column
+        u[index] = velocity[0]
+        v[index] = velocity[1]
+      }
+    }
+    return VelocityImage.fromComponents(u, v, width, height)
+  }
+
+  private sampleTiles(
+    tiles: Tile[],
+    images: VelocityImage[],
+    numColumns: number,
+    tileX: number,
+    tileY: number
+  ): [number, number] | null {
+    const first = tiles[0]
+    if (!first) return null
+    // Tiles are ordered by row, then column.
+    const column = Math.floor(tileX) - first.x
+    const row = Math.floor(tileY) - first.y
+    if (column < 0 || column >= numColumns || row < 0) return null
+    const image = images[row * numColumns + column]
+    if (!image) return null
+
+    // Tiles may not have been returned at the requested size, so compute the
+    // pixel from the size of the image.
+    const pixelX = Math.floor((tileX - Math.floor(tileX)) * image.width)
+    const pixelY = Math.floor((tileY - Math.floor(tileY)) * image.height)
+    return image.getVelocityAt(pixelX, pixelY)
+  }
+}
@@ -0,0 +1,374 @@
+import { Color, Colormap } from './colormap'
+
+/**
+ * Format of a color ramp text file: a GDAL `gdaldem color-relief` color
+ * file, or a QGIS color map export file.
+ */
+export type ColorRampFormat = 'gdal' | 'qgis'
+
+/**
+ * Parses a colormap from a GMT color palette table (`.cpt`).
+ *
+ * Colors may be specified as `r g b`, `r/g/b`, a grey level, a hexadecimal
+ * color or a color name, optionally followed by a transparency in percent,
+ * e.g. `255/0/0@50`. Only the RGB color model is supported; background,
+ * foreground and NaN colors (the B, F and N lines) are ignored. Segments that
+ * do not connect to the previous segment result in a discontinuity in the
+ * colormap.
+ *
+ * @param text contents of the CPT file.
+ * @returns colormap with the colors of the segments.
+ */
+export function parseCpt(text: string): Colormap {
+  const values: number[] = []
+  const colors: Color[] = []
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.trim()
+    if (line.startsWith('#')) {
+      const model = /^#\s*COLOR_MODEL\s*=\s*\+?(\w+)/i.exec(line)?.[1]
+      if (model && model.toUpperCase() !== 'RGB') {
+        throw new Error(`Unsupported CPT color model "${model}".`)
+      }
+      continue
+    }
+    if (line === '' || /^[BFN]\s/.test(line)) continue
+
+    // Remove the label and the annotation flag, if any.
+    const fields = line.split(';')[0]!.trim().split(/\s+/)
+    if (/^[LUB]$/.test(fields[fields.length - 1]!)) fields.pop()
+
+    let segment: [number, Color, number, Color]
+    if (fields.length === 4) {
+      segment = [
+        parseValue(fields[0]!),
+        parseCptColor([fields[1]!]),
+        parseValue(fields[2]!),
+        parseCptColor([fields[3]!])
+      ]
+    } else if (fields.length === 8) {
+      segment = [
+        parseValue(fields[0]!),
+        parseCptColor(fields.slice(1, 4)),
+        parseValue(fields[4]!),
+        parseCptColor(fields.slice(5, 8))
+      ]
+    } else {
+      throw new Error(`Malformed CPT line "${line}".`)
+    }
+
+    const [start, startColor, end, endColor] = segment
+    // Consecutive segments usually share their boundary point.
+    const numPoints = values.length
+    const isContinuous =
+      numPoints > 0 &&
+      values[numPoints - 1] === start &&
+      formatHex(colors[numPoints - 1]!) === formatHex(startColor)
+    if (!isContinuous) {
+      values.push(start)
+      colors.push(startColor)
+    }
+    values.push(end)
+    colors.push(endColor)
+  }
+  if (values.length === 0) {
+    throw new Error('CPT file contains no color segments.')
+  }
+  return new Colormap(values, colors)
+}
+
+/**
+ * Serialises a colormap as a GMT color palette table (`.cpt`), with one
+ * segment between each pair of consecutive colormap points. Colors that are
+ * not opaque get a transparency, e.g. `255/0/0@50`.
+ *
+ * @param colormap colormap to serialise.
+ * @returns contents of the CPT file.
+ */
+export function toCpt(colormap: Colormap): string {
+  const lines = ['# COLOR_MODEL = RGB']
+  for (let i = 0; i < colormap.num - 1; i++) {
+    const start = colormap.values[i]!
+    const end = colormap.values[i + 1]!
+    // Discontinuities are represented by two points with the same value.
+    if (start === end) continue
+    const startColor = formatCptColor(colormap.colors[i]!)
+    const endColor = formatCptColor(colormap.colors[i + 1]!)
+    lines.push(`${start}\t${startColor}\t${end}\t${endColor}`)
+  }
+  return lines.join('\n') + '\n'
+}
+
+/**
+ * Parses a colormap from a color ramp text file, either a GDAL
+ * `gdaldem color-relief` color file or a QGIS color map export file.
+ *
+ * Each line contains a value followed by a color, as `r g b` with an optional
+ * alpha in [0, 255], or as a color name. Fields may be separated by
+ * whitespace, commas, tabs or colons. Comments, the QGIS `INTERPOLATION` line
+ * and no-data (`nv`) entries are ignored; all colormaps are interpolated
+ * linearly. Values relative to the range of a raster (percentages) are not
+ * supported.
+ *
+ * @param text contents of the color ramp file.
+ * @returns colormap with the colors of the entries.
+ */
+export function parseColorRamp(text: string): Colormap {
+  const values: number[] = []
+  const colors: Color[] = []
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.trim()
+    if (line === '' || line.startsWith('#')) continue
+    if (/^INTERPOLATION\s*:/i.test(line)) continue
+
+    const fields = line.split(/[\s,:]+/)
+    const [value, ...colorFields] = fields
+    if (value!.toLowerCase() === 'nv') continue
+    if (value!.endsWith('%')) {
+      throw new Error(`Relative color ramp value "${value!}" is not supported.`)
+    }
+    if (colorFields.length === 0) {
+      throw new Error(`Malformed color ramp line "${line}".`)
+    }
+
+    values.push(parseValue(value!))
+    // Colors are either given as components, or as a name.
+    colors.push(
+      isNumeric(colorFields[0]!)
+        ? parseRgbFields(colorFields.slice(0, 4), line)
+        : Color.fromCss(colorFields[0]!)
+    )
+  }
+  if (values.length === 0) {
+    throw new Error('Color ramp file contains no entries.')
+  }
+  return new Colormap(values, colors)
+}
+
+/**
+ * Serialises a colormap as a color ramp text file. GDAL color files only
+ * include alpha for colors that are not opaque.
+ *
+ * @param colormap colormap to serialise.
+ * @param format format of the file; a QGIS color map export file by default.
+ * @returns contents of the color ramp file.
+ */
+export function toColorRamp(
+  colormap: Colormap,
+  format: ColorRampFormat = 'qgis'
+): string {
+  const lines =
+    format === 'qgis'
+      ? ['# QGIS Generated Color Map Export File', 'INTERPOLATION:INTERPOLATED']
+      : []
+  for (let i = 0; i < colormap.num; i++) {
+    const value = colormap.values[i]!
+    const color = colormap.colors[i]!
+    const alpha = Math.round(color.a * 255)
+    lines.push(
+      format === 'qgis'
+        ? `${value},${formatRgb(color, ',')},${alpha},${value}`
+        : `${value} ${formatRgb(color, ' ')}${alpha < 255 ? ` ${alpha}` : ''}`
+    )
+  }
+  return lines.join('\n') + '\n'
+}
+
+/**
+ * Parses a colormap from a matplotlib-style JSON list.
+ *
+ * The list contains either colors, which are spaced uniformly over [0, 1],
+ * or `[value, color]` pairs, as accepted by matplotlib's
+ * `LinearSegmentedColormap.from_list`. Colors are lists of red, green, blue
+ * and optionally alpha in [0, 1], or CSS color strings.
+ *
+ * @param json JSON string, or its parsed value.
+ * @returns colormap with the colors of the list.
+ */
+export function parseMatplotlibJson(json: string | unknown): Colormap {
+  const data: unknown = typeof json === 'string' ? JSON.parse(json) : json
+  if (!Array.isArray(data) || data.length === 0) {
+    throw new Error('Matplotlib colormap should be a non-empty list.')
+  }
+
+  const values: number[] = []
+  const colors: Color[] = []
+  data.forEach((entry: unknown, index) => {
+    // Pairs have a value and a color; colors themselves are lists of numbers.
+    const isPair =
+      Array.isArray(entry) && entry.length === 2 && typeof entry[1] !== 'number'
+    const value: unknown = isPair
+      ? entry[0]
+      : data.length > 1
+        ? index / (data.length - 1)
+        : 0
+    if (typeof value !== 'number') {
+      throw new Error(`Invalid matplotlib colormap value "${String(value)}".`)
+    }
+    values.push(value)
+    colors.push(parseMatplotlibColor(isPair ? entry[1] : entry))
+  })
+  return new Colormap(values, colors)
+}
+
+/**
+ * Serialises a colormap as a matplotlib-style JSON list of `[value, color]`
+ * pairs, with colors as lists of red, green and blue in [0, 1]. Colors that
+ * are not opaque also include alpha.
+ *
+ * Values are normalised to [0, 1], as matplotlib requires, so the colormap
+ * can be loaded with `LinearSegmentedColormap.from_list`.
+ *
+ * @param colormap colormap to serialise.
+ * @returns JSON string with the list.
+ */
+export function toMatplotlibJson(colormap: Colormap): string {
+  const entries = colormap.values.map((value, index) => {
+    const position =
+      colormap.range === 0 ? 0 : (value - colormap.start) / colormap.range
+    const color = colormap.colors[index]!
+    const components = [color.r / 255, color.g / 255, color.b / 255]
+    if (color.a < 1) components.push(color.a)
+    return [round(position), components.map(round)]
+  })
+  return JSON.stringify(entries)
+}
+
+/**
+ * Parses a colormap from the `ColorMapEntry` elements of an SLD or SE
+ * `ColorMap`.
+ *
+ * Entries should have a `color` and a `quantity` attribute, and may have an
+ * `opacity` attribute. The type of the color map (ramp, intervals or values)
+ * is ignored; all colormaps are interpolated linearly.
+ *
+ * @param xml SLD document or `ColorMap` element.
+ * @returns colormap with the colors of the entries.
+ */
+export function parseSldColorMap(xml: string): Colormap {
+  const values: number[] = []
+  const colors: Color[] = []
+  const pattern = /<(?:\w+:)?ColorMapEntry\b([^>]*?)\/?>/g
+  for (const match of xml.matchAll(pattern)) {
+    const attributes = parseXmlAttributes(match[1] ?? '')
+    const color = attributes['color']
+    const quantity = attributes['quantity']
+    if (color === undefined || quantity === undefined) {
+      throw new Error(
+        'SLD ColorMapEntry should have a "color" and a "quantity" attribute.'
+      )
+    }
+    const parsed = Color.fromCss(color)
+    if (attributes['opacity'] !== undefined) {
+      parsed.a *= parseValue(attributes['opacity'])
+    }
+    values.push(parseValue(quantity))
+    colors.push(parsed)
+  }
+  if (values.length === 0) {
+    throw new Error('SLD contains no ColorMapEntry elements.')
+  }
+  return new Colormap(values, colors)
+}
+
+/**
+ * Serialises a colormap as an SLD `ColorMap` element.
+ *
+ * @param colormap colormap to serialise.
+ * @returns `ColorMap` element with a `ColorMapEntry` for each point.
+ */
+export function toSldColorMap(colormap: Colormap): string {
+  const entries = colormap.values.map((value, index) => {
+    const color = colormap.colors[index]!
+    const opacity = color.a < 1 ? ` opacity="${round(color.a)}"` : ''
+    return `  <ColorMapEntry color="${formatHex(color)}" quantity="${value}"${opacity}/>`
+  })
+  return ['<ColorMap>', ...entries, '</ColorMap>'].join('\n') + '\n'
+}
+
+function parseValue(value: string): number {
+  if (!isNumeric(value)) throw new Error(`Invalid colormap value "${value}".`)
+  return Number(value)
+}
+
+function isNumeric(value: string): boolean {
+  return value.trim() !== '' && !Number.isNaN(Number(value))
+}
+
+function parseCptColor(fields: string[]): Color {
+  // The transparency in percent is appended to the last field, e.g. `0@50`.
+  const [last, transparency] = fields[fields.length - 1]!.split('@')
+  const color = parseCptColorFields([...fields.slice(0, -1), last!])
+  if (transparency !== undefined) {
+    color.a = 1 - parseValue(transparency) / 100
+  }
+  return color
+}
+
+function parseCptColorFields(fields: string[]): Color {
+  if (fields.length === 3) return parseRgbFields(fields, fields.join(' '))
+  const field = fields[0]!
+  if (field.includes('/')) return parseRgbFields(field.split('/'), field)
+  if (field.includes('-') && !field.startsWith('-')) {
+    throw new Error(`Unsupported CPT color "${field}"; use RGB colors.`)
+  }
+  if (isNumeric(field)) {
+    const grey = Number(field)
+    return new Color(grey, grey, grey)
+  }
+  return Color.fromCss(field)
+}
+
+// Parses red, green and blue, and optionally alpha, all in [0, 255].
+function parseRgbFields(fields: string[], description: string): Color {
+  if (fields.length < 3 || fields.length > 4 || !fields.every(isNumeric)) {
+    throw new Error(`Invalid RGB color "${description}".`)
+  }
+  const [r, g, b, a = 255] = fields.map(Number)
+  return new Color(r!, g!, b!, a / 255)
+}
+
+function parseMatplotlibColor(color: unknown): Color {
+  if (typeof color === 'string') return Color.fromCss(color)
+  if (
+    Array.isArray(color) &&
+    (color.length === 3 || color.length === 4) &&
+    color.every(component => typeof component === 'number')
+  ) {
+    const [r, g, b, a = 1] = color as number[]
+    return new Color(r! * 255, g! * 255, b! * 255, a)
+  }
+  throw new Error(`Invalid matplotlib color ${JSON.stringify(color)}.`)
+}
+
+function formatRgb(color: Color, separator: string): string {
+  return [color.r, color.g, color.b]
+    .map(component => Math.round(component))
+    .join(separator)
+}
+
+function formatCptColor(color: Color): string {
+  const transparency = Math.round((1 - color.a) * 100)
+  const rgb = formatRgb(color, '/')
+  return transparency > 0 ? `${rgb}@${transparency}` : rgb
+}
+
+function formatHex(color: Color): string {
+  const components = [color.r, color.g, color.b].map(component =>
+    Math.round(Math.min(Math.max(component, 0), 255))
+      .toString(16)
+      .padStart(2, '0')
+  )
+  return `#${components.join('')}`
+}
+
+function parseXmlAttributes(attributes: string): Record<string, string> {
+  const result: Record<string, string> = {}
+  for (const match of attributes.matchAll(/([\w:-]+)\s*=\s*(["'])(.*?)\2/g)) {
+    result[match[1]!] = match[3]!
+  }
+  return result
+}
+
+function round(value: number): number {
+  return Math.round(value * 10000) / 10000
+}
@@ -1,29 +1,51 @@
+import { parseCssColor } from './css-colors'
 import { createTexture } from './textures'
 
 /**
- * An RGB color.
+ * An RGB color with an alpha channel.
+ *
+ * Red, green and blue are in [0, 255], alpha is in [0, 1], where 0 is fully
+ * transparent.
  */
 export class Color {
   r: number
   g: number
   b: number
+  a: number
 
-  constructor(r: number, g: number, b: number) {
+  constructor(r: number, g: number, b: number, a = 1) {
     this.r = r
     this.g = g
     this.b = b
+    this.a = a
   }
 
   /**
    * Parses a color from a hexadecimal color string.
+   *
+   * Both the long (`#rrggbb`, `#rrggbbaa`) and the short (`#rgb`, `#rgba`)
+   * notation are supported, with an optional alpha component.
+   *
    * @param hex hexadecimal color string.
    * @returns color parsed from the hexadecimal color string.
    */
   static fromHex(hex: string): Color {
-    const r = Number.parseInt(hex.substring(1, 3), 16)
-    const g = Number.parseInt(hex.substring(3, 5), 16)
-    const b = Number.parseInt(hex.substring(5, 7), 16)
-    return new Color(r, g, b)
+    if (!hex.trim().startsWith('#')) {
+      throw new Error(`Invalid hexadecimal color "${hex}".`)
+    }
+    return Color.fromCss(hex)
+  }
+
+  /**
+   * Parses a color from a CSS color string, e.g. `#00ff00`, `rgb(0 255 0)`,
+   * `hsl(120 100% 50% / 0.5)` or `lime`.
+   *
+   * @param css CSS color string.
+   * @returns color parsed from the CSS color string.
+   */
+  static fromCss(css: string): Color {
+    const [r, g, b, a] = parseCssColor(css)
+    return new Color(r, g, b, a)
   }
 }
 
@@ -33,8 +55,10 @@ export class Color {
  * Its values may be non-uniformly spaced.
  */
 export class Colormap {
-  private readonly values: number[]
-  private readonly colors: Color[]
+  /** Values of the colormap points, in ascending order. */
+  readonly values: number[]
+  /** Colors of the colormap points. */
+  readonly colors: Color[]
 
   constructor(values: number[], colors: Color[]) {
     if (values.length !== colors.length) {
@@ -72,6 +96,24 @@ export class Colormap {
     return this.end - this.start
   }
 
+  /**
+   * Rescales the colormap linearly to a new range of values, keeping the
+   * relative spacing of its values.
+   *
+   * @param start new start value.
+   * @param end new end value.
+   * @returns rescaled colormap.
+   */
+  rescale(start: number, end: number): Colormap {
+    if (this.range === 0) {
+      throw new Error('Cannot rescale a colormap with a range of zero.')
+    }
+    const values = this.values.map(
+      value => start + ((value - this.start) / this.range) * (end - start)
+    )
+    return new Colormap(values, this.colors)
+  }
+
   /**
    * Creates a 1D texture from this colormap.
    *
@@ -80,20 +122,20 @@ export class Colormap {
    * spaced texture, from the colormap's start to its end.
    *
    * @param numPoints number of points in the texture.
-   * @returns Colour map as a WebGL texture (note: not RGBA).
+   * @returns Colour map as an RGBA WebGL texture.
    */
   toTexture(gl: WebGL2RenderingContext, numPoints: number): WebGLTexture {
     const colormapTexture = createTexture(
       gl,
       gl.LINEAR,
-      this.to1DRGBTextureData(numPoints),
+      this.to1DRGBATextureData(numPoints),
       numPoints,
       1
     )
     return colormapTexture
   }
 
-  private to1DRGBTextureData(numPoints: number): Uint8Array {
+  private to1DRGBATextureData(numPoints: number): Uint8Array {
     if (this.colors.length === 0 || this.values.length === 0) {
       return new Uint8Array()
     }
@@ -101,7 +143,7 @@ export class Colormap {
     // Uniform step size between start and end for the texture data.
     const step = this.range / (numPoints - 1)
 
-    const data = new Uint8Array(3 * numPoints)
+    const data = new Uint8Array(4 * numPoints)
     for (let i = 0; i < numPoints; i++) {
       let color: Color
       if (i == 0) {
@@ -124,15 +166,17 @@ export class Colormap {
         color = new Color(
           colorPrev.r * weightPrev + colorNext.r * weightNext,
           colorPrev.g * weightPrev + colorNext.g * weightNext,
-          colorPrev.b * weightPrev + colorNext.b * weightNext
+          colorPrev.b * weightPrev + colorNext.b * weightNext,
+          colorPrev.a * weightPrev + colorNext.a * weightNext
         )
       }
 
-      // Set the RGB values for this point, smallest stride is RGB.
-      const index = 3 * i
+      // Set the RGBA values for this point, smallest stride is RGBA.
+      const index = 4 * i
       data[index] = color.r
       data[index + 1] = color.g
       data[index + 2] = color.b
+      data[index + 3] = Math.round(color.a * 255)
     }
 
     return data
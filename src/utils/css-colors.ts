@@ -0,0 +1,268 @@
+/**
+ * RGBA components of a color, with red, green and blue in [0, 255] and alpha
+ * in [0, 1].
+ */
+export type RGBA = [number, number, number, number]
+
+// Named colors of CSS Color Module Level 4.
+const NAMED_COLORS: Record<string, string> = {
+  aliceblue: '#f0f8ff',
+  antiquewhite: '#faebd7',
+  aqua: '#00ffff',
+  aquamarine: '#7fffd4',
+  azure: '#f0ffff',
+  beige: '#f5f5dc',
+  bisque: '#ffe4c4',
+  black: '#000000',
+  blanchedalmond: '#ffebcd',
+  blue: '#0000ff',
+  blueviolet: '#8a2be2',
+  brown: '#a52a2a',
+  burlywood: '#deb887',
+  cadetblue: '#5f9ea0',
+  chartreuse: '#7fff00',
+  chocolate: '#d2691e',
+  coral: '#ff7f50',
+  cornflowerblue: '#6495ed',
+  cornsilk: '#fff8dc',
+  crimson: '#dc143c',
+  cyan: '#00ffff',
+  darkblue: '#00008b',
+  darkcyan: '#008b8b',
+  darkgoldenrod: '#b8860b',
+  darkgray: '#a9a9a9',
+  darkgreen: '#006400',
+  darkgrey: '#a9a9a9',
+  darkkhaki: '#bdb76b',
+  darkmagenta: '#8b008b',
+  darkolivegreen: '#556b2f',
+  darkorange: '#ff8c00',
+  darkorchid: '#9932cc',
+  darkred: '#8b0000',
+  darksalmon: '#e9967a',
+  darkseagreen: '#8fbc8f',
+  darkslateblue: '#483d8b',
+  darkslategray: '#2f4f4f',
+  darkslategrey: '#2f4f4f',
+  darkturquoise: '#00ced1',
+  darkviolet: '#9400d3',
+  deeppink: '#ff1493',
+  deepskyblue: '#00bfff',
+  dimgray: '#696969',
+  dimgrey: '#696969',
+  dodgerblue: '#1e90ff',
+  firebrick: '#b22222',
+  floralwhite: '#fffaf0',
+  forestgreen: '#228b22',
+  fuchsia: '#ff00ff',
+  gainsboro: '#dcdcdc',
+  ghostwhite: '#f8f8ff',
+  gold: '#ffd700',
+  goldenrod: '#daa520',
+  gray: '#808080',
+  green: '#008000',
+  greenyellow: '#adff2f',
+  grey: '#808080',
+  honeydew: '#f0fff0',
+  hotpink: '#ff69b4',
+  indianred: '#cd5c5c',
+  indigo: '#4b0082',
+  ivory: '#fffff0',
+  khaki: '#f0e68c',
+  lavender: '#e6e6fa',
+  lavenderblush: '#fff0f5',
+  lawngreen: '#7cfc00',
+  lemonchiffon: '#fffacd',
+  lightblue: '#add8e6',
+  lightcoral: '#f08080',
+  lightcyan: '#e0ffff',
+  lightgoldenrodyellow: '#fafad2',
+  lightgray: '#d3d3d3',
+  lightgreen: '#90ee90',
+  lightgrey: '#d3d3d3',
+  lightpink: '#ffb6c1',
+  lightsalmon: '#ffa07a',
+  lightseagreen: '#20b2aa',
+  lightskyblue: '#87cefa',
+  lightslategray: '#778899',
+  lightslategrey: '#778899',
+  lightsteelblue: '#b0c4de',
+  lightyellow: '#ffffe0',
+  lime: '#00ff00',
+  limegreen: '#32cd32',
+  linen: '#faf0e6',
+  magenta: '#ff00ff',
+  maroon: '#800000',
+  mediumaquamarine: '#66cdaa',
+  mediumblue: '#0000cd',
+  mediumorchid: '#ba55d3',
+  mediumpurple: '#9370db',
+  mediumseagreen: '#3cb371',
+  mediumslateblue: '#7b68ee',
+  mediumspringgreen: '#00fa9a',
+  mediumturquoise: '#48d1cc',
+  mediumvioletred: '#c71585',
+  midnightblue: '#191970',
+  mintcream: '#f5fffa',
+  mistyrose: '#ffe4e1',
+  moccasin: '#ffe4b5',
+  navajowhite: '#ffdead',
+  navy: '#000080',
+  oldlace: '#fdf5e6',
+  olive: '#808000',
+  olivedrab: '#6b8e23',
+  orange: '#ffa500',
+  orangered: '#ff4500',
+  orchid: '#da70d6',
+  palegoldenrod: '#eee8aa',
+  palegreen: '#98fb98',
+  paleturquoise: '#afeeee',
+  palevioletred: '#db7093',
+  papayawhip: '#ffefd5',
+  peachpuff: '#ffdab9',
+  peru: '#cd853f',
+  pink: '#ffc0cb',
+  plum: '#dda0dd',
+  powderblue: '#b0e0e6',
+  purple: '#800080',
+  rebeccapurple: '#663399',
+  red: '#ff0000',
+  rosybrown: '#bc8f8f',
+  royalblue: '#4169e1',
+  saddlebrown: '#8b4513',
+  salmon: '#fa8072',
+  sandybrown: '#f4a460',
+  seagreen: '#2e8b57',
+  seashell: '#fff5ee',
+  sienna: '#a0522d',
+  silver: '#c0c0c0',
+  skyblue: '#87ceeb',
+  slateblue: '#6a5acd',
+  slategray: '#708090',
+  slategrey: '#708090',
+  snow: '#fffafa',
+  springgreen: '#00ff7f',
+  steelblue: '#4682b4',
+  tan: '#d2b48c',
+  teal: '#008080',
+  thistle: '#d8bfd8',
+  tomato: '#ff6347',
+  turquoise: '#40e0d0',
+  violet: '#ee82ee',
+  wheat: '#f5deb3',
+  white: '#ffffff',
+  whitesmoke: '#f5f5f5',
+  yellow: '#ffff00',
+  yellowgreen: '#9acd32'
+}
+
+/**
+ * Parses a CSS color string.
+ *
+ * Supported are hexadecimal colors (`#rgb`, `#rgba`, `#rrggbb` and
+ * `#rrggbbaa`), the `rgb()`, `rgba()`, `hsl()` and `hsla()` functions in both
+ * the comma-separated and the space-separated syntax, named colors and
+ * `transparent`.
+ *
+ * @param css CSS color string.
+ * @returns RGBA components of the color.
+ */
+export function parseCssColor(css: string): RGBA {
+  const color = css.trim().toLowerCase()
+  if (color === 'transparent') return [0, 0, 0, 0]
+
+  const named = NAMED_COLORS[color]
+  if (named) return parseHexColor(named)
+  if (color.startsWith('#')) return parseHexColor(color)
+
+  const match = /^(rgba?|hsla?)\((.*)\)$/.exec(color)
+  if (match) {
+    const args = match[2]!.trim().split(/\s*[\s,/]\s*/)
+    if (args.length === 3 || args.length === 4) {
+      const alpha = args[3] === undefined ? 1 : parseAlpha(args[3])
+      if (match[1]!.startsWith('rgb')) {
+        const [r, g, b] = args.map(parseRgbComponent)
+        return [r!, g!, b!, alpha]
+      }
+      const [h, s, l] = [
+        parseHue(args[0]!),
+        parsePercentage(args[1]!),
+        parsePercentage(args[2]!)
+      ]
+      return [...hslToRgb(h, s, l), alpha]
+    }
+  }
+  throw new Error(`Invalid CSS color "${css}".`)
+}
+
+function parseHexColor(hex: string): RGBA {
+  if (!/^#([0-9a-f]{3,4}|[0-9a-f]{6}|[0-9a-f]{8})$/i.test(hex)) {
+    throw new Error(`Invalid hexadecimal color "${hex}".`)
+  }
+  const digits = hex.substring(1)
+  // Short notation has one digit per component, which is repeated.
+  const size = digits.length <= 4 ? 1 : 2
+  const components: number[] = []
+  for (let i = 0; i < digits.length; i += size) {
+    const component = digits.substring(i, i + size)
+    components.push(
+      Number.parseInt(size === 1 ? component + component : component, 16)
+    )
+  }
+  const [r, g, b, a = 255] = components
+  return [r!, g!, b!, a / 255]
+}
+
+function parseNumber(value: string): number {
+  const number = Number(value)
+  if (value === '' || Number.isNaN(number)) {
+    throw new Error(`Invalid number "${value}" in CSS color.`)
+  }
+  return number
+}
+
+function parseRgbComponent(value: string): number {
+  const number = value.endsWith('%')
+    ? parseNumber(value.slice(0, -1)) * 2.55
+    : parseNumber(value)
+  return Math.round(clamp(number, 0, 255))
+}
+
+function parseAlpha(value: string): number {
+  const alpha = value.endsWith('%')
+    ? parseNumber(value.slice(0, -1)) / 100
+    : parseNumber(value)
+  return clamp(alpha, 0, 1)
+}
+
+function parsePercentage(value: string): number {
+  // Space-separated syntax allows percentages without a percent sign.
+  const number = parseNumber(value.endsWith('%') ? value.slice(0, -1) : value)
+  return clamp(number / 100, 0, 1)
+}
+
+// Returns the hue in degrees, in [0, 360).
+function parseHue(value: string): number {
+  const match = /^(.*?)(deg|grad|rad|turn)?$/.exec(value)!
+  const number = parseNumber(match[1]!)
+  let degrees = number
+  if (match[2] === 'grad') degrees = number * 0.9
+  else if (match[2] === 'rad') degrees = (number * 180) / Math.PI
+  else if (match[2] === 'turn') degrees = number * 360
+  return ((degrees % 360) + 360) % 360
+}
+
+// Converts hue in degrees, and saturation and lightness in [0, 1] to RGB.
+function hslToRgb(h: number, s: number, l: number): [number, number, number] {
+  const chroma = s * Math.min(l, 1 - l)
+  const component = (n: number) => {
+    const k = (n + h / 30) % 12
+    const value = l - chroma * Math.max(-1, Math.min(k - 3, 9 - k, 1))
+    return Math.round(value * 255)
+  }
+  return [component(0), component(8), component(4)]
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(Math.max(value, min), max)
+}
@@ -0,0 +1,191 @@
+/**
+ * Base class of errors that occur when fetching velocity fields, colormaps or
+ * metadata.
+ */
+export class FetchError extends Error {
+  /** URL of the failed request, if known. */
+  readonly url: string | null
+
+  constructor(message: string, url: string | null = null) {
+    super(message)
+    this.name = 'FetchError'
+    // Responses that were not created by fetch have an empty URL.
+    this.url = url || null
+  }
+}
+
+/**
+ * The server responded with an unsuccessful HTTP status.
+ */
+export class HttpError extends FetchError {
+  readonly status: number
+  readonly statusText: string
+
+  constructor(status: number, statusText: string, url: string | null = null) {
+    const statusString = statusText ? `${status} ${statusText}` : `${status}`
+    super(`Request failed with HTTP status ${statusString}.`, url)
+    this.name = 'HttpError'
+    this.status = status
+    this.statusText = statusText
+  }
+}
+
+/**
+ * The WMS service responded with a ServiceException, either as XML or as JSON.
+ */
+export class ServiceExceptionError extends FetchError {
+  /** Exception code, e.g. "LayerNotDefined", if specified. */
+  readonly code: string | null
+  /** HTTP status of the response with the exception. */
+  readonly status: number
+
+  constructor(
+    message: string,
+    code: string | null,
+    status: number,
+    url: string | null = null
+  ) {
+    super(code ? `WMS ServiceException (${code}): ${message}` : message, url)
+    this.name = 'ServiceExceptionError'
+    this.code = code
+    this.status = status
+  }
+}
+
+/**
+ * The request failed without a response, e.g. because the server could not be
+ * reached.
+ */
+export class NetworkError extends FetchError {
+  /** Error that was thrown by `fetch`. */
+  readonly cause: unknown
+
+  constructor(cause: unknown, url: string | null = null) {
+    super(`Request failed: ${String(cause)}.`, url)
+    this.name = 'NetworkError'
+    this.cause = cause
+  }
+}
+
+/**
+ * The response could not be read as a GeoTIFF, or the GeoTIFF does not contain
+ * the expected data.
+ */
+export class MalformedGeoTiffError extends FetchError {
+  constructor(message: string, url: string | null = null) {
+    super(message, url)
+    this.name = 'MalformedGeoTiffError'
+  }
+}
+
+/**
+ * The response did not contain any image data.
+ */
+export class EmptyImageError extends FetchError {
+  constructor(url: string | null = null) {
+    super('Received an empty image.', url)
+    this.name = 'EmptyImageError'
+  }
+}
+
+/**
+ * The request was aborted, e.g. because a newer request superseded it.
+ */
+export class AbortedError extends FetchError {
+  constructor(url: string | null = null) {
+    super('Request was aborted.', url)
+    this.name = 'AbortedError'
+  }
+}
+
+/**
+ * Whether an error is likely to be transient, so the request may succeed when
+ * it is retried: network errors and server errors (5xx).
+ *
+ * @param error error to check.
+ * @returns whether the error is transient.
+ */
+export function isTransientError(error: unknown): boolean {
+  if (error instanceof NetworkError) return true
+  if (error instanceof HttpError || error instanceof ServiceExceptionError) {
+    return error.status >= 500
+  }
+  return false
+}
+
+/**
+ * Parses a WMS ServiceException from a response body, in XML or JSON.
+ *
+ * XML exceptions follow the OGC ServiceExceptionReport schema. For JSON, an
+ * equivalent `ServiceExceptionReport` object is accepted, as well as objects
+ * with an `errors`, `error` or `message` property.
+ *
+ * @param body response body.
+ * @returns message and code of the first exception, or null if the body does
+ *   not contain an exception.
+ */
+export function parseServiceException(
+  body: string
+): { message: string; code: string | null } | null {
+  const trimmed = body.trim()
+  if (trimmed.startsWith('<')) return parseXmlServiceException(trimmed)
+  if (trimmed.startsWith('{')) {
+    try {
+      return parseJsonServiceException(JSON.parse(trimmed) as unknown)
+    } catch {
+      return null
+    }
+  }
+  return null
+}
+
+function parseXmlServiceException(
+  body: string
+): { message: string; code: string | null } | null {
+  const match =
+    /<(?:\w+:)?ServiceException\b([^>]*)>([\s\S]*?)<\/(?:\w+:)?ServiceException>/.exec(
+      body
+    )
+  if (!match) return null
+  const attributes = match[1] ?? ''
+  const code = /\bcode\s*=\s*["']([^"']*)["']/.exec(attributes)?.[1] ?? null
+  const message = decodeXmlEntities(
+    (match[2] ?? '').replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, '$1').trim()
+  )
+  return { message, code }
+}
+
+function parseJsonServiceException(
+  data: unknown
+): { message: string; code: string | null } | null {
+  if (typeof data !== 'object' || data === null) return null
+  const object = data as Record<string, unknown>
+
+  const report = object['ServiceExceptionReport'] as
+    Record<string, unknown> | undefined
+  const exceptions = report?.['ServiceException'] ?? object['errors']
+  const exception = Array.isArray(exceptions) ? exceptions[0] : exceptions
+  if (typeof exception === 'string') return { message: exception, code: null }
+  if (typeof exception === 'object' && exception !== null) {
+    const fields = exception as Record<string, unknown>
+    const message =
+      fields['message'] ?? fields['text'] ?? fields['value'] ?? fields['#text']
+    const code = fields['code']
+    if (typeof message === 'string') {
+      return { message, code: typeof code === 'string' ? code : null }
+    }
+  }
+
+  const message = object['error'] ?? object['message']
+  if (typeof message === 'string') return { message, code: null }
+  return null
+}
+
+function decodeXmlEntities(text: string): string {
+  return text
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&')
+}
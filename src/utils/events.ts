@@ -0,0 +1,113 @@
+/**
+ * Listener for an event with a payload of the specified type; events without
+ * a payload have a payload of type `void`.
+ */
+export type EventCallback<T> = (event: T) => void
+
+/**
+ * Arguments for emitting an event: nothing for events without a payload, and
+ * the payload otherwise.
+ */
+type EventArgs<T> = [T] extends [void] ? [] : [T]
+
+/**
+ * Emitter of typed events, with any number of listeners per event.
+ *
+ * The event map maps each event type to the type of its payload, e.g.
+ * `{ 'time-changed': { time: Date }; initialised: void }`.
+ */
+export class EventEmitter<EventMap extends object> {
+  private readonly listeners: Map<keyof EventMap, Set<EventCallback<never>>>
+  // Wrapped listeners of `once`, so they can be removed with `off`.
+  private readonly onceListeners: WeakMap<
+    EventCallback<never>,
+    EventCallback<never>
+  >
+
+  constructor() {
+    this.listeners = new Map()
+    this.onceListeners = new WeakMap()
+  }
+
+  /**
+   * Adds a listener for an event; adding the same listener again has no
+   * effect.
+   *
+   * @param type type of the event.
+   * @param listener function to call with the payload of the event.
+   */
+  on<K extends keyof EventMap>(
+    type: K,
+    listener: EventCallback<EventMap[K]>
+  ): void {
+    let listeners = this.listeners.get(type)
+    if (!listeners) {
+      listeners = new Set()
+      this.listeners.set(type, listeners)
+    }
+    listeners.add(listener)
+  }
+
+  /**
+   * Removes a listener for an event.
+   *
+   * @param type type of the event.
+   * @param listener listener that was added with `on` or `once`.
+   */
+  off<K extends keyof EventMap>(
+    type: K,
+    listener: EventCallback<EventMap[K]>
+  ): void {
+    this.listeners.get(type)?.delete(listener)
+    // Listeners added with `once` are wrapped.
+    const wrapped = this.onceListeners.get(listener)
+    if (wrapped) this.listeners.get(type)?.delete(wrapped)
+  }
+
+  /**
+   * Adds a listener that is removed after the next event of this type.
+   *
+   * @param type type of the event.
+   * @param listener function to call with the payload of the event.
+   */
+  once<K extends keyof EventMap>(
+    type: K,
+    listener: EventCallback<EventMap[K]>
+  ): void {
+    const wrapped: EventCallback<EventMap[K]> = event => {
+      this.off(type, listener)
+      listener(event)
+    }
+    this.onceListeners.set(listener, wrapped)
+    this.on(type, wrapped)
+  }
+
+  /**
+   * Calls the listeners for an event. Errors thrown by listeners are rethrown
+   * in a microtask, so they reach the usual unhandled error handling without
+   * affecting the emitter or the other listeners.
+   *
+   * @param type type of the event.
+   * @param args payload of the event, if any.
+   */
+  emit<K extends keyof EventMap>(type: K, ...args: EventArgs<EventMap[K]>) {
+    const listeners = this.listeners.get(type)
+    if (!listeners) return
+    const event = args[0] as EventMap[K]
+    // Copy the listeners, since listeners may remove themselves.
+    for (const listener of [...listeners] as EventCallback<EventMap[K]>[]) {
+      try {
+        listener(event)
+      } catch (error) {
+        queueMicrotask(() => {
+          throw error
+        })
+      }
+    }
+  }
+
+  /** Removes all listeners. */
+  clear(): void {
+    this.listeners.clear()
+  }
+}
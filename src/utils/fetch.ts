@@ -0,0 +1,129 @@
+import {
+  AbortedError,
+  FetchError,
+  HttpError,
+  NetworkError,
+  ServiceExceptionError,
+  isTransientError,
+  parseServiceException
+} from './errors'
+import type { TransformRequestFunction } from './wms'
+
+export interface RetryOptions {
+  /** Maximum number of retries after the first attempt; 0 by default. */
+  maxRetries?: number
+  /** Delay before the first retry in milliseconds; 500 ms by default. */
+  initialDelay?: number
+  /** Maximum delay between retries in milliseconds; 8 s by default. */
+  maxDelay?: number
+}
+
+const DEFAULT_INITIAL_DELAY = 500
+const DEFAULT_MAX_DELAY = 8000
+
+/**
+ * Fetches a request, throwing typed errors for unsuccessful responses.
+ *
+ * Unsuccessful responses with a WMS ServiceException result in a
+ * `ServiceExceptionError`, other unsuccessful responses in an `HttpError`.
+ * Requests that fail without a response result in a `NetworkError`, or an
+ * `AbortedError` if they were aborted. Transient failures (network errors and
+ * 5xx responses) are retried with exponential backoff if retries are enabled.
+ *
+ * @param request request to fetch.
+ * @param signal signal to abort the request, including any retries.
+ * @param transformRequest function to transform the request before it is sent.
+ * @param retry options for retrying transient failures.
+ * @returns successful response.
+ */
+export async function fetchWithRetry(
+  request: Request,
+  signal?: AbortSignal,
+  transformRequest?: TransformRequestFunction,
+  retry: RetryOptions = {}
+): Promise<Response> {
+  const transformedRequest = (await transformRequest?.(request)) ?? request
+  const maxRetries = retry.maxRetries ?? 0
+  const initialDelay = retry.initialDelay ?? DEFAULT_INITIAL_DELAY
+  const maxDelay = retry.maxDelay ?? DEFAULT_MAX_DELAY
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await fetchOnce(transformedRequest, signal)
+    } catch (error) {
+      if (attempt >= maxRetries || !isTransientError(error)) throw error
+    }
+    const delay = Math.min(initialDelay * 2 ** attempt, maxDelay)
+    await wait(delay, signal, transformedRequest.url)
+  }
+}
+
+/**
+ * Reads the body of a response, throwing a `FetchError` if it cannot be read,
+ * or an `AbortedError` if reading was aborted.
+ *
+ * @param response response to read.
+ * @param signal signal that aborts reading the response.
+ * @param read function that reads the body, e.g. as an array buffer.
+ * @returns body of the response.
+ */
+export async function readResponse<T>(
+  response: Response,
+  signal: AbortSignal | undefined,
+  read: (response: Response) => Promise<T>
+): Promise<T> {
+  try {
+    return await read(response)
+  } catch (error) {
+    if (signal?.aborted) throw new AbortedError(response.url)
+    throw new FetchError(
+      `Failed to read response: ${String(error)}.`,
+      response.url
+    )
+  }
+}
+
+async function fetchOnce(
+  request: Request,
+  signal?: AbortSignal
+): Promise<Response> {
+  let response: Response
+  try {
+    response = await fetch(new Request(request, { signal }))
+  } catch (error) {
+    if (signal?.aborted) throw new AbortedError(request.url)
+    throw new NetworkError(error, request.url)
+  }
+  if (response.ok) return response
+
+  const body = await response.text().catch(() => '')
+  const exception = parseServiceException(body)
+  if (exception) {
+    throw new ServiceExceptionError(
+      exception.message,
+      exception.code,
+      response.status,
+      request.url
+    )
+  }
+  throw new HttpError(response.status, response.statusText, request.url)
+}
+
+function wait(
+  delay: number,
+  signal: AbortSignal | undefined,
+  url: string
+): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(new AbortedError(url))
+    const onAbort = () => {
+      globalThis.clearTimeout(timeout)
+      reject(new AbortedError(url))
+    }
+    const timeout = globalThis.setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort)
+      resolve()
+    }, delay)
+    signal?.addEventListener('abort', onAbort, { once: true })
+  })
+}
@@ -0,0 +1,264 @@
+import * as GeoTIFF from 'geotiff'
+
+import { AbortedError, MalformedGeoTiffError } from './errors'
+import { type RetryOptions, fetchWithRetry, readResponse } from './fetch'
+import type { TransformRequestFunction } from './wms'
+import {
+  type FloatTextureFormat,
+  type GeoreferencedVelocityImage,
+  VelocityImage
+} from './velocity-image'
+
+export interface GeoTiffVelocityFieldOptions {
+  /** Index of the band with the U-component; 0 by default. */
+  uBand?: number
+  /** Index of the band with the V-component; 1 by default. */
+  vBand?: number
+  /** Precision of the velocity texture. */
+  floatFormat?: FloatTextureFormat
+}
+
+interface GeoTiffMetadata {
+  BitsPerSample?: number[]
+  SampleFormat?: number[]
+  ModelTiepoint?: number[]
+  ModelPixelScale?: number[]
+  ModelTransformation?: number[]
+}
+
+interface GDALBandMetadata {
+  SCALE?: string
+  OFFSET?: string
+}
+
+// Values of the TIFF SampleFormat tag.
+const SAMPLE_FORMAT_UINT = 1
+const SAMPLE_FORMAT_INT = 2
+const SAMPLE_FORMAT_FLOAT = 3
+
+// Value of the GTRasterTypeGeoKey for rasters whose georeferencing refers to
+// pixel centres.
+const RASTER_PIXEL_IS_POINT = 2
+
+/**
+ * Fetches a velocity field from a GeoTIFF with separate U- and V-bands.
+ * Failed requests throw subclasses of `FetchError`, as for the WMS fetches.
+ *
+ * @param url URL of the GeoTIFF.
+ * @param options options for selecting the velocity bands.
+ * @param signal signal to abort the request.
+ * @param transformRequest function to transform the request before it is sent.
+ * @param retry options for retrying transient failures.
+ * @returns velocity image with the extent of the GeoTIFF.
+ */
+export async function fetchGDALGeoTiffVelocityField(
+  url: URL,
+  options: GeoTiffVelocityFieldOptions = {},
+  signal?: AbortSignal,
+  transformRequest?: TransformRequestFunction,
+  retry?: RetryOptions
+): Promise<GeoreferencedVelocityImage> {
+  const response = await fetchWithRetry(
+    new Request(url),
+    signal,
+    transformRequest,
+    retry
+  )
+  const arrayBuffer = await readResponse(response, signal, response =>
+    response.arrayBuffer()
+  )
+  return readGDALGeoTiffVelocityField(arrayBuffer, options, signal)
+}
+
+/**
+ * Reads a velocity field from a GeoTIFF with separate U- and V-bands, as
+ * written by e.g. GDAL.
+ *
+ * Unlike the GeoTIFFs from the FEWS WMS service, the georeferencing tags are
+ * used as such: the geotransform determines the extent of the image, in the
+ * coordinate reference system of the GeoTIFF. The bands may contain
+ * floating-point or 16-bit integer values; pixels equal to the GDAL no-data
+ * value are treated as missing, and the GDAL scale and offset metadata of each
+ * band are applied. GeoTIFFs that cannot be read, or that do not contain
+ * the expected bands and georeferencing, throw a `MalformedGeoTiffError`.
+ *
+ * @param buffer contents of the GeoTIFF.
+ * @param options options for selecting the velocity bands.
+ * @param signal signal to abort reading the rasters.
+ * @returns velocity image with the extent of the GeoTIFF.
+ */
+export async function readGDALGeoTiffVelocityField(
+  buffer: ArrayBuffer,
+  options: GeoTiffVelocityFieldOptions = {},
+  signal?: AbortSignal
+): Promise<GeoreferencedVelocityImage> {
+  const uBand = options.uBand ?? 0
+  const vBand = options.vBand ?? 1
+
+  let image: GeoTIFF.GeoTIFFImage
+  try {
+    const tiff = await GeoTIFF.fromArrayBuffer(buffer, signal)
+    image = await tiff.getImage()
+  } catch (error) {
+    if (signal?.aborted) throw new AbortedError()
+    throw new MalformedGeoTiffError(`Failed to read GeoTIFF: ${String(error)}.`)
+  }
+  const fileDirectory = image.getFileDirectory() as GeoTiffMetadata
+
+  const numBands = image.getSamplesPerPixel()
+  for (const band of [uBand, vBand]) {
+    if (band < 0 || band >= numBands) {
+      throw new MalformedGeoTiffError(
+        `GeoTIFF band ${band} does not exist; the GeoTIFF has ${numBands} bands.`
+      )
+    }
+    assertSupportedSampleType(fileDirectory, band)
+  }
+
+  const width = image.getWidth()
+  const height = image.getHeight()
+  const transform = getGeoTransform(image, fileDirectory)
+
+  const noDataValue = image.getGDALNoData()
+  const rasters = (await image.readRasters({
+    samples: [uBand, vBand],
+    interleave: false,
+    signal
+  })) as unknown as ArrayLike<number>[]
+
+  const [u, v] = [uBand, vBand].map((band, i) => {
+    const metadata = image.getGDALMetadata(band) as GDALBandMetadata | null
+    const scale = metadata?.SCALE !== undefined ? +metadata.SCALE : 1
+    const offset = metadata?.OFFSET !== undefined ? +metadata.OFFSET : 0
+    return unpackBand(
+      rasters[i]!,
+      width,
+      height,
+      transform,
+      scale,
+      offset,
+      noDataValue
+    )
+  }) as [Float32Array, Float32Array]
+
+  const velocityImage = VelocityImage.fromComponents(u, v, width, height, {
+    floatFormat: options.floatFormat
+  })
+  return { velocityImage, boundingBox: transform.boundingBox }
+}
+
+interface GeoTransform {
+  boundingBox: [number, number, number, number]
+  // Whether the columns run from east to west.
+  flipX: boolean
+  // Whether the rows run from south to north.
+  flipY: boolean
+}
+
+function assertSupportedSampleType(
+  fileDirectory: GeoTiffMetadata,
+  band: number
+): void {
+  // The SampleFormat tag is optional and defaults to unsigned integers.
+  const format = fileDirectory.SampleFormat?.[band] ?? SAMPLE_FORMAT_UINT
+  const bits = fileDirectory.BitsPerSample?.[band]
+  const isFloat = format === SAMPLE_FORMAT_FLOAT && (bits === 32 || bits === 64)
+  const isInt16 =
+    (format === SAMPLE_FORMAT_INT || format === SAMPLE_FORMAT_UINT) &&
+    bits === 16
+  if (!isFloat && !isInt16) {
+    throw new MalformedGeoTiffError(
+      `GeoTIFF band ${band} does not contain floating-point or 16-bit integer values.`
+    )
+  }
+}
+
+function getGeoTransform(
+  image: GeoTIFF.GeoTIFFImage,
+  fileDirectory: GeoTiffMetadata
+): GeoTransform {
+  // Affine transform from pixel (column, row) to (x, y):
+  //   x = originX + column * resolutionX
+  //   y = originY + row * resolutionY
+  let originX: number
+  let originY: number
+  let resolutionX: number
+  let resolutionY: number
+  const transformation = fileDirectory.ModelTransformation
+  const tiepoint = fileDirectory.ModelTiepoint
+  const pixelScale = fileDirectory.ModelPixelScale
+  if (transformation) {
+    if (transformation[1] !== 0 || transformation[4] !== 0) {
+      throw new MalformedGeoTiffError('Rotated GeoTIFFs are not supported.')
+    }
+    originX = transformation[3]!
+    originY = transformation[7]!
+    resolutionX = transformation[0]!
+    resolutionY = transformation[5]!
+  } else if (tiepoint && pixelScale) {
+    const [column, row, , x, y] = tiepoint as [
+      number,
+      number,
+      number,
+      number,
+      number
+    ]
+    resolutionX = pixelScale[0]!
+    resolutionY = -pixelScale[1]!
+    originX = x - column * resolutionX
+    originY = y - row * resolutionY
+  } else {
+    throw new MalformedGeoTiffError('GeoTIFF does not contain a geotransform.')
+  }
+
+  // The extent of the image is defined by the pixel edges, so shift the origin
+  // by half a pixel if the geotransform refers to pixel centres.
+  const geoKeys = image.getGeoKeys() as { GTRasterTypeGeoKey?: number } | null
+  if (geoKeys?.GTRasterTypeGeoKey === RASTER_PIXEL_IS_POINT) {
+    originX -= resolutionX / 2
+    originY -= resolutionY / 2
+  }
+
+  const endX = originX + image.getWidth() * resolutionX
+  const endY = originY + image.getHeight() * resolutionY
+  return {
+    boundingBox: [
+      Math.min(originX, endX),
+      Math.min(originY, endY),
+      Math.max(originX, endX),
+      Math.max(originY, endY)
+    ],
+    flipX: resolutionX < 0,
+    flipY: resolutionY > 0
+  }
+}
+
+function unpackBand(
+  raster: ArrayLike<number>,
+  width: number,
+  height: number,
+  transform: GeoTransform,
+  scale: number,
+  offset: number,
+  noDataValue: number | null
+): Float32Array {
+  // Reorder the pixels such that rows run from north to south and columns
+  // from west to east, as expected by the velocity image.
+  const values = new Float32Array(width * height)
+  // Compare with the no-data value at the precision of the raster, since GDAL
+  // stores it as a decimal string.
+  const noData =
+    noDataValue !== null && raster instanceof Float32Array
+      ? Math.fround(noDataValue)
+      : noDataValue
+  for (let row = 0; row < height; row++) {
+    const sourceRow = transform.flipY ? height - 1 - row : row
+    for (let column = 0; column < width; column++) {
+      const sourceColumn = transform.flipX ? width - 1 - column : column
+      const value = raster[sourceRow * width + sourceColumn]!
+      values[row * width + column] =
+        value === noData ? NaN : value * scale + offset
+    }
+  }
+  return values
+}
@@ -0,0 +1,528 @@
+import { type RetryOptions, fetchWithRetry, readResponse } from './fetch'
+import type { TransformRequestFunction } from './wms'
+import {
+  type FloatTextureFormat,
+  type GeoreferencedVelocityImage,
+  VelocityImage
+} from './velocity-image'
+
+/**
+ * Fixed surface of a GRIB2 field, e.g. type 103 (height above ground) with a
+ * value of 10 for 10 m wind.
+ */
+export interface GRIB2Level {
+  type: number
+  value: number
+}
+
+export interface GRIB2VelocityFieldOptions {
+  /** Level to select the U- and V-fields for; the first level by default. */
+  level?: GRIB2Level
+  /** Valid time to select the U- and V-fields for; the first time by default. */
+  validTime?: Date
+  /** Precision of the velocity texture. */
+  floatFormat?: FloatTextureFormat
+}
+
+interface GRIB2Grid {
+  numPointsX: number
+  numPointsY: number
+  latitudeFirst: number
+  longitudeFirst: number
+  latitudeLast: number
+  longitudeLast: number
+  scanningMode: number
+}
+
+interface GRIB2Field {
+  discipline: number
+  category: number
+  parameter: number
+  level: GRIB2Level
+  validTime: Date
+  grid: GRIB2Grid
+  values: Float32Array
+}
+
+interface GRIB2Packing {
+  // Number of packed values.
+  numPoints: number
+  referenceValue: number
+  binaryScaleFactor: number
+  decimalScaleFactor: number
+  numBits: number
+}
+
+// Parameters for the U- and V-components of wind (discipline 0, category 2)
+// and ocean currents (discipline 10, category 1).
+const VELOCITY_PARAMETERS = [
+  { discipline: 0, category: 2, u: 2, v: 3 },
+  { discipline: 10, category: 1, u: 2, v: 3 }
+]
+
+// Scanning mode flags of the grid definition.
+const SCAN_NEGATIVE_I = 0x80
+const SCAN_POSITIVE_J = 0x40
+const SCAN_CONSECUTIVE_J = 0x20
+const SCAN_ALTERNATING_ROWS = 0x10
+
+// Missing values for 4-byte fields in the grid definition.
+const MISSING_UINT32 = 0xffffffff
+
+/**
+ * Fetches a GRIB2 file and reads a velocity field from it. Failed requests
+ * throw subclasses of `FetchError`, as for the WMS fetches.
+ *
+ * @param url URL of the GRIB2 file.
+ * @param options options for selecting the level and time.
+ * @param signal signal to abort the request.
+ * @param transformRequest optional function to transform the request.
+ * @param retry options for retrying transient failures.
+ * @returns velocity image with its geographic bounding box.
+ */
+export async function fetchGRIB2VelocityField(
+  url: URL,
+  options: GRIB2VelocityFieldOptions = {},
+  signal?: AbortSignal,
+  transformRequest?: TransformRequestFunction,
+  retry?: RetryOptions
+): Promise<GeoreferencedVelocityImage> {
+  const response = await fetchWithRetry(
+    new Request(url),
+    signal,
+    transformRequest,
+    retry
+  )
+  const arrayBuffer = await readResponse(response, signal, response =>
+    response.arrayBuffer()
+  )
+  return readGRIB2VelocityField(arrayBuffer, options)
+}
+
+/**
+ * Reads a velocity field from GRIB2 data by pairing U- and V-fields (e.g. UGRD
+ * and VGRD) with the same level and valid time.
+ *
+ * Only regular latitude/longitude grids (grid template 3.0), analysis or
+ * forecast products (product template 4.0) and simple packing (data
+ * representation template 5.0) are supported; other messages are skipped.
+ *
+ * @param buffer contents of a GRIB2 file, possibly with multiple messages.
+ * @param options options for selecting the level and time.
+ * @returns velocity image with its geographic bounding box.
+ */
+export function readGRIB2VelocityField(
+  buffer: ArrayBuffer,
+  options: GRIB2VelocityFieldOptions = {}
+): GeoreferencedVelocityImage {
+  const fields = decodeGRIB2Fields(buffer).filter(field => {
+    const isLevel =
+      !options.level ||
+      (field.level.type === options.level.type &&
+        field.level.value === options.level.value)
+    const isTime =
+      !options.validTime ||
+      field.validTime.getTime() === options.validTime.getTime()
+    return isLevel && isTime
+  })
+
+  for (const uField of fields) {
+    const parameters = VELOCITY_PARAMETERS.find(
+      entry =>
+        entry.discipline === uField.discipline &&
+        entry.category === uField.category &&
+        entry.u === uField.parameter
+    )
+    if (!parameters) continue
+
+    const vField = fields.find(
+      field =>
+        field.discipline === uField.discipline &&
+        field.category === uField.category &&
+        field.parameter === parameters.v &&
+        field.level.type === uField.level.type &&
+        field.level.value === uField.level.value &&
+        field.validTime.getTime() === uField.validTime.getTime()
+    )
+    if (!vField) continue
+    if (!isSameGrid(uField.grid, vField.grid)) {
+      throw new Error('U- and V-fields in GRIB2 data have different grids.')
+    }
+
+    return createGeoreferencedVelocityImage(uField, vField, options)
+  }
+  throw new Error(
+    'GRIB2 data contain no matching pair of U- and V-fields on a regular latitude/longitude grid.'
+  )
+}
+
+function createGeoreferencedVelocityImage(
+  uField: GRIB2Field,
+  vField: GRIB2Field,
+  options: GRIB2VelocityFieldOptions
+): GeoreferencedVelocityImage {
+  const grid = uField.grid
+  const width = grid.numPointsX
+  const height = grid.numPointsY
+
+  // Reorder the values such that the first row is northernmost and the first
+  // column is westernmost.
+  const isNegativeI = (grid.scanningMode & SCAN_NEGATIVE_I) !== 0
+  const isPositiveJ = (grid.scanningMode & SCAN_POSITIVE_J) !== 0
+  const isConsecutiveJ = (grid.scanningMode & SCAN_CONSECUTIVE_J) !== 0
+  const reorder = (values: Float32Array): Float32Array => {
+    const reordered = new Float32Array(width * height)
+    for (let row = 0; row < height; row++) {
+      const j = isPositiveJ ? height - 1 - row : row
+      for (let col = 0; col < width; col++) {
+        const i = isNegativeI ? width - 1 - col : col
+        const index = isConsecutiveJ ? i * height + j : j * width + i
+        reordered[row * width + col] = values[index]!
+      }
+    }
+    return reordered
+  }
+
+  const velocityImage = VelocityImage.fromComponents(
+    reorder(uField.values),
+    reorder(vField.values),
+    width,
+    height,
+    { floatFormat: options.floatFormat }
+  )
+  return { velocityImage, boundingBox: computeBoundingBox(grid) }
+}
+
+function computeBoundingBox(grid: GRIB2Grid): [number, number, number, number] {
+  let west = Math.min(grid.longitudeFirst, grid.longitudeLast)
+  let east = Math.max(grid.longitudeFirst, grid.longitudeLast)
+  // Grids may cross the prime meridian, e.g. from 350 to 10 degrees.
+  const isNegativeI = (grid.scanningMode & SCAN_NEGATIVE_I) !== 0
+  const isWrapped = isNegativeI
+    ? grid.longitudeLast > grid.longitudeFirst
+    : grid.longitudeLast < grid.longitudeFirst
+  if (isWrapped) {
+    west = Math.max(grid.longitudeFirst, grid.longitudeLast)
+    east = Math.min(grid.longitudeFirst, grid.longitudeLast) + 360
+  }
+  const south = Math.min(grid.latitudeFirst, grid.latitudeLast)
+  const north = Math.max(grid.latitudeFirst, grid.latitudeLast)
+
+  // Grid points are at cell centres, so extend the range by half a cell.
+  const dx = grid.numPointsX > 1 ? (east - west) / (grid.numPointsX - 1) : 0
+  const dy = grid.numPointsY > 1 ? (north - south) / (grid.numPointsY - 1) : 0
+  west -= 0.5 * dx
+  east += 0.5 * dx
+  // Use longitudes in the range [-180, 180) where possible.
+  if (west >= 180) {
+    west -= 360
+    east -= 360
+  }
+  return [west, south - 0.5 * dy, east, north + 0.5 * dy]
+}
+
+function isSameGrid(a: GRIB2Grid, b: GRIB2Grid): boolean {
+  return (
+    a.numPointsX === b.numPointsX &&
+    a.numPointsY === b.numPointsY &&
+    a.latitudeFirst === b.latitudeFirst &&
+    a.longitudeFirst === b.longitudeFirst &&
+    a.latitudeLast === b.latitudeLast &&
+    a.longitudeLast === b.longitudeLast &&
+    a.scanningMode === b.scanningMode
+  )
+}
+
+/**
+ * Decodes all supported fields from GRIB2 data.
+ *
+ * A GRIB2 message may contain multiple fields by repeating its sections, each
+ * data section completes a field with the most recent preceding sections.
+ */
+function decodeGRIB2Fields(buffer: ArrayBuffer): GRIB2Field[] {
+  const view = new DataView(buffer)
+  const fields: GRIB2Field[] = []
+
+  let messageStart = 0
+  while (messageStart + 16 <= view.byteLength) {
+    const magic = String.fromCharCode(
+      ...new Uint8Array(buffer, messageStart, 4)
+    )
+    if (magic !== 'GRIB') {
+      // Skip any padding between messages.
+      messageStart++
+      continue
+    }
+    const discipline = view.getUint8(messageStart + 6)
+    const edition = view.getUint8(messageStart + 7)
+    if (edition !== 2) {
+      throw new Error(`Unsupported GRIB edition ${edition}; only GRIB2.`)
+    }
+    const messageLength = Number(view.getBigUint64(messageStart + 8))
+    // A message consists of at least the indicator and end sections.
+    if (
+      messageLength < 16 + 4 ||
+      messageStart + messageLength > view.byteLength
+    ) {
+      throw new Error(
+        `Malformed GRIB2 message of ${messageLength} bytes at byte ${messageStart}.`
+      )
+    }
+
+    let referenceTime = new Date(0)
+    let grid: GRIB2Grid | null = null
+    let product: Omit<GRIB2Field, 'discipline' | 'grid' | 'values'> | null =
+      null
+    let packing: GRIB2Packing | null = null
+    let bitmap: Uint8Array | null = null
+
+    let offset = messageStart + 16
+    const messageEnd = messageStart + messageLength
+    while (offset + 4 <= messageEnd) {
+      // The end section consists of "7777" only.
+      if (view.getUint32(offset) === 0x37373737) break
+
+      const length = view.getUint32(offset)
+      if (length < 5 || offset + length > messageEnd) {
+        throw new Error(
+          `Malformed GRIB2 section of ${length} bytes at byte ${offset}.`
+        )
+      }
+      const section = view.getUint8(offset + 4)
+      switch (section) {
+        case 1:
+          referenceTime = decodeReferenceTime(view, offset)
+          break
+        case 3:
+          grid = decodeGrid(view, offset)
+          break
+        case 4:
+          product = decodeProduct(view, offset, referenceTime)
+          break
+        case 5:
+          packing = decodePacking(view, offset)
+          break
+        case 6:
+          bitmap = decodeBitmap(view, offset, length, bitmap)
+          break
+        case 7:
+          if (grid && product && packing) {
+            const numGridPoints = grid.numPointsX * grid.numPointsY
+            const values = unpackValues(
+              view,
+              offset,
+              length,
+              packing,
+              bitmap,
+              numGridPoints
+            )
+            fields.push({ ...product, discipline, grid, values })
+          }
+          break
+      }
+      offset += length
+    }
+    messageStart = messageEnd
+  }
+  return fields
+}
+
+function decodeReferenceTime(view: DataView, offset: number): Date {
+  return new Date(
+    Date.UTC(
+      view.getUint16(offset + 12),
+      view.getUint8(offset + 14) - 1,
+      view.getUint8(offset + 15),
+      view.getUint8(offset + 16),
+      view.getUint8(offset + 17),
+      view.getUint8(offset + 18)
+    )
+  )
+}
+
+function decodeGrid(view: DataView, offset: number): GRIB2Grid | null {
+  const template = view.getUint16(offset + 12)
+  // Only support regular latitude/longitude grids.
+  if (template !== 0) return null
+
+  // Angles are in micro-degrees, unless a basic angle and subdivisions are
+  // specified.
+  const basicAngle = view.getUint32(offset + 38)
+  const subdivisions = view.getUint32(offset + 42)
+  const unit =
+    basicAngle === 0 || basicAngle === MISSING_UINT32
+      ? 1e-6
+      : basicAngle / subdivisions
+  const angle = (position: number) =>
+    getSignMagnitudeInt32(view, offset + position) * unit
+
+  const scanningMode = view.getUint8(offset + 71)
+  if ((scanningMode & SCAN_ALTERNATING_ROWS) !== 0) {
+    throw new Error(
+      'GRIB2 grids with alternating row directions are not supported.'
+    )
+  }
+  return {
+    numPointsX: view.getUint32(offset + 30),
+    numPointsY: view.getUint32(offset + 34),
+    latitudeFirst: angle(46),
+    longitudeFirst: angle(50),
+    latitudeLast: angle(55),
+    longitudeLast: angle(59),
+    scanningMode
+  }
+}
+
+function decodeProduct(
+  view: DataView,
+  offset: number,
+  referenceTime: Date
+): Omit<GRIB2Field, 'discipline' | 'grid' | 'values'> | null {
+  const template = view.getUint16(offset + 7)
+  // Only support analysis or forecast products at a point in time.
+  if (template !== 0) return null
+
+  const timeUnit = view.getUint8(offset + 17)
+  const forecastTime = view.getInt32(offset + 18)
+  const levelScaleFactor = getSignMagnitudeInt8(view, offset + 23)
+  const levelScaledValue = getSignMagnitudeInt32(view, offset + 24)
+
+  return {
+    category: view.getUint8(offset + 9),
+    parameter: view.getUint8(offset + 10),
+    level: {
+      type: view.getUint8(offset + 22),
+      value: levelScaledValue / Math.pow(10, levelScaleFactor)
+    },
+    validTime: new Date(
+      referenceTime.getTime() + forecastTime * timeUnitToMilliseconds(timeUnit)
+    )
+  }
+}
+
+function decodePacking(view: DataView, offset: number): GRIB2Packing | null {
+  const template = view.getUint16(offset + 9)
+  // Only support simple packing.
+  if (template !== 0) return null
+
+  return {
+    numPoints: view.getUint32(offset + 5),
+    referenceValue: view.getFloat32(offset + 11),
+    binaryScaleFactor: getSignMagnitudeInt16(view, offset + 15),
+    decimalScaleFactor: getSignMagnitudeInt16(view, offset + 17),
+    numBits: view.getUint8(offset + 19)
+  }
+}
+
+function decodeBitmap(
+  view: DataView,
+  offset: number,
+  length: number,
+  previousBitmap: Uint8Array | null
+): Uint8Array | null {
+  const indicator = view.getUint8(offset + 5)
+  switch (indicator) {
+    case 0:
+      return new Uint8Array(
+        view.buffer,
+        view.byteOffset + offset + 6,
+        length - 6
+      )
+    case 254:
+      // Use the previously defined bitmap.
+      return previousBitmap
+    case 255:
+      return null
+    default:
+      throw new Error('Predefined GRIB2 bitmaps are not supported.')
+  }
+}
+
+function unpackValues(
+  view: DataView,
+  offset: number,
+  length: number,
+  packing: GRIB2Packing,
+  bitmap: Uint8Array | null,
+  numGridPoints: number
+): Float32Array {
+  // Without a bitmap, there is a packed value for every grid point; with a
+  // bitmap, only for the grid points that are present.
+  if (!bitmap && packing.numPoints !== numGridPoints) {
+    throw new Error('Number of GRIB2 data points does not match the grid.')
+  }
+  const data = new Uint8Array(
+    view.buffer,
+    view.byteOffset + offset + 5,
+    length - 5
+  )
+  const binaryFactor = Math.pow(2, packing.binaryScaleFactor)
+  const decimalFactor = Math.pow(10, -packing.decimalScaleFactor)
+
+  const values = new Float32Array(numGridPoints)
+  let bitOffset = 0
+  for (let i = 0; i < numGridPoints; i++) {
+    // Points that are not in the bitmap are missing, and have no packed value.
+    const isPresent = !bitmap || (bitmap[i >> 3]! & (0x80 >> (i & 7))) !== 0
+    if (!isPresent) {
+      values[i] = NaN
+      continue
+    }
+    const packed = readBits(data, bitOffset, packing.numBits)
+    bitOffset += packing.numBits
+    values[i] = (packing.referenceValue + packed * binaryFactor) * decimalFactor
+  }
+  return values
+}
+
+function readBits(
+  data: Uint8Array,
+  bitOffset: number,
+  numBits: number
+): number {
+  let value = 0
+  for (let i = 0; i < numBits; i++) {
+    const bit = bitOffset + i
+    value = value * 2 + ((data[bit >> 3]! >> (7 - (bit & 7))) & 1)
+  }
+  return value
+}
+
+// GRIB2 stores signed integers with a sign bit followed by the magnitude.
+function getSignMagnitudeInt8(view: DataView, offset: number): number {
+  const raw = view.getUint8(offset)
+  return raw & 0x80 ? -(raw & 0x7f) : raw
+}
+
+function getSignMagnitudeInt16(view: DataView, offset: number): number {
+  const raw = view.getUint16(offset)
+  return raw & 0x8000 ? -(raw & 0x7fff) : raw
+}
+
+function getSignMagnitudeInt32(view: DataView, offset: number): number {
+  const raw = view.getUint32(offset)
+  return raw & 0x80000000 ? -(raw & 0x7fffffff) : raw
+}
+
+function timeUnitToMilliseconds(unit: number): number {
+  const minute = 60 * 1000
+  const hour = 60 * minute
+  switch (unit) {
+    case 0:
+      return minute
+    case 1:
+      return hour
+    case 2:
+      return 24 * hour
+    case 10:
+      return 3 * hour
+    case 11:
+      return 6 * hour
+    case 12:
+      return 12 * hour
+    case 13:
+      return 1000
+    default:
+      throw new Error(`Unsupported GRIB2 time unit ${unit}.`)
+  }
+}
@@ -0,0 +1,203 @@
+import type { VelocityFieldRequest } from '../sources/source'
+import { AbortedError } from './errors'
+
+// Width of the world in EPSG:3857.
+const MERCATOR_WIDTH = 2 * 20037508.34
+
+// Maximum number of pixels of a requested velocity field, as a multiple of the
+// number of pixels of the canvas.
+const MAX_REQUEST_PIXELS_FACTOR = 2
+
+/**
+ * View of a streamline layer, for which velocity fields are requested.
+ */
+export interface LayerView {
+  // Bounding box of the view in EPSG:3857; for rotated or pitched views, this
+  // covers their whole visible footprint.
+  boundingBox: [number, number, number, number]
+  // Resolution of the view in EPSG:3857 units per pixel of the canvas.
+  resolution: number
+  // Size of the canvas in pixels.
+  canvasSize: [number, number]
+}
+
+/**
+ * Creates the request for the velocity field of a view.
+ *
+ * Views wider than a single earth show copies of the same earth, so we request
+ * just the one earth and render it multiple times; see
+ * `computeWorldCopyOffsets`.
+ *
+ * @param view view to request the velocity field for.
+ * @param time time of the velocity field.
+ * @param elevation elevation of the velocity field, if any.
+ * @param downsampleFactor factor by which to reduce the resolution.
+ * @returns request for the velocity field.
+ */
+export function createVelocityFieldRequest(
+  view: LayerView,
+  time: string,
+  elevation: number | null,
+  downsampleFactor: number = 1
+): VelocityFieldRequest {
+  const [xMinView, yMin, xMaxView, yMax] = view.boundingBox
+  const isWiderThanWorld = xMaxView - xMinView > MERCATOR_WIDTH
+  const xMin = isWiderThanWorld ? -MERCATOR_WIDTH / 2 : xMinView
+  const xMax = isWiderThanWorld ? MERCATOR_WIDTH / 2 : xMaxView
+
+  // Request the image with the aspect ratio of the bounding box, since this is
+  // not necessarily the aspect ratio of the canvas, and its size is not
+  // respected by FEWS WMS if the aspect ratio is not OK.
+  let width = (xMax - xMin) / view.resolution
+  let height = (yMax - yMin) / view.resolution
+
+  // The footprint of pitched maps may extend far towards the horizon, so limit
+  // the number of pixels to a multiple of the number of pixels of the canvas.
+  const [canvasWidth, canvasHeight] = view.canvasSize
+  const maxNumPixels = MAX_REQUEST_PIXELS_FACTOR * canvasWidth * canvasHeight
+  const factor = Math.min(Math.sqrt(maxNumPixels / (width * height)), 1)
+  width = Math.max(width * factor, 1)
+  height = Math.max(height * factor, 1)
+
+  return {
+    boundingBox: [xMin, yMin, xMax, yMax],
+    width: Math.round(width / downsampleFactor),
+    height: Math.round(height / downsampleFactor),
+    time,
+    elevation: elevation ?? undefined
+  }
+}
+
+/**
+ * Computes the offsets, in widths of the bounding box, of the copies of the
+ * bounding box in other worlds that intersect with the view.
+ *
+ * @param boundingBox bounding box of the velocity field in EPSG:3857.
+ * @param viewBoundingBox bounding box of the view in EPSG:3857.
+ * @returns offsets of the copies, including the bounding box itself.
+ */
+export function computeWorldCopyOffsets(
+  boundingBox: [number, number, number, number],
+  viewBoundingBox: [number, number, number, number]
+): number[] {
+  const [xMin, , xMax] = boundingBox
+  const [xMinView, , xMaxView] = viewBoundingBox
+  const first = Math.ceil((xMinView - xMax) / MERCATOR_WIDTH)
+  const last = Math.floor((xMaxView - xMin) / MERCATOR_WIDTH)
+  const offsets: number[] = []
+  for (let world = first; world <= last; world++) {
+    offsets.push((world * MERCATOR_WIDTH) / (xMax - xMin))
+  }
+  return offsets
+}
+
+/**
+ * Finds the index of the available time closest to a time.
+ *
+ * @param times available times.
+ * @param time time to find.
+ * @returns index of the closest time, or 0 if no times are available.
+ */
+export function findTimeIndex(times: string[], time: Date): number {
+  const timestamps = times.map(cur => new Date(cur).getTime())
+  const timestamp = time.getTime()
+  const diffs = timestamps.map(cur => Math.abs(timestamp - cur))
+  const minDiff = Math.min(...diffs)
+  return Math.max(
+    diffs.findIndex(diff => diff === minDiff),
+    0
+  )
+}
+
+/**
+ * Finds the available times surrounding a time, to interpolate between.
+ *
+ * Outside of the available times, this returns the first or last time without
+ * interpolation.
+ *
+ * @param times available times.
+ * @param time time to find.
+ * @returns index of the time before, index of the time after or null, and the
+ *   blend factor between them.
+ */
+export function findTimeInterval(
+  times: string[],
+  time: Date
+): [number, number | null, number] {
+  if (times.length === 0) {
+    throw new Error('No available times.')
+  }
+  const timestamps = times.map(cur => new Date(cur).getTime())
+  const timestamp = time.getTime()
+  const lastIndex = timestamps.length - 1
+  if (timestamp <= timestamps[0]!) return [0, null, 0]
+  if (timestamp >= timestamps[lastIndex]!) return [lastIndex, null, 0]
+
+  const nextIndex = timestamps.findIndex(cur => cur > timestamp)
+  const index = nextIndex - 1
+  const start = timestamps[index]!
+  const end = timestamps[nextIndex]!
+  return [index, nextIndex, (timestamp - start) / (end - start)]
+}
+
+/**
+ * Updates of a layer, e.g. of its velocity field or colormap.
+ *
+ * A new update of a kind supersedes the previous update of that kind, which is
+ * aborted. All updates are aborted when the layer is removed.
+ */
+export class LayerUpdates<Kind extends string> {
+  private readonly abortController: AbortController
+  private readonly controllers: Map<Kind, AbortController>
+  private readonly onFetchError: (error: Error) => void
+
+  /**
+   * Creates the updates of a layer.
+   *
+   * @param onFetchError function to call with failures of updates that were
+   *   not superseded.
+   */
+  constructor(onFetchError: (error: Error) => void) {
+    this.abortController = new AbortController()
+    this.controllers = new Map()
+    this.onFetchError = onFetchError
+  }
+
+  /** Signal that is aborted when the layer is removed. */
+  get signal(): AbortSignal {
+    return this.abortController.signal
+  }
+
+  /**
+   * Starts a new update of a kind, aborting the previous update of that kind.
+   *
+   * @param kind kind of update.
+   * @returns signal that is aborted when the update is superseded, or when the
+   *   layer is removed.
+   */
+  start(kind: Kind): AbortSignal {
+    this.controllers.get(kind)?.abort()
+    const controller = new AbortController()
+    this.controllers.set(kind, controller)
+    if (this.signal.aborted) controller.abort()
+    return controller.signal
+  }
+
+  /** Aborts all updates, e.g. when the layer is removed. */
+  abort(): void {
+    this.abortController.abort()
+    this.controllers.forEach(controller => controller.abort())
+  }
+
+  /**
+   * Reports a failure of an update.
+   *
+   * @param error error that the update failed with.
+   * @param signal signal of the update; failures of aborted updates have been
+   *   superseded, so they are not reported.
+   */
+  reportError(error: unknown, signal: AbortSignal): void {
+    if (signal.aborted || error instanceof AbortedError) return
+    this.onFetchError(error instanceof Error ? error : new Error(String(error)))
+  }
+}
@@ -0,0 +1,202 @@
+/**
+ * Location of the velocity values on a mesh: either on its nodes, in which case
+ * velocities are linearly interpolated over each face, or on its faces, in
+ * which case velocities are constant per face.
+ */
+export type MeshValueLocation = 'node' | 'face'
+
+export interface VelocityMeshOptions {
+  /** Interleaved x- and y-coordinates of the mesh nodes. */
+  nodeCoordinates: ArrayLike<number>
+  /**
+   * Node indices of each face, padded to `maxNodesPerFace` per face. Indices
+   * outside of the range of nodes (e.g. a UGRID fill value) mark padding.
+   */
+  faceNodes: ArrayLike<number>
+  /** Maximum number of nodes per face; 3 (triangles) by default. */
+  maxNodesPerFace?: number
+  /** Index of the first node in `faceNodes`; 0 by default. */
+  startIndex?: number
+  /** Location of the velocity values. */
+  location: MeshValueLocation
+  /** U-component (eastward) of the velocity, per node or per face. */
+  u: ArrayLike<number>
+  /** V-component (northward) of the velocity, per node or per face. */
+  v: ArrayLike<number>
+  /** Value that marks missing velocities, in addition to NaN. */
+  fillValue?: number
+}
+
+/**
+ * A velocity field on an unstructured mesh, such as the flexible meshes of
+ * D-Flow FM, or on a curvilinear grid.
+ *
+ * Faces are triangulated on construction, with velocities for every vertex of
+ * every triangle, so that the mesh can be drawn as a plain list of triangles.
+ * Faces with missing velocities are left out. Node coordinates should be in the
+ * coordinate reference system of the bounding boxes the mesh is rasterised for.
+ */
+export class VelocityMesh {
+  /** Interleaved triangle vertex coordinates, relative to `origin`. */
+  readonly positions: Float32Array
+  /** Interleaved U- and V-components for each triangle vertex. */
+  readonly velocities: Float32Array
+  /** Origin of the vertex coordinates, to preserve precision in 32 bits. */
+  readonly origin: [number, number]
+  /** Bounding box of the nodes as [xMin, yMin, xMax, yMax]. */
+  readonly boundingBox: [number, number, number, number]
+
+  private readonly _maxVelocity: [number, number]
+
+  constructor(options: VelocityMeshOptions) {
+    const maxNodesPerFace = options.maxNodesPerFace ?? 3
+    const startIndex = options.startIndex ?? 0
+    const numNodes = options.nodeCoordinates.length / 2
+    const numFaces = options.faceNodes.length / maxNodesPerFace
+    if (!Number.isInteger(numNodes)) {
+      throw new Error('Mesh node coordinates should be interleaved x and y.')
+    }
+    if (!Number.isInteger(numFaces)) {
+      throw new Error(
+        'Mesh face nodes should have exactly the maximum number of nodes per face.'
+      )
+    }
+    const numValues = options.location === 'node' ? numNodes : numFaces
+    if (options.u.length !== numValues || options.v.length !== numValues) {
+      throw new Error(
+        `Mesh velocity components should have one value per ${options.location}.`
+      )
+    }
+
+    this.boundingBox = VelocityMesh.computeBoundingBox(options.nodeCoordinates)
+    this.origin = [this.boundingBox[0], this.boundingBox[1]]
+
+    const isMissing = (value: number) =>
+      Number.isNaN(value) || value === options.fillValue
+
+    // Triangulate every face as a fan around its first node.
+    const positions: number[] = []
+    const velocities: number[] = []
+    let maxU = 0
+    let maxV = 0
+    const faceNodes: number[] = []
+    for (let face = 0; face < numFaces; face++) {
+      faceNodes.length = 0
+      for (let i = 0; i < maxNodesPerFace; i++) {
+        const node = options.faceNodes[face * maxNodesPerFace + i]! - startIndex
+        if (node >= 0 && node < numNodes) faceNodes.push(node)
+      }
+      if (faceNodes.length < 3) continue
+
+      const valueIndices =
+        options.location === 'node' ? faceNodes : faceNodes.map(() => face)
+      const hasMissing = valueIndices.some(
+        index => isMissing(options.u[index]!) || isMissing(options.v[index]!)
+      )
+      if (hasMissing) continue
+
+      for (let i = 1; i < faceNodes.length - 1; i++) {
+        for (const j of [0, i, i + 1]) {
+          const node = faceNodes[j]!
+          const u = options.u[valueIndices[j]!]!
+          const v = options.v[valueIndices[j]!]!
+          positions.push(
+            options.nodeCoordinates[2 * node]! - this.origin[0],
+            options.nodeCoordinates[2 * node + 1]! - this.origin[1]
+          )
+          velocities.push(u, v)
+          maxU = Math.max(maxU, Math.abs(u))
+          maxV = Math.max(maxV, Math.abs(v))
+        }
+      }
+    }
+    this.positions = new Float32Array(positions)
+    this.velocities = new Float32Array(velocities)
+    this._maxVelocity = [maxU, maxV]
+  }
+
+  /**
+   * Creates a velocity mesh from a curvilinear grid, with velocities on the
+   * grid nodes.
+   *
+   * @param x x-coordinates of the grid nodes, row-major.
+   * @param y y-coordinates of the grid nodes, row-major.
+   * @param u U-component (eastward) of the velocity, row-major.
+   * @param v V-component (northward) of the velocity, row-major.
+   * @param numColumns number of grid nodes in each row.
+   * @param numRows number of grid nodes in each column.
+   * @param fillValue value that marks missing velocities, in addition to NaN.
+   * @returns velocity mesh with a quadrilateral face per grid cell.
+   */
+  static fromCurvilinearGrid(
+    x: ArrayLike<number>,
+    y: ArrayLike<number>,
+    u: ArrayLike<number>,
+    v: ArrayLike<number>,
+    numColumns: number,
+    numRows: number,
+    fillValue?: number
+  ): VelocityMesh {
+    const numNodes = numColumns * numRows
+    if (x.length !== numNodes || y.length !== numNodes) {
+      throw new Error(
+        'Length of grid coordinates does not match the grid dimensions.'
+      )
+    }
+    const nodeCoordinates = new Float64Array(2 * numNodes)
+    for (let i = 0; i < numNodes; i++) {
+      nodeCoordinates[2 * i] = x[i]!
+      nodeCoordinates[2 * i + 1] = y[i]!
+    }
+    const faceNodes = new Uint32Array(4 * (numColumns - 1) * (numRows - 1))
+    let index = 0
+    for (let row = 0; row < numRows - 1; row++) {
+      for (let column = 0; column < numColumns - 1; column++) {
+        const node = row * numColumns + column
+        faceNodes[index++] = node
+        faceNodes[index++] = node + 1
+        faceNodes[index++] = node + numColumns + 1
+        faceNodes[index++] = node + numColumns
+      }
+    }
+    return new VelocityMesh({
+      nodeCoordinates,
+      faceNodes,
+      maxNodesPerFace: 4,
+      location: 'node',
+      u,
+      v,
+      fillValue
+    })
+  }
+
+  /** Number of triangle vertices. */
+  get numVertices(): number {
+    return this.positions.length / 2
+  }
+
+  /**
+   * Returns the maximum absolute U- and V-components of the velocity.
+   *
+   * @returns maximum absolute U- and V-components over all faces.
+   */
+  maxVelocity(): [number, number] {
+    return [...this._maxVelocity]
+  }
+
+  private static computeBoundingBox(
+    nodeCoordinates: ArrayLike<number>
+  ): [number, number, number, number] {
+    let xMin = Infinity
+    let yMin = Infinity
+    let xMax = -Infinity
+    let yMax = -Infinity
+    for (let i = 0; i < nodeCoordinates.length; i += 2) {
+      xMin = Math.min(xMin, nodeCoordinates[i]!)
+      xMax = Math.max(xMax, nodeCoordinates[i]!)
+      yMin = Math.min(yMin, nodeCoordinates[i + 1]!)
+      yMax = Math.max(yMax, nodeCoordinates[i + 1]!)
+    }
+    return [xMin, yMin, xMax, yMax]
+  }
+}
@@ -0,0 +1,541 @@
+import { type RetryOptions, fetchWithRetry, readResponse } from './fetch'
+import type { TransformRequestFunction } from './wms'
+import {
+  type FloatTextureFormat,
+  type GeoreferencedVelocityImage,
+  VelocityImage
+} from './velocity-image'
+
+enum NetCDFType {
+  Byte = 1,
+  Char = 2,
+  Short = 3,
+  Int = 4,
+  Float = 5,
+  Double = 6
+}
+
+// Tags that mark the start of the lists in the NetCDF header.
+const NC_DIMENSION = 0x0a
+const NC_VARIABLE = 0x0b
+const NC_ATTRIBUTE = 0x0c
+
+// Default fill value for floating-point variables without a _FillValue.
+const NC_FILL_FLOAT = 9.969209968386869e36
+
+type NetCDFAttributeValue = string | number[]
+
+interface NetCDFDimension {
+  name: string
+  // Length of the dimension, 0 for the unlimited (record) dimension.
+  length: number
+}
+
+interface NetCDFVariable {
+  name: string
+  dimensionIds: number[]
+  attributes: Map<string, NetCDFAttributeValue>
+  type: NetCDFType
+  size: number
+  begin: number
+}
+
+export interface NetCDFVelocityFieldOptions {
+  /** Name of the U-variable; takes precedence over the standard name. */
+  uVariable?: string
+  /** Name of the V-variable; takes precedence over the standard name. */
+  vVariable?: string
+  /** Standard name of the U-variable, "eastward_sea_water_velocity" by default. */
+  uStandardName?: string
+  /** Standard name of the V-variable, "northward_sea_water_velocity" by default. */
+  vStandardName?: string
+  /** Index into the time dimension, 0 by default. */
+  timeIndex?: number
+  /** Index into the vertical dimension, 0 by default. */
+  depthIndex?: number
+  /** Precision of the velocity texture. */
+  floatFormat?: FloatTextureFormat
+}
+
+/**
+ * Reader for NetCDF classic and 64-bit offset files.
+ */
+class NetCDFFile {
+  readonly numRecords: number
+  readonly dimensions: NetCDFDimension[]
+  readonly attributes: Map<string, NetCDFAttributeValue>
+  readonly variables: NetCDFVariable[]
+
+  private readonly view: DataView
+  private readonly is64BitOffset: boolean
+  private offset: number
+
+  constructor(buffer: ArrayBuffer) {
+    this.view = new DataView(buffer)
+    this.offset = 0
+
+    const magic = String.fromCharCode(
+      this.readUint8(),
+      this.readUint8(),
+      this.readUint8()
+    )
+    const version = this.readUint8()
+    if (magic !== 'CDF' || (version !== 1 && version !== 2)) {
+      throw new Error(
+        'Not a NetCDF classic or 64-bit offset file; NetCDF-4 and CDF-5 files are not supported.'
+      )
+    }
+    this.is64BitOffset = version === 2
+
+    this.numRecords = this.readInt32()
+    this.dimensions = this.readDimensions()
+    this.attributes = this.readAttributes()
+    this.variables = this.readVariables()
+  }
+
+  /** Size of a single record, i.e. one entry for all record variables. */
+  private get recordSize(): number {
+    const recordVariables = this.variables.filter(variable =>
+      this.isRecordVariable(variable)
+    )
+    // If there is only one record variable, records are not padded.
+    if (recordVariables.length === 1) {
+      const variable = recordVariables[0]!
+      const numValues = variable.dimensionIds
+        .slice(1)
+        .reduce((product, id) => product * this.dimensions[id]!.length, 1)
+      return numValues * NetCDFFile.typeSize(variable.type)
+    }
+    return recordVariables.reduce((sum, variable) => sum + variable.size, 0)
+  }
+
+  findVariable(name: string): NetCDFVariable | undefined {
+    return this.variables.find(variable => variable.name === name)
+  }
+
+  findVariableByStandardName(standardName: string): NetCDFVariable | undefined {
+    return this.variables.find(
+      variable => variable.attributes.get('standard_name') === standardName
+    )
+  }
+
+  getDimensionLength(id: number): number {
+    const dimension = this.dimensions[id]
+    if (!dimension) throw new Error(`NetCDF dimension ${id} does not exist.`)
+    return dimension.length === 0 ? this.numRecords : dimension.length
+  }
+
+  isRecordVariable(variable: NetCDFVariable): boolean {
+    const firstId = variable.dimensionIds[0]
+    return firstId !== undefined && this.dimensions[firstId]!.length === 0
+  }
+
+  /**
+   * Reads a contiguous range of values from a variable.
+   *
+   * @param variable variable to read values from.
+   * @param leadingIndices indices into all but the trailing dimensions.
+   * @param numValues number of values to read.
+   * @returns values read from the variable.
+   */
+  readValues(
+    variable: NetCDFVariable,
+    leadingIndices: number[],
+    numValues: number
+  ): Float64Array {
+    const typeSize = NetCDFFile.typeSize(variable.type)
+    const ids = variable.dimensionIds
+    const isRecord = this.isRecordVariable(variable)
+
+    // Compute the linear index of the first value to read, skipping the
+    // record dimension since record variables are stored per record.
+    let linearIndex = 0
+    let stride = numValues
+    for (let i = leadingIndices.length - 1; i >= (isRecord ? 1 : 0); i--) {
+      const index = leadingIndices[i]!
+      const length = this.getDimensionLength(ids[i]!)
+      if (index < 0 || index >= length) {
+        throw new Error(
+          `Index ${index} out of range for dimension "${this.dimensions[ids[i]!]!.name}" of length ${length}.`
+        )
+      }
+      linearIndex += index * stride
+      stride *= length
+    }
+
+    let start = variable.begin + linearIndex * typeSize
+    if (isRecord) {
+      const record = leadingIndices[0] ?? 0
+      if (record < 0 || record >= this.numRecords) {
+        throw new Error(
+          `Record ${record} out of range; only ${this.numRecords} records available.`
+        )
+      }
+      start += record * this.recordSize
+    }
+
+    const values = new Float64Array(numValues)
+    for (let i = 0; i < numValues; i++) {
+      values[i] = this.readValue(variable.type, start + i * typeSize)
+    }
+    return values
+  }
+
+  /** Reads all values of a one-dimensional (coordinate) variable. */
+  readCoordinate(variable: NetCDFVariable): Float64Array {
+    if (variable.dimensionIds.length !== 1) {
+      throw new Error(
+        `Coordinate variable "${variable.name}" should be one-dimensional.`
+      )
+    }
+    const length = this.getDimensionLength(variable.dimensionIds[0]!)
+    if (this.isRecordVariable(variable)) {
+      const values = new Float64Array(length)
+      for (let i = 0; i < length; i++) {
+        values[i] = this.readValues(variable, [i], 1)[0]!
+      }
+      return values
+    }
+    return this.readValues(variable, [], length)
+  }
+
+  private readValue(type: NetCDFType, offset: number): number {
+    switch (type) {
+      case NetCDFType.Byte:
+        return this.view.getInt8(offset)
+      case NetCDFType.Short:
+        return this.view.getInt16(offset)
+      case NetCDFType.Int:
+        return this.view.getInt32(offset)
+      case NetCDFType.Float:
+        return this.view.getFloat32(offset)
+      case NetCDFType.Double:
+        return this.view.getFloat64(offset)
+      default:
+        throw new Error('Cannot read numeric values from character data.')
+    }
+  }
+
+  private readDimensions(): NetCDFDimension[] {
+    const numDimensions = this.readListHeader(NC_DIMENSION)
+    const dimensions: NetCDFDimension[] = []
+    for (let i = 0; i < numDimensions; i++) {
+      const name = this.readName()
+      const length = this.readInt32()
+      dimensions.push({ name, length })
+    }
+    return dimensions
+  }
+
+  private readAttributes(): Map<string, NetCDFAttributeValue> {
+    const numAttributes = this.readListHeader(NC_ATTRIBUTE)
+    const attributes = new Map<string, NetCDFAttributeValue>()
+    for (let i = 0; i < numAttributes; i++) {
+      const name = this.readName()
+      const type = this.readInt32() as NetCDFType
+      const numValues = this.readInt32()
+      const typeSize = NetCDFFile.typeSize(type)
+
+      let value: NetCDFAttributeValue
+      if (type === NetCDFType.Char) {
+        const bytes = new Uint8Array(
+          this.view.buffer,
+          this.view.byteOffset + this.offset,
+          numValues
+        )
+        // Character attributes are often terminated with null characters.
+        value = new TextDecoder().decode(bytes).replace(/\0+$/, '')
+      } else {
+        value = []
+        for (let j = 0; j < numValues; j++) {
+          value.push(this.readValue(type, this.offset + j * typeSize))
+        }
+      }
+      this.offset += NetCDFFile.padToFourBytes(numValues * typeSize)
+      attributes.set(name, value)
+    }
+    return attributes
+  }
+
+  private readVariables(): NetCDFVariable[] {
+    const numVariables = this.readListHeader(NC_VARIABLE)
+    const variables: NetCDFVariable[] = []
+    for (let i = 0; i < numVariables; i++) {
+      const name = this.readName()
+      const numDimensions = this.readInt32()
+      const dimensionIds: number[] = []
+      for (let j = 0; j < numDimensions; j++) {
+        dimensionIds.push(this.readInt32())
+      }
+      const attributes = this.readAttributes()
+      const type = this.readInt32() as NetCDFType
+      const size = this.readInt32()
+      const begin = this.is64BitOffset ? this.readInt64() : this.readInt32()
+      variables.push({ name, dimensionIds, attributes, type, size, begin })
+    }
+    return variables
+  }
+
+  private readListHeader(expectedTag: number): number {
+    const tag = this.readInt32()
+    const numElements = this.readInt32()
+    // Absent lists are specified as two zeros.
+    if (tag === 0 && numElements === 0) return 0
+    if (tag !== expectedTag) {
+      throw new Error('Malformed NetCDF header.')
+    }
+    return numElements
+  }
+
+  private readName(): string {
+    const length = this.readInt32()
+    const bytes = new Uint8Array(
+      this.view.buffer,
+      this.view.byteOffset + this.offset,
+      length
+    )
+    this.offset += NetCDFFile.padToFourBytes(length)
+    return new TextDecoder().decode(bytes)
+  }
+
+  private readUint8(): number {
+    const value = this.view.getUint8(this.offset)
+    this.offset += 1
+    return value
+  }
+
+  private readInt32(): number {
+    const value = this.view.getInt32(this.offset)
+    this.offset += 4
+    return value
+  }
+
+  private readInt64(): number {
+    const value = Number(this.view.getBigInt64(this.offset))
+    this.offset += 8
+    return value
+  }
+
+  private static typeSize(type: NetCDFType): number {
+    switch (type) {
+      case NetCDFType.Byte:
+      case NetCDFType.Char:
+        return 1
+      case NetCDFType.Short:
+        return 2
+      case NetCDFType.Int:
+      case NetCDFType.Float:
+        return 4
+      case NetCDFType.Double:
+        return 8
+      default:
+        throw new Error(`Unsupported NetCDF data type ${type as number}.`)
+    }
+  }
+
+  private static padToFourBytes(numBytes: number): number {
+    return Math.ceil(numBytes / 4) * 4
+  }
+}
+
+/**
+ * Fetches a NetCDF file and reads a velocity field from it. Failed requests
+ * throw subclasses of `FetchError`, as for the WMS fetches.
+ *
+ * @param url URL of the NetCDF file.
+ * @param options options for selecting the velocity variables and indices.
+ * @param signal signal to abort the request.
+ * @param transformRequest optional function to transform the request.
+ * @param retry options for retrying transient failures.
+ * @returns velocity image with its geographic bounding box.
+ */
+export async function fetchNetCDFVelocityField(
+  url: URL,
+  options: NetCDFVelocityFieldOptions = {},
+  signal?: AbortSignal,
+  transformRequest?: TransformRequestFunction,
+  retry?: RetryOptions
+): Promise<GeoreferencedVelocityImage> {
+  const response = await fetchWithRetry(
+    new Request(url),
+    signal,
+    transformRequest,
+    retry
+  )
+  const arrayBuffer = await readResponse(response, signal, response =>
+    response.arrayBuffer()
+  )
+  return readNetCDFVelocityField(arrayBuffer, options)
+}
+
+/**
+ * Reads a velocity field from a CF-convention NetCDF file on a regular
+ * latitude/longitude grid.
+ *
+ * The U- and V-variables are selected by name or standard name. Their last two
+ * dimensions should be latitude and longitude; any preceding dimensions are
+ * either a time dimension or a vertical dimension, which are selected by index.
+ *
+ * @param buffer contents of a NetCDF classic or 64-bit offset file.
+ * @param options options for selecting the velocity variables and indices.
+ * @returns velocity image with its geographic bounding box.
+ */
+export function readNetCDFVelocityField(
+  buffer: ArrayBuffer,
+  options: NetCDFVelocityFieldOptions = {}
+): GeoreferencedVelocityImage {
+  const file = new NetCDFFile(buffer)
+
+  const uVariable = findVelocityVariable(
+    file,
+    options.uVariable,
+    options.uStandardName ?? 'eastward_sea_water_velocity'
+  )
+  const vVariable = findVelocityVariable(
+    file,
+    options.vVariable,
+    options.vStandardName ?? 'northward_sea_water_velocity'
+  )
+  if (uVariable.dimensionIds.join() !== vVariable.dimensionIds.join()) {
+    throw new Error('U- and V-variables should have the same dimensions.')
+  }
+
+  const ids = uVariable.dimensionIds
+  if (ids.length < 2) {
+    throw new Error(
+      `Velocity variable "${uVariable.name}" should have at least two dimensions.`
+    )
+  }
+  const latitudeId = ids[ids.length - 2]!
+  const longitudeId = ids[ids.length - 1]!
+  const latitudes = readDimensionCoordinate(file, latitudeId)
+  const longitudes = readDimensionCoordinate(file, longitudeId)
+  const height = latitudes.length
+  const width = longitudes.length
+
+  const leadingIndices = ids
+    .slice(0, -2)
+    .map(id =>
+      isTimeDimension(file, id)
+        ? (options.timeIndex ?? 0)
+        : (options.depthIndex ?? 0)
+    )
+
+  const numPixels = width * height
+  const u = unpackValues(
+    uVariable,
+    file.readValues(uVariable, leadingIndices, numPixels)
+  )
+  const v = unpackValues(
+    vVariable,
+    file.readValues(vVariable, leadingIndices, numPixels)
+  )
+
+  // Images have their first row at the northern edge and first column at the
+  // western edge, so flip the data where the coordinates run the other way.
+  const isLatitudeAscending = height > 1 && latitudes[1]! > latitudes[0]!
+  const isLongitudeDescending = width > 1 && longitudes[1]! < longitudes[0]!
+  const uImage = new Float32Array(numPixels)
+  const vImage = new Float32Array(numPixels)
+  for (let row = 0; row < height; row++) {
+    const rowSource = isLatitudeAscending ? height - 1 - row : row
+    for (let col = 0; col < width; col++) {
+      const colSource = isLongitudeDescending ? width - 1 - col : col
+      const source = rowSource * width + colSource
+      uImage[row * width + col] = u[source]!
+      vImage[row * width + col] = v[source]!
+    }
+  }
+
+  const velocityImage = VelocityImage.fromComponents(
+    uImage,
+    vImage,
+    width,
+    height,
+    { floatFormat: options.floatFormat }
+  )
+  const [west, east] = computeCellEdges(longitudes)
+  const [south, north] = computeCellEdges(latitudes)
+  return { velocityImage, boundingBox: [west, south, east, north] }
+}
+
+function findVelocityVariable(
+  file: NetCDFFile,
+  name: string | undefined,
+  standardName: string
+): NetCDFVariable {
+  const variable =
+    name !== undefined
+      ? file.findVariable(name)
+      : file.findVariableByStandardName(standardName)
+  if (!variable) {
+    const description =
+      name !== undefined ? `name "${name}"` : `standard name "${standardName}"`
+    throw new Error(`NetCDF file contains no variable with ${description}.`)
+  }
+  return variable
+}
+
+function readDimensionCoordinate(file: NetCDFFile, id: number): Float64Array {
+  const name = file.dimensions[id]!.name
+  const variable = file.findVariable(name)
+  if (!variable) {
+    throw new Error(`NetCDF file contains no coordinate variable "${name}".`)
+  }
+  return file.readCoordinate(variable)
+}
+
+function isTimeDimension(file: NetCDFFile, id: number): boolean {
+  const dimension = file.dimensions[id]!
+  if (dimension.length === 0) return true
+
+  const variable = file.findVariable(dimension.name)
+  const axis = variable?.attributes.get('axis')
+  const standardName = variable?.attributes.get('standard_name')
+  const units = variable?.attributes.get('units')
+  return (
+    axis === 'T' ||
+    standardName === 'time' ||
+    (typeof units === 'string' && units.includes(' since '))
+  )
+}
+
+function unpackValues(
+  variable: NetCDFVariable,
+  values: Float64Array
+): Float32Array {
+  const getNumber = (name: string): number | undefined => {
+    const value = variable.attributes.get(name)
+    return Array.isArray(value) ? value[0] : undefined
+  }
+  const scale = getNumber('scale_factor') ?? 1
+  const offset = getNumber('add_offset') ?? 0
+  const missingValues = [
+    getNumber('_FillValue'),
+    getNumber('missing_value')
+  ].filter(value => value !== undefined)
+  if (variable.type === NetCDFType.Float && missingValues.length === 0) {
+    missingValues.push(Math.fround(NC_FILL_FLOAT))
+  }
+
+  const unpacked = new Float32Array(values.length)
+  for (let i = 0; i < values.length; i++) {
+    const value = values[i]!
+    unpacked[i] = missingValues.includes(value) ? NaN : value * scale + offset
+  }
+  return unpacked
+}
+
+function computeCellEdges(coordinates: Float64Array): [number, number] {
+  const first = coordinates[0]!
+  const last = coordinates[coordinates.length - 1]!
+  // Coordinates are at cell centres, so extend the range by half a cell on
+  // both sides, assuming a regular grid.
+  const spacing =
+    coordinates.length > 1
+      ? Math.abs(last - first) / (coordinates.length - 1)
+      : 0
+  const min = Math.min(first, last)
+  const max = Math.max(first, last)
+  return [min - 0.5 * spacing, max + 0.5 * spacing]
+}
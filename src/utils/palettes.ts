@@ -0,0 +1,128 @@
+import { Color, Colormap } from './colormap'
+
+/**
+ * Names of the built-in palettes.
+ */
+export type PaletteName =
+  | 'viridis'
+  | 'cividis'
+  | 'magma'
+  | 'inferno'
+  | 'plasma'
+  | 'turbo'
+  | 'cmocean-speed'
+
+// Palettes are approximated by uniformly spaced stops, from low to high.
+const PALETTES: Record<PaletteName, string[]> = {
+  viridis: [
+    '#440154',
+    '#482475',
+    '#414487',
+    '#355f8d',
+    '#2a788e',
+    '#21918c',
+    '#22a884',
+    '#44bf70',
+    '#7ad151',
+    '#bddf26',
+    '#fde725'
+  ],
+  cividis: [
+    '#00204d',
+    '#00336f',
+    '#39486b',
+    '#575c6d',
+    '#707173',
+    '#8a8779',
+    '#a69d75',
+    '#c4b56c',
+    '#e4cf5b',
+    '#ffea46'
+  ],
+  magma: [
+    '#000004',
+    '#180f3d',
+    '#440f76',
+    '#721f81',
+    '#9e2f7f',
+    '#cd4071',
+    '#f1605d',
+    '#fd9668',
+    '#feca8d',
+    '#fcfdbf'
+  ],
+  inferno: [
+    '#000004',
+    '#1b0c41',
+    '#4a0c6b',
+    '#781c6d',
+    '#a52c60',
+    '#cf4446',
+    '#ed6925',
+    '#fb9b06',
+    '#f7d13d',
+    '#fcffa4'
+  ],
+  plasma: [
+    '#0d0887',
+    '#46039f',
+    '#7201a8',
+    '#9c179e',
+    '#bd3786',
+    '#d8576b',
+    '#ed7953',
+    '#fb9f3a',
+    '#fdca26',
+    '#f0f921'
+  ],
+  turbo: [
+    '#30123b',
+    '#4662d7',
+    '#36aaf9',
+    '#1ae4b6',
+    '#72fe5e',
+    '#c8ef34',
+    '#faba39',
+    '#f66b19',
+    '#ca2a04',
+    '#7a0403'
+  ],
+  'cmocean-speed': [
+    '#fffdcd',
+    '#e6e096',
+    '#c5c865',
+    '#9fb541',
+    '#77a22d',
+    '#4f8c28',
+    '#2f7228',
+    '#1f5623',
+    '#1b3c1c',
+    '#172313'
+  ]
+}
+
+/** Names of all built-in palettes. */
+export const paletteNames = Object.keys(PALETTES) as PaletteName[]
+
+/**
+ * Creates a colormap from a built-in palette, spanning a range of values.
+ *
+ * @param name name of the palette.
+ * @param range start and end value of the colormap; [0, 1] by default.
+ * @returns colormap with uniformly spaced values over the range.
+ */
+export function createPaletteColormap(
+  name: PaletteName,
+  range: [number, number] = [0, 1]
+): Colormap {
+  const stops = PALETTES[name]
+  if (!stops) throw new Error(`Unknown palette "${name}".`)
+  const [start, end] = range
+  const values = stops.map(
+    (_, index) => start + (index / (stops.length - 1)) * (end - start)
+  )
+  return new Colormap(
+    values,
+    stops.map(hex => Color.fromHex(hex))
+  )
+}
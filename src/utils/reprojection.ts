@@ -0,0 +1,185 @@
+/**
+ * Transformation between the display coordinate reference system (EPSG:3857)
+ * and another coordinate reference system, e.g. created with proj4.
+ */
+export interface CoordinateTransform {
+  /** Transforms display coordinates to the other CRS. */
+  forward(x: number, y: number): [number, number]
+  /** Transforms coordinates in the other CRS to display coordinates. */
+  inverse(x: number, y: number): [number, number]
+}
+
+/**
+ * Triangles covering a target bounding box, with for each vertex the
+ * coordinates into a velocity image in another CRS, and the directions of that
+ * CRS's axes, to resample and rotate the velocity image into the target
+ * bounding box.
+ */
+export interface ReprojectionGrid {
+  /** Interleaved vertex positions in clip coordinates of the target. */
+  positions: Float32Array
+  /**
+   * Interleaved texture coordinates into the source velocity image, with the
+   * first row of the image at 0.
+   */
+  texCoords: Float32Array
+  /** Interleaved unit vectors along the source's x-axis, in the target. */
+  axesX: Float32Array
+  /** Interleaved unit vectors along the source's y-axis, in the target. */
+  axesY: Float32Array
+  numVertices: number
+}
+
+// Texture coordinates, and the source's x- and y-axes at a node of the grid.
+type GridNode = [number, number, number, number, number, number]
+
+// Step relative to the size of the source bounding box for computing the
+// directions of the source's axes.
+const AXIS_STEP = 1e-6
+
+/**
+ * Transforms a bounding box into a bounding box that covers it in another CRS,
+ * by transforming points along its edges.
+ *
+ * @param boundingBox bounding box as [xMin, yMin, xMax, yMax].
+ * @param transform transformation of coordinates into the other CRS.
+ * @param numPoints number of points to transform along each edge.
+ * @returns bounding box in the other CRS.
+ */
+export function transformBoundingBox(
+  boundingBox: [number, number, number, number],
+  transform: (x: number, y: number) => [number, number],
+  numPoints: number = 16
+): [number, number, number, number] {
+  const [xMin, yMin, xMax, yMax] = boundingBox
+  let xMinTransformed = Infinity
+  let yMinTransformed = Infinity
+  let xMaxTransformed = -Infinity
+  let yMaxTransformed = -Infinity
+  const extend = (x: number, y: number) => {
+    const [xTransformed, yTransformed] = transform(x, y)
+    if (!Number.isFinite(xTransformed) || !Number.isFinite(yTransformed)) {
+      return
+    }
+    xMinTransformed = Math.min(xMinTransformed, xTransformed)
+    yMinTransformed = Math.min(yMinTransformed, yTransformed)
+    xMaxTransformed = Math.max(xMaxTransformed, xTransformed)
+    yMaxTransformed = Math.max(yMaxTransformed, yTransformed)
+  }
+  for (let i = 0; i < numPoints; i++) {
+    const fraction = i / (numPoints - 1)
+    const x = xMin + fraction * (xMax - xMin)
+    const y = yMin + fraction * (yMax - yMin)
+    extend(x, yMin)
+    extend(x, yMax)
+    extend(xMin, y)
+    extend(xMax, y)
+  }
+  if (xMinTransformed > xMaxTransformed || yMinTransformed > yMaxTransformed) {
+    throw new Error('Bounding box cannot be transformed to the other CRS.')
+  }
+  return [xMinTransformed, yMinTransformed, xMaxTransformed, yMaxTransformed]
+}
+
+/**
+ * Creates a grid of triangles to reproject a velocity image from another CRS
+ * into a target bounding box in the display CRS.
+ *
+ * Source coordinates and axis directions are computed for the grid vertices
+ * and linearly interpolated in between, so the grid should be fine enough to
+ * follow the curvature of the transformation. Cells with vertices that cannot
+ * be transformed are left out.
+ *
+ * @param transform transformation between the display CRS and the source CRS.
+ * @param sourceBoundingBox bounding box of the source velocity image.
+ * @param targetBoundingBox bounding box to reproject into, in the display CRS.
+ * @param numCells number of grid cells in each direction.
+ * @returns grid of triangles.
+ */
+export function createReprojectionGrid(
+  transform: CoordinateTransform,
+  sourceBoundingBox: [number, number, number, number],
+  targetBoundingBox: [number, number, number, number],
+  numCells: number
+): ReprojectionGrid {
+  const [xMinSource, yMinSource, xMaxSource, yMaxSource] = sourceBoundingBox
+  const [xMin, yMin, xMax, yMax] = targetBoundingBox
+  const widthSource = xMaxSource - xMinSource
+  const heightSource = yMaxSource - yMinSource
+  const step = AXIS_STEP * Math.max(widthSource, heightSource)
+
+  const normalise = (vector: [number, number]): [number, number] => {
+    const length = Math.hypot(vector[0], vector[1])
+    return [vector[0] / length, vector[1] / length]
+  }
+  const difference = (
+    a: [number, number],
+    b: [number, number]
+  ): [number, number] => [a[0] - b[0], a[1] - b[1]]
+
+  // Compute the source texture coordinates and axes on the grid nodes, from
+  // the bottom left; null for nodes that cannot be transformed.
+  const numNodes = numCells + 1
+  const nodes: (GridNode | null)[] = []
+  for (let row = 0; row < numNodes; row++) {
+    const y = yMin + (row / numCells) * (yMax - yMin)
+    for (let column = 0; column < numNodes; column++) {
+      const x = xMin + (column / numCells) * (xMax - xMin)
+      const [xSource, ySource] = transform.forward(x, y)
+      const origin = transform.inverse(xSource, ySource)
+      const axisX = normalise(
+        difference(transform.inverse(xSource + step, ySource), origin)
+      )
+      const axisY = normalise(
+        difference(transform.inverse(xSource, ySource + step), origin)
+      )
+      const node: GridNode = [
+        (xSource - xMinSource) / widthSource,
+        (yMaxSource - ySource) / heightSource,
+        ...axisX,
+        ...axisY
+      ]
+      nodes.push(node.every(Number.isFinite) ? node : null)
+    }
+  }
+
+  // Two triangles for every grid cell with nodes that could be transformed.
+  const positions: number[] = []
+  const texCoords: number[] = []
+  const axesX: number[] = []
+  const axesY: number[] = []
+  for (let row = 0; row < numCells; row++) {
+    for (let column = 0; column < numCells; column++) {
+      const corners: [number, number][] = [
+        [column, row],
+        [column + 1, row],
+        [column + 1, row + 1],
+        [column, row + 1]
+      ]
+      const cornerNodes = corners.map(
+        ([cornerColumn, cornerRow]) =>
+          nodes[cornerRow * numNodes + cornerColumn]
+      )
+      if (cornerNodes.some(node => !node)) continue
+
+      for (const index of [0, 1, 2, 0, 2, 3]) {
+        const [cornerColumn, cornerRow] = corners[index]!
+        const node = cornerNodes[index]!
+        positions.push(
+          (2 * cornerColumn) / numCells - 1,
+          (2 * cornerRow) / numCells - 1
+        )
+        texCoords.push(node[0], node[1])
+        axesX.push(node[2], node[3])
+        axesY.push(node[4], node[5])
+      }
+    }
+  }
+  return {
+    positions: new Float32Array(positions),
+    texCoords: new Float32Array(texCoords),
+    axesX: new Float32Array(axesX),
+    axesY: new Float32Array(axesY),
+    numVertices: positions.length / 2
+  }
+}
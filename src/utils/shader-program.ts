@@ -98,6 +98,14 @@ export class ShaderProgram {
     return location
   }
 
+  /**
+   * Checks whether the program has an active uniform, e.g. for uniforms that
+   * may have been optimised out of some variants of a shader.
+   */
+  hasUniform(name: string): boolean {
+    return this.uniforms.has(name)
+  }
+
   private async waitForLinking(): Promise<void> {
     // If available, use the KHR_parallel_shader_compile extension to have a
     // non-blocking call for checking the link status.
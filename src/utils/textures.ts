@@ -79,3 +79,115 @@ export function createTexture(
 
   return texture
 }
+
+/**
+ * Creates a new texture from floating-point data with two components per pixel.
+ *
+ * Floating-point textures cannot be linearly interpolated without extensions,
+ * so nearest-neighbour filtering should be used in most cases.
+ *
+ * @param filter filter to use for minification and magnification.
+ * @param data interleaved data to assign to the texture.
+ * @param width width of the texture.
+ * @param height height of the texture.
+ * @param internalFormat either RG32F or RG16F.
+ * @returns initialised texture.
+ */
+export function createFloatTexture(
+  gl: WebGL2RenderingContext,
+  filter: number,
+  data: Float32Array,
+  width: number,
+  height: number,
+  internalFormat: number
+): WebGLTexture {
+  if (data.length !== 2 * width * height) {
+    throw new Error('Only two-component floating-point textures are supported.')
+  }
+  return createDataTexture(
+    gl,
+    filter,
+    internalFormat,
+    gl.RG,
+    gl.FLOAT,
+    data,
+    width,
+    height
+  )
+}
+
+/**
+ * Creates a new single-channel texture from unsigned 8-bit integers, to be used
+ * as a mask.
+ *
+ * @param data mask data, one value per pixel.
+ * @param width width of the texture.
+ * @param height height of the texture.
+ * @returns initialised texture.
+ */
+export function createMaskTexture(
+  gl: WebGL2RenderingContext,
+  data: Uint8Array,
+  width: number,
+  height: number
+): WebGLTexture {
+  if (data.length !== width * height) {
+    throw new Error('Mask textures should have exactly one value per pixel.')
+  }
+  return createDataTexture(
+    gl,
+    gl.NEAREST,
+    gl.R8,
+    gl.RED,
+    gl.UNSIGNED_BYTE,
+    data,
+    width,
+    height
+  )
+}
+
+function createDataTexture(
+  gl: WebGL2RenderingContext,
+  filter: number,
+  internalFormat: number,
+  format: number,
+  type: number,
+  data: ArrayBufferView,
+  width: number,
+  height: number
+): WebGLTexture {
+  const texture = gl.createTexture()
+  if (texture === null) {
+    throw new Error('Failed to create texture.')
+  }
+
+  gl.bindTexture(gl.TEXTURE_2D, texture)
+
+  gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_S, gl.CLAMP_TO_EDGE)
+  gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_T, gl.CLAMP_TO_EDGE)
+  gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, filter)
+  gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MAG_FILTER, filter)
+
+  // Rows of single-channel 8-bit data are not necessarily aligned to 4 bytes,
+  // so temporarily unpack with a 1-byte alignment.
+  const previousAlignment = gl.getParameter(gl.UNPACK_ALIGNMENT) as number
+  gl.pixelStorei(gl.UNPACK_ALIGNMENT, 1)
+
+  gl.texStorage2D(gl.TEXTURE_2D, 1, internalFormat, width, height)
+  gl.texSubImage2D(
+    gl.TEXTURE_2D,
+    0, // level
+    0, // x-offset
+    0, // y-offset
+    width,
+    height,
+    format,
+    type,
+    data
+  )
+
+  gl.pixelStorei(gl.UNPACK_ALIGNMENT, previousAlignment)
+  gl.bindTexture(gl.TEXTURE_2D, null)
+
+  return texture
+}
@@ -0,0 +1,337 @@
+import {
+  createMaskTexture,
+  createFloatTexture,
+  createTexture
+} from './textures'
+
+/**
+ * Precision of the texture that floating-point velocity data are uploaded to.
+ */
+export type FloatTextureFormat = 'float32' | 'float16'
+
+export type VelocityImageData = Uint8Array | Uint8ClampedArray | Float32Array
+
+/**
+ * Representation of missing values (e.g. land) in a velocity image.
+ *
+ * NaN values in floating-point data are always considered missing, regardless
+ * of these options.
+ */
+export interface NoDataOptions {
+  /** Explicit mask with one value per pixel; a value of 0 marks missing data. */
+  mask?: Uint8Array | Uint8ClampedArray
+  /** Raw data value that marks missing data if both components are equal to it. */
+  value?: number
+  /** Whether an alpha of 0 in 8-bit RGBA data marks missing data. */
+  useAlphaChannel?: boolean
+}
+
+export interface VelocityImageOptions {
+  /** Precision of the texture that floating-point data are uploaded to. */
+  floatFormat?: FloatTextureFormat
+  /**
+   * Representation of missing data. If not specified, 8-bit data with both the
+   * R- and G-channel equal to 255 are considered missing.
+   */
+  noData?: NoDataOptions
+}
+
+/**
+ * A velocity field on a regular grid.
+ *
+ * Velocity data are either quantised 8-bit RGB(A) data, where the R- and
+ * G-channels are converted to velocities with the specified scales and
+ * offsets, or floating-point data with interleaved U- and V-components. The
+ * first row of the image corresponds to the top (i.e. northern) edge of the
+ * field.
+ *
+ * Missing data are tracked in a mask, which is uploaded as a separate texture
+ * so that renderers can distinguish missing data from any valid velocity.
+ */
+export class VelocityImage {
+  private readonly mask: Uint8Array
+  private cachedMaxVelocity: [number, number] | null
+
+  constructor(
+    private readonly data: VelocityImageData,
+    readonly width: number,
+    readonly height: number,
+    readonly uOffset: number,
+    readonly vOffset: number,
+    readonly uScale: number,
+    readonly vScale: number,
+    private readonly options: VelocityImageOptions = {}
+  ) {
+    const numPixels = width * height
+    if (data instanceof Float32Array) {
+      if (data.length !== 2 * numPixels) {
+        throw new Error(
+          'Floating-point velocity data should have exactly two components (U and V) per pixel.'
+        )
+      }
+    } else if (data.length !== 3 * numPixels && data.length !== 4 * numPixels) {
+      throw new Error(
+        '8-bit velocity data should have three (RGB) or four (RGBA) channels per pixel.'
+      )
+    }
+    if (
+      options.noData?.mask !== undefined &&
+      options.noData.mask.length !== numPixels
+    ) {
+      throw new Error('No-data mask should have exactly one value per pixel.')
+    }
+    if (options.noData?.useAlphaChannel && data.length !== 4 * numPixels) {
+      throw new Error(
+        'Can only use the alpha channel as no-data mask for 8-bit RGBA data.'
+      )
+    }
+    this.mask = this.computeMask()
+    this.cachedMaxVelocity = null
+  }
+
+  /**
+   * Creates a velocity image from separate U- and V-component arrays.
+   *
+   * Missing values should be specified as NaN, or through the no-data options.
+   *
+   * @param u U-component (eastward) of the velocity, row-major from the top.
+   * @param v V-component (northward) of the velocity, row-major from the top.
+   * @param width width of the velocity field.
+   * @param height height of the velocity field.
+   * @param options texture format and no-data options.
+   * @returns velocity image with the interleaved velocity components.
+   */
+  static fromComponents(
+    u: Float32Array,
+    v: Float32Array,
+    width: number,
+    height: number,
+    options: VelocityImageOptions = {}
+  ): VelocityImage {
+    const numPixels = width * height
+    if (u.length !== numPixels || v.length !== numPixels) {
+      throw new Error(
+        'Length of velocity components does not match the image dimensions.'
+      )
+    }
+    const data = new Float32Array(2 * numPixels)
+    for (let i = 0; i < numPixels; i++) {
+      data[2 * i] = u[i]!
+      data[2 * i + 1] = v[i]!
+    }
+    return new VelocityImage(data, width, height, 0, 0, 1, 1, options)
+  }
+
+  /** Whether the velocity data are specified as floating-point numbers. */
+  get isFloat(): boolean {
+    return this.data instanceof Float32Array
+  }
+
+  /** Number of bytes used by the velocity data and the no-data mask. */
+  get byteLength(): number {
+    return this.data.byteLength + this.mask.byteLength
+  }
+
+  /**
+   * Computes the maximum absolute velocity components over all non-missing
+   * pixels.
+   *
+   * @returns maximum absolute U- and V-velocity.
+   */
+  maxVelocity(): [number, number] {
+    if (this.cachedMaxVelocity) return this.cachedMaxVelocity
+
+    let maxU = 0
+    let maxV = 0
+    const numPixels = this.width * this.height
+    for (let i = 0; i < numPixels; i++) {
+      if (this.mask[i] === 0) continue
+      const [u, v] = this.getVelocity(i)
+      maxU = Math.max(maxU, Math.abs(u))
+      maxV = Math.max(maxV, Math.abs(v))
+    }
+    this.cachedMaxVelocity = [maxU, maxV]
+    return this.cachedMaxVelocity
+  }
+
+  /**
+   * Gets the velocity at a pixel.
+   *
+   * @param column column of the pixel, from the left.
+   * @param row row of the pixel, from the top.
+   * @returns U- and V-velocity, or null if the velocity is missing.
+   */
+  getVelocityAt(column: number, row: number): [number, number] | null {
+    const index = row * this.width + column
+    if (this.mask[index] === 0) return null
+    return this.getVelocity(index)
+  }
+
+  /**
+   * Resamples a region of the velocity image into a floating-point velocity
+   * image, e.g. to show part of the image at a higher resolution.
+   *
+   * Velocities are interpolated bilinearly between the centres of the pixels;
+   * where any of the surrounding pixels is missing, the nearest pixel is used.
+   * Pixels outside of the image are missing.
+   *
+   * @param boundingBox bounding box of this image, as [xMin, yMin, xMax, yMax].
+   * @param region bounding box of the region to resample, in the same
+   *   coordinates.
+   * @param width width of the resampled image.
+   * @param height height of the resampled image.
+   * @param options texture format of the resampled image.
+   * @returns velocity image covering the region.
+   */
+  resample(
+    boundingBox: [number, number, number, number],
+    region: [number, number, number, number],
+    width: number,
+    height: number,
+    options: Omit<VelocityImageOptions, 'noData'> = {}
+  ): VelocityImage {
+    const [xMin, yMin, xMax, yMax] = boundingBox
+    const [regionXMin, regionYMin, regionXMax, regionYMax] = region
+    const u = new Float32Array(width * height).fill(NaN)
+    const v = new Float32Array(width * height).fill(NaN)
+    for (let row = 0; row < height; row++) {
+      const y = regionYMax - ((row + 0.5) * (regionYMax - regionYMin)) / height
+      // Fractional pixel coordinates with respect to the pixel centres.
+      const pixelY = ((yMax - y) / (yMax - yMin)) * this.height - 0.5
+      for (let column = 0; column < width; column++) {
+        const x =
+          regionXMin + ((column + 0.5) * (regionXMax - regionXMin)) / width
+        const pixelX = ((x - xMin) / (xMax - xMin)) * this.width - 0.5
+        const velocity = this.interpolateVelocity(pixelX, pixelY)
+        if (!velocity) continue
+        u[row * width + column] = velocity[0]
+        v[row * width + column] = velocity[1]
+      }
+    }
+    return VelocityImage.fromComponents(u, v, width, height, options)
+  }
+
+  /**
+   * Creates a texture with the velocity data.
+   *
+   * Float32 textures can only be interpolated linearly with the
+   * OES_texture_float_linear extension; without it, they fall back to
+   * nearest-neighbour filtering.
+   */
+  toTexture(gl: WebGL2RenderingContext, interpolate: boolean): WebGLTexture {
+    if (this.data instanceof Float32Array) {
+      const isFloat16 = this.options.floatFormat === 'float16'
+      const canInterpolate =
+        isFloat16 || gl.getExtension('OES_texture_float_linear') !== null
+      return createFloatTexture(
+        gl,
+        interpolate && canInterpolate ? gl.LINEAR : gl.NEAREST,
+        this.data,
+        this.width,
+        this.height,
+        isFloat16 ? gl.RG16F : gl.RG32F
+      )
+    }
+    const filter = interpolate ? gl.LINEAR : gl.NEAREST
+    return createTexture(gl, filter, this.data, this.width, this.height)
+  }
+
+  /**
+   * Creates a single-channel texture with a value of 1.0 for pixels with a
+   * valid velocity, and 0.0 for pixels with missing velocity.
+   */
+  toMaskTexture(gl: WebGL2RenderingContext): WebGLTexture {
+    return createMaskTexture(gl, this.mask, this.width, this.height)
+  }
+
+  private get numChannels(): number {
+    return this.data.length / (this.width * this.height)
+  }
+
+  private getVelocity(index: number): [number, number] {
+    const offset = this.numChannels * index
+    const first = this.data[offset]!
+    const second = this.data[offset + 1]!
+    if (this.isFloat) {
+      return [
+        first * this.uScale + this.uOffset,
+        second * this.vScale + this.vOffset
+      ]
+    }
+    // Scales apply to the normalised texture values in the range [0, 1].
+    return [
+      (first / 255) * this.uScale + this.uOffset,
+      (second / 255) * this.vScale + this.vOffset
+    ]
+  }
+
+  private interpolateVelocity(
+    pixelX: number,
+    pixelY: number
+  ): [number, number] | null {
+    const column = Math.round(pixelX)
+    const row = Math.round(pixelY)
+    if (column < 0 || column >= this.width || row < 0 || row >= this.height) {
+      return null
+    }
+
+    // Clamp to the edge pixels, like texture sampling does.
+    const left = Math.min(Math.max(Math.floor(pixelX), 0), this.width - 1)
+    const top = Math.min(Math.max(Math.floor(pixelY), 0), this.height - 1)
+    const right = Math.min(left + 1, this.width - 1)
+    const bottom = Math.min(top + 1, this.height - 1)
+    const fx = Math.min(Math.max(pixelX - left, 0), 1)
+    const fy = Math.min(Math.max(pixelY - top, 0), 1)
+    const neighbours: [number, number, number][] = [
+      [left, top, (1 - fx) * (1 - fy)],
+      [right, top, fx * (1 - fy)],
+      [left, bottom, (1 - fx) * fy],
+      [right, bottom, fx * fy]
+    ]
+
+    let u = 0
+    let v = 0
+    for (const [neighbourColumn, neighbourRow, weight] of neighbours) {
+      if (weight === 0) continue
+      const velocity = this.getVelocityAt(neighbourColumn, neighbourRow)
+      if (!velocity) return this.getVelocityAt(column, row)
+      u += weight * velocity[0]
+      v += weight * velocity[1]
+    }
+    return [u, v]
+  }
+
+  private computeMask(): Uint8Array {
+    const numPixels = this.width * this.height
+    const numChannels = this.numChannels
+    const noData = this.options.noData
+    // Without any no-data options, we use the sentinel value for 8-bit data
+    // that is used by FEWS: there is no velocity if r = g = 255.
+    const sentinel = noData ? noData.value : this.isFloat ? undefined : 255
+
+    const mask = new Uint8Array(numPixels)
+    for (let i = 0; i < numPixels; i++) {
+      const first = this.data[numChannels * i]!
+      const second = this.data[numChannels * i + 1]!
+
+      const isNaN = Number.isNaN(first) || Number.isNaN(second)
+      const isSentinel = first === sentinel && second === sentinel
+      const isMasked = noData?.mask !== undefined && noData.mask[i] === 0
+      const isTransparent =
+        noData?.useAlphaChannel === true && this.data[numChannels * i + 3] === 0
+
+      const isMissing = isNaN || isSentinel || isMasked || isTransparent
+      mask[i] = isMissing ? 0 : 255
+    }
+    return mask
+  }
+}
+
+/**
+ * A velocity image together with its geographic extent.
+ */
+export interface GeoreferencedVelocityImage {
+  velocityImage: VelocityImage
+  /** Bounding box of the image as [west, south, east, north]. */
+  boundingBox: [number, number, number, number]
+}
@@ -2,47 +2,25 @@ import type { GetCapabilitiesResponse } from '@deltares/fews-wms-requests'
 import * as GeoTIFF from 'geotiff'
 
 import { Color, Colormap } from './colormap'
-import { createTexture } from './textures'
+import {
+  AbortedError,
+  EmptyImageError,
+  FetchError,
+  MalformedGeoTiffError,
+  ServiceExceptionError,
+  parseServiceException
+} from './errors'
+import { type RetryOptions, fetchWithRetry, readResponse } from './fetch'
+import { VelocityImage } from './velocity-image'
 
 export type TransformRequestFunction = (request: Request) => Promise<Request>
 
-export class VelocityImage {
-  constructor(
-    private readonly data: Uint8Array | Uint8ClampedArray,
-    readonly width: number,
-    readonly height: number,
-    readonly uOffset: number,
-    readonly vOffset: number,
-    readonly uScale: number,
-    readonly vScale: number
-  ) {}
-
-  maxVelocity(): [number, number] {
-    const computeU = (r: number) => r * this.uScale + this.uOffset
-    const computeV = (g: number) => g * this.vScale + this.vOffset
-
-    return [
-      Math.max(computeU(0), computeU(1)),
-      Math.max(computeV(0), computeV(1))
-    ]
-  }
-
-  toTexture(gl: WebGL2RenderingContext, interpolate: boolean): WebGLTexture {
-    return createTexture(
-      gl,
-      interpolate ? gl.LINEAR : gl.NEAREST,
-      this.data,
-      this.width,
-      this.height
-    )
-  }
-}
-
 /**
  * Fetches a colormap for a WMS layer from the FEWS web services.
  *
  * @param baseUrl base URL of the FEWS WMS service.
  * @param layer layer to obtain the legend for.
+ * @param retry options for retrying transient failures.
  * @returns Colormap fetched from the FEWS WMS service.
  */
 export async function fetchWMSColormap(
@@ -50,7 +28,8 @@ export async function fetchWMSColormap(
   layer: string,
   colorScaleRange?: [number, number],
   signal?: AbortSignal,
-  transformRequest?: TransformRequestFunction
+  transformRequest?: TransformRequestFunction,
+  retry?: RetryOptions
 ): Promise<Colormap> {
   const url = new URL(baseUrl)
   url.searchParams.append('request', 'GetLegendGraphic')
@@ -61,11 +40,20 @@ export async function fetchWMSColormap(
     url.searchParams.append('colorScaleRange', `${colorScaleRange.join(',')}`)
   }
 
-  const request = new Request(url)
-  const transformedRequest = (await transformRequest?.(request)) ?? request
-  const response = await fetch(new Request(transformedRequest, { signal }))
-  const data = (await response.json()) as {
-    legend: { lowerValue: number; color: string }[]
+  const response = await fetchWithRetry(
+    new Request(url),
+    signal,
+    transformRequest,
+    retry
+  )
+  const data = await readJsonResponse<{
+    legend?: { lowerValue: number; color: string }[]
+  }>(response, signal, data => data.legend !== undefined)
+  if (!data.legend) {
+    throw new FetchError(
+      'WMS GetLegendGraphic response contains no legend.',
+      response.url
+    )
   }
 
   return new Colormap(
@@ -78,7 +66,8 @@ export async function fetchWMSAvailableTimesAndElevations(
   baseUrl: string,
   layerName: string,
   signal?: AbortSignal,
-  transformRequest?: TransformRequestFunction
+  transformRequest?: TransformRequestFunction,
+  retry?: RetryOptions
 ): Promise<{ times: string[]; elevationBounds: [number, number] | null }> {
   const url = new URL(baseUrl)
   url.searchParams.append('request', 'GetCapabilities')
@@ -86,17 +75,30 @@ export async function fetchWMSAvailableTimesAndElevations(
   url.searchParams.append('version', '1.3')
   url.searchParams.append('layers', layerName)
 
-  const request = new Request(url)
-  const transformedRequest = (await transformRequest?.(request)) ?? request
-  const response = await fetch(new Request(transformedRequest, { signal }))
-  const capabilities = (await response.json()) as GetCapabilitiesResponse
+  const response = await fetchWithRetry(
+    new Request(url),
+    signal,
+    transformRequest,
+    retry
+  )
+  const capabilities = await readJsonResponse<GetCapabilitiesResponse>(
+    response,
+    signal,
+    capabilities => capabilities.layers !== undefined
+  )
 
   const layer = capabilities.layers?.[0]
   if (!layer) {
-    throw new Error('WMS GetCapabilities response contains no layers.')
+    throw new FetchError(
+      'WMS GetCapabilities response contains no layers.',
+      response.url
+    )
   }
   if (!layer.times) {
-    throw new Error('WMS GetCapabilities response contains no times.')
+    throw new FetchError(
+      'WMS GetCapabilities response contains no times.',
+      response.url
+    )
   }
 
   const lowerElevation = layer.elevation?.lowerValue
@@ -133,13 +135,15 @@ export async function fetchWMSVelocityField(
   useLastValue?: boolean,
   elevation?: number,
   signal?: AbortSignal,
-  transformRequest?: TransformRequestFunction
+  transformRequest?: TransformRequestFunction,
+  crs: string = 'EPSG:3857',
+  retry?: RetryOptions
 ): Promise<VelocityImage> {
   const url = new URL(baseUrl)
   url.searchParams.append('request', 'GetMap')
   url.searchParams.append('version', '1.3')
   url.searchParams.append('layers', layer)
-  url.searchParams.append('crs', 'EPSG:3857')
+  url.searchParams.append('crs', crs)
   url.searchParams.append('time', time)
   url.searchParams.append('width', width.toString())
   url.searchParams.append('height', height.toString())
@@ -162,21 +166,53 @@ export async function fetchWMSVelocityField(
     url.searchParams.append('elevation', `${elevation}`)
   }
 
-  return fetchGeoTiffVelocityField(url, signal, transformRequest)
+  return fetchGeoTiffVelocityField(url, signal, transformRequest, retry)
 }
 
 export async function fetchGeoTiffVelocityField(
   url: URL,
   signal?: AbortSignal,
-  transformRequest?: TransformRequestFunction
+  transformRequest?: TransformRequestFunction,
+  retry?: RetryOptions
 ): Promise<VelocityImage> {
-  const request = new Request(url)
-  const transformedRequest = (await transformRequest?.(request)) ?? request
-  const response = await fetch(new Request(transformedRequest, { signal }))
-  const arrayBuffer = await response.arrayBuffer()
+  const response = await fetchWithRetry(
+    new Request(url),
+    signal,
+    transformRequest,
+    retry
+  )
+  const arrayBuffer = await readResponse(response, signal, response =>
+    response.arrayBuffer()
+  )
+  if (arrayBuffer.byteLength === 0) throw new EmptyImageError(response.url)
 
-  const tiff = await GeoTIFF.fromArrayBuffer(arrayBuffer, signal)
-  const image = await tiff.getImage()
+  // WMS services may report exceptions with a successful status, in XML or
+  // JSON rather than the requested image format.
+  const contentType = response.headers.get('Content-Type') ?? ''
+  if (contentType.includes('xml') || contentType.includes('json')) {
+    const body = new TextDecoder().decode(arrayBuffer)
+    const exception = parseServiceException(body)
+    if (exception) {
+      throw new ServiceExceptionError(
+        exception.message,
+        exception.code,
+        response.status,
+        response.url
+      )
+    }
+  }
+
+  let image: GeoTIFF.GeoTIFFImage
+  try {
+    const tiff = await GeoTIFF.fromArrayBuffer(arrayBuffer, signal)
+    image = await tiff.getImage()
+  } catch (error) {
+    if (signal?.aborted) throw new AbortedError(response.url)
+    throw new MalformedGeoTiffError(
+      `Failed to read GeoTIFF: ${String(error)}.`,
+      response.url
+    )
+  }
   const fileDirectory = image.getFileDirectory() as FewsGeoTiffMetadata
 
   const expectedProperties: (keyof FewsGeoTiffMetadata)[] = [
@@ -193,8 +229,9 @@ export async function fetchGeoTiffVelocityField(
     const propertiesString = expectedProperties
       .map(property => `"${property}"`)
       .join(', ')
-    throw new Error(
-      `GeoTIFF metadata does not contain all expected properties; need the following properties: ${propertiesString}`
+    throw new MalformedGeoTiffError(
+      `GeoTIFF metadata does not contain all expected properties; need the following properties: ${propertiesString}`,
+      response.url
     )
   }
 
@@ -203,8 +240,9 @@ export async function fetchGeoTiffVelocityField(
     (numBits: number) => numBits === 8
   )
   if (!isAllChannels8Bit) {
-    throw new Error(
-      'Fetched GeoTIFF does not have the expected 8 bits bitdepth per channel.'
+    throw new MalformedGeoTiffError(
+      'Fetched GeoTIFF does not have the expected 8 bits bitdepth per channel.',
+      response.url
     )
   }
 
@@ -219,6 +257,9 @@ export async function fetchGeoTiffVelocityField(
   // WebGL.
   const receivedWidth = fileDirectory.ImageWidth!
   const receivedHeight = fileDirectory.ImageLength!
+  if (receivedWidth === 0 || receivedHeight === 0) {
+    throw new EmptyImageError(response.url)
+  }
   const uOffset = fileDirectory.ModelTiepoint![0]
   const uScale = fileDirectory.ModelPixelScale![0] * 255
   const vOffset = fileDirectory.ModelTiepoint![1]
@@ -234,3 +275,33 @@ export async function fetchGeoTiffVelocityField(
     vScale
   )
 }
+
+async function readJsonResponse<T>(
+  response: Response,
+  signal: AbortSignal | undefined,
+  isExpected: (data: T) => boolean
+): Promise<T> {
+  const body = await readResponse(response, signal, response => response.text())
+  let data: T | null = null
+  try {
+    data = JSON.parse(body) as T
+  } catch {
+    // Not JSON; this may be a ServiceException in XML.
+  }
+  if (data !== null && isExpected(data)) return data
+
+  // WMS services may report exceptions with a successful status.
+  const exception = parseServiceException(body)
+  if (exception) {
+    throw new ServiceExceptionError(
+      exception.message,
+      exception.code,
+      response.status,
+      response.url
+    )
+  }
+  if (data === null) {
+    throw new FetchError('Response is not valid JSON.', response.url)
+  }
+  return data
+}
@@ -18,9 +18,14 @@ import {
   ParticleRenderer,
   TextureRenderer
 } from './render'
-import { VelocityImage } from './utils/wms'
+import { VelocityImage } from './utils/velocity-image'
 import { Colormap } from './utils/colormap'
-import type { BoundingBoxScaling } from './render/final'
+import {
+  type BoundingBoxScaling,
+  combineBoundingBoxScalings,
+  computeBoundingBoxScaling
+} from './render/final'
+import type { ShaderProjection } from './render/projection'
 import { FragmentShader, VertexShader } from './utils/shader'
 
 export enum TrailParticleShape {
@@ -62,6 +67,10 @@ export function determineDoRotateParticles(
 export class StreamlineVisualiser {
   private readonly MAX_NUM_SUBSTEPS = 32
   private readonly DEFAULT_GROWTH_RATE = 5
+  // Maximum distance of the origin of georeferenced particle positions to the
+  // bounding box, relative to its size; beyond this, single-precision particle
+  // positions lose too much precision and the origin is moved.
+  private readonly MAX_RELATIVE_ORIGIN_DISTANCE = 100
 
   private readonly gl: WebGL2RenderingContext
   private width: number
@@ -78,9 +87,21 @@ export class StreamlineVisualiser {
   private spriteRenderer: ParticleRenderer | null
 
   private scaling: BoundingBoxScaling
+  private projection: ShaderProjection | null
+  // Horizontal offsets of the copies of the velocity images to render, in
+  // widths of their bounding box.
+  private copyOffsets: number[]
+  // Scaling to move the particle trails with in the next frame, if the
+  // particles were moved.
+  private trailScaling: BoundingBoxScaling | null
+  // Bounding box of the velocity images in world coordinates, and the origin of
+  // the particle positions, if particle positions are georeferenced.
+  private boundingBox: [number, number, number, number] | null
+  private origin: [number, number] | null
   private previousParticleTexture: WebGLTexture | null
   private currentParticleTexture: WebGLTexture | null
   private velocityImage: VelocityImage | null
+  private nextVelocityImage: VelocityImage | null
   private colorMap: Colormap | null
   private dtMin: number
 
@@ -106,9 +127,15 @@ export class StreamlineVisualiser {
     this.spriteRenderer = null
 
     this.scaling = { scaleX: 1, scaleY: 1, offsetX: 0, offsetY: 0 }
+    this.projection = null
+    this.copyOffsets = [0]
+    this.trailScaling = null
+    this.boundingBox = null
+    this.origin = null
     this.previousParticleTexture = null
     this.currentParticleTexture = null
     this.velocityImage = null
+    this.nextVelocityImage = null
     this.colorMap = null
     this.dtMin = 0
   }
@@ -240,6 +267,11 @@ export class StreamlineVisualiser {
       this.previousParticleTexture,
       this.currentParticleTexture
     )
+
+    // New particles are in clip coordinates, so the next bounding box should
+    // apply its scaling to them and reset them, even if it is unchanged.
+    this.boundingBox = null
+    this.origin = null
   }
 
   start(): void {
@@ -266,6 +298,28 @@ export class StreamlineVisualiser {
     this.scaling = scaling
   }
 
+  /**
+   * Sets the projection to render the final result with, e.g. to render on a
+   * globe. Sprites are not rendered with a projection.
+   *
+   * @param projection projection of the velocity images' bounding box, or null
+   *   to render on a flat map with the scaling set by `setScaling`.
+   */
+  setProjection(projection: ShaderProjection | null): void {
+    this.projection = projection
+  }
+
+  /**
+   * Sets the copies of the velocity images to render, e.g. for world copies on
+   * maps that show more than one world.
+   *
+   * @param offsets horizontal offsets of the copies, in widths of the bounding
+   *   box of the velocity images; [0] renders the velocity images once.
+   */
+  setCopyOffsets(offsets: number[]): void {
+    this.copyOffsets = offsets
+  }
+
   setDimensions(width: number, height: number): void {
     if (!this.particlePropagator || !this.particleRenderer) {
       throw new Error('Cannot set dimensions for uninitialised visualiser.')
@@ -338,9 +392,133 @@ export class StreamlineVisualiser {
   setVelocityImage(
     velocityImage: VelocityImage,
     doResetParticles: boolean
+  ): void {
+    this.setVelocityImages(velocityImage, null, doResetParticles)
+  }
+
+  /**
+   * Sets the velocity images to interpolate between in time.
+   *
+   * Both images should cover the same bounding box. The visualiser interpolates
+   * linearly between them with the blend factor; see `setBlendFactor`. Images
+   * that were set before are not uploaded to the GPU again, so stepping through
+   * time by passing the previous next image as the current image is cheap.
+   *
+   * @param velocityImage velocity image at the start of the time interval.
+   * @param nextVelocityImage velocity image at the end of the time interval, or
+   *   null to show the first velocity image only.
+   * @param doResetParticles whether to reset the particles.
+   */
+  setVelocityImages(
+    velocityImage: VelocityImage,
+    nextVelocityImage: VelocityImage | null,
+    doResetParticles: boolean
   ): void {
     if (doResetParticles) this.resetParticles()
-    this.updateVelocityImage(velocityImage)
+    this.updateVelocityImages(velocityImage, nextVelocityImage)
+  }
+
+  /**
+   * Sets the bounding box of the velocity images in world coordinates, e.g.
+   * EPSG:3857, to georeference the particle positions.
+   *
+   * Particle positions are then stored in world coordinates rather than clip
+   * coordinates of the velocity images, so particles and their trails keep
+   * their positions when the bounding box changes, e.g. when panning or
+   * zooming. Call this before setting velocity images for the new bounding
+   * box. Particles are reset the first time the bounding box is set.
+   *
+   * @param boundingBox bounding box as [xMin, yMin, xMax, yMax].
+   */
+  setBoundingBox(boundingBox: [number, number, number, number]): void {
+    if (!this.particlePropagator) {
+      throw new Error('Cannot set bounding box for uninitialised visualiser.')
+    }
+    const previousBoundingBox = this.boundingBox
+    const isUnchanged =
+      previousBoundingBox !== null &&
+      previousBoundingBox.every((value, i) => value === boundingBox[i])
+    if (isUnchanged) return
+
+    const [xMin, yMin, xMax, yMax] = boundingBox
+    const width = xMax - xMin
+    const height = yMax - yMin
+    const xCentre = 0.5 * (xMin + xMax)
+    const yCentre = 0.5 * (yMin + yMax)
+
+    const previousOrigin = this.origin
+    // Store positions relative to an origin close to the bounding box, to keep
+    // sufficient precision in single-precision particle positions.
+    const maxDistance =
+      this.MAX_RELATIVE_ORIGIN_DISTANCE * Math.max(width, height)
+    const isOriginTooFar =
+      previousOrigin === null ||
+      Math.abs(previousOrigin[0] - xCentre) > maxDistance ||
+      Math.abs(previousOrigin[1] - yCentre) > maxDistance
+    const origin: [number, number] = isOriginTooFar
+      ? [xCentre, yCentre]
+      : previousOrigin
+    this.boundingBox = boundingBox
+    this.origin = origin
+
+    this.setPositionScaling({
+      scaleX: 2 / width,
+      scaleY: 2 / height,
+      offsetX: (2 * (origin[0] - xCentre)) / width,
+      offsetY: (2 * (origin[1] - yCentre)) / height
+    })
+
+    if (previousBoundingBox === null || previousOrigin === null) {
+      // Particle positions were in clip coordinates; start afresh.
+      this.resetParticles()
+      return
+    }
+    if (origin !== previousOrigin) {
+      this.particlePropagator.transformParticles({
+        scaleX: 1,
+        scaleY: 1,
+        offsetX: previousOrigin[0] - origin[0],
+        offsetY: previousOrigin[1] - origin[1]
+      })
+    }
+    this.moveTrails(computeBoundingBoxScaling(previousBoundingBox, boundingBox))
+  }
+
+  /**
+   * Moves the particles and their trails to a new bounding box.
+   *
+   * Call this before setting velocity images for a different bounding box (e.g.
+   * after panning) to keep the particles at their geographic positions instead
+   * of resetting them. This is not needed for georeferenced particle positions;
+   * see `setBoundingBox`.
+   *
+   * @param scaling scaling from the old to the new bounding box, in clip
+   *   coordinates of the new bounding box.
+   */
+  transformParticles(scaling: BoundingBoxScaling): void {
+    if (!this.particlePropagator) {
+      throw new Error('Cannot move particles for uninitialised visualiser.')
+    }
+    this.particlePropagator.transformParticles(scaling)
+    this.moveTrails(scaling)
+  }
+
+  /**
+   * Sets the factor to interpolate between the current and next velocity
+   * image.
+   *
+   * @param blendFactor interpolation factor, from 0 (current image) to 1 (next
+   *   image).
+   */
+  setBlendFactor(blendFactor: number): void {
+    if (!this.particlePropagator || !this.finalRenderer) {
+      throw new Error('Cannot set blend factor for uninitialised visualiser.')
+    }
+    if (blendFactor < 0 || blendFactor > 1) {
+      throw new Error('Blend factor should be between 0 and 1.')
+    }
+    this.particlePropagator.blendFactor = blendFactor
+    this.finalRenderer.blendFactor = blendFactor
   }
 
   async updateOptions(options: Partial<StreamlineVisualiserOptions>) {
@@ -375,6 +553,8 @@ export class StreamlineVisualiser {
         this._options.growthRate ?? this.DEFAULT_GROWTH_RATE,
         true
       )
+      this.spriteRenderer.positionScaling =
+        this.particleRenderer.positionScaling
       this.spriteRenderer.initialise()
     } else if (
       this.spriteRenderer !== null &&
@@ -446,6 +626,18 @@ export class StreamlineVisualiser {
       this.particlePropagator.resetAges()
     }
 
+    // Move the latest particle trails if the particles were moved, and swap so
+    // they become the previous trails for this frame.
+    if (this.trailScaling) {
+      this.textureRenderer.render(
+        this.previousParticleTexture,
+        0,
+        this.trailScaling
+      )
+      this.swapParticleTextures()
+      this.trailScaling = null
+    }
+
     // Check whether we need to do any substepping.
     const needSubstepping = dt > this.dtMin
     // Never do more than a certain number of substeps.
@@ -486,17 +678,46 @@ export class StreamlineVisualiser {
 
     // Finally, render the velocity magnitude with the particles (and trails)
     // blended with it.
-    this.finalRenderer.render(this.currentParticleTexture, this.scaling)
+    for (const offset of this.copyOffsets) {
+      this.finalRenderer.render(
+        this.currentParticleTexture,
+        this.offsetScaling(offset),
+        this.offsetProjection(offset)
+      )
+    }
 
-    if (this.spriteRenderer) {
+    if (this.spriteRenderer && !this.projection) {
       // Render the sprite in the final position, on top of everything.
-      this.spriteRenderer.render(this.particlePropagator.buffers, this.scaling)
+      for (const offset of this.copyOffsets) {
+        this.spriteRenderer.render(
+          this.particlePropagator.buffers,
+          this.offsetScaling(offset)
+        )
+      }
     }
 
     // Swap previous and current particle texture.
     this.swapParticleTextures()
   }
 
+  private offsetScaling(offset: number): BoundingBoxScaling {
+    // The bounding box is 2 * scaleX wide in clip coordinates.
+    return {
+      ...this.scaling,
+      offsetX: this.scaling.offsetX + 2 * offset * this.scaling.scaleX
+    }
+  }
+
+  private offsetProjection(offset: number): ShaderProjection | null {
+    if (!this.projection) return null
+    const [xMin, yMin, xMax, yMax] = this.projection.boundingBox
+    const shift = offset * (xMax - xMin)
+    return {
+      ...this.projection,
+      boundingBox: [xMin + shift, yMin, xMax + shift, yMax]
+    }
+  }
+
   private async compileShaderPrograms(): Promise<
     [ShaderProgram, ShaderProgram, ShaderProgram, ShaderProgram]
   > {
@@ -588,7 +809,14 @@ export class StreamlineVisualiser {
 
     // Convert the maximum velocity from physical units to clip coordinates,
     // similar to how it is done in the particle propagator shader.
+    // When interpolating in time, the velocity is bounded by the maximum of
+    // both velocity images.
     let [maxU, maxV] = this.velocityImage.maxVelocity()
+    if (this.nextVelocityImage) {
+      const [nextMaxU, nextMaxV] = this.nextVelocityImage.maxVelocity()
+      maxU = Math.max(maxU, nextMaxU)
+      maxV = Math.max(maxV, nextMaxV)
+    }
     maxU *= (this.height / this.width) * this._options.speedFactor
     maxV *= this._options.speedFactor
 
@@ -690,10 +918,28 @@ export class StreamlineVisualiser {
     this.textureRenderer?.swapBuffers()
   }
 
+  private moveTrails(scaling: BoundingBoxScaling): void {
+    // The trails are moved when rendering the next frame, since we should not
+    // render in between frames of e.g. a map. Combine with any earlier moves
+    // since the last frame.
+    this.trailScaling = this.trailScaling
+      ? combineBoundingBoxScalings(this.trailScaling, scaling)
+      : scaling
+  }
+
+  private setPositionScaling(scaling: BoundingBoxScaling): void {
+    if (this.particlePropagator) {
+      this.particlePropagator.positionScaling = scaling
+    }
+    if (this.particleRenderer) this.particleRenderer.positionScaling = scaling
+    if (this.spriteRenderer) this.spriteRenderer.positionScaling = scaling
+  }
+
   private resetParticles(): void {
     // Reset particle positions and ages.
     this.particlePropagator?.resetBuffers()
     // Reset rendered particle textures.
+    this.trailScaling = null
     this.previousParticleTexture = this.createZeroTexture()
     this.currentParticleTexture = this.createZeroTexture()
     this.textureRenderer?.resetParticleTextures(
@@ -702,13 +948,26 @@ export class StreamlineVisualiser {
     )
   }
 
-  private updateVelocityImage(velocityImage: VelocityImage): void {
+  private updateVelocityImages(
+    velocityImage: VelocityImage,
+    nextVelocityImage: VelocityImage | null
+  ): void {
     if (!this.particlePropagator || !this.finalRenderer) {
       throw new Error('Cannot set velocity image for uninitialised visualiser.')
     }
+    if (
+      nextVelocityImage &&
+      (nextVelocityImage.width !== velocityImage.width ||
+        nextVelocityImage.height !== velocityImage.height)
+    ) {
+      throw new Error(
+        'Velocity images to interpolate between should have the same dimensions.'
+      )
+    }
     this.velocityImage = velocityImage
-    this.particlePropagator.setVelocityImage(velocityImage)
-    this.finalRenderer.setVelocityImage(velocityImage)
+    this.nextVelocityImage = nextVelocityImage
+    this.particlePropagator.setVelocityImages(velocityImage, nextVelocityImage)
+    this.finalRenderer.setVelocityImages(velocityImage, nextVelocityImage)
     this.dtMin = this.computeMinimumTimeStep()
   }
 
@@ -0,0 +1,88 @@
+import { expect, test, vi } from 'vitest'
+
+import {
+  AntimeridianVelocityFieldSource,
+  type VelocityFieldRequest,
+  type VelocityFieldSource
+} from '@/sources'
+import { VelocityImage } from '@/utils/velocity-image'
+
+const extent = 20037508.34
+
+function createSource() {
+  return {
+    getAvailableTimesAndElevations: vi.fn(),
+    getColormap: vi.fn(),
+    // Fields with a U-velocity equal to the relative western edge of the
+    // requested bounding box, and a V-velocity equal to the row.
+    getVelocityField: vi.fn(async (request: VelocityFieldRequest) => {
+      const [xMin] = request.boundingBox
+      const numPixels = request.width * request.height
+      const u = new Float32Array(numPixels).fill(xMin / extent)
+      const v = new Float32Array(numPixels)
+      for (let i = 0; i < numPixels; i++) {
+        v[i] = Math.floor(i / request.width)
+      }
+      return VelocityImage.fromComponents(u, v, request.width, request.height)
+    })
+  } satisfies VelocityFieldSource
+}
+
+test('splits bounding boxes crossing the antimeridian', async () => {
+  const source = createSource()
+  const antimeridian = new AntimeridianVelocityFieldSource(source)
+
+  // From 90° to 225° east, i.e. 135° west.
+  const velocityImage = await antimeridian.getVelocityField({
+    boundingBox: [0.5 * extent, 0, 1.25 * extent, extent],
+    width: 3,
+    height: 2,
+    time: '2024-01-01T00:00:00Z'
+  })
+  const requests = source.getVelocityField.mock.calls.map(call => call[0])
+  expect(requests).toEqual([
+    {
+      boundingBox: [0.5 * extent, 0, extent, extent],
+      width: 2,
+      height: 2,
+      time: '2024-01-01T00:00:00Z'
+    },
+    {
+      boundingBox: [-extent, 0, -0.75 * extent, extent],
+      width: 1,
+      height: 2,
+      time: '2024-01-01T00:00:00Z'
+    }
+  ])
+
+  expect(velocityImage.width).toBe(3)
+  expect(velocityImage.getVelocityAt(0, 0)).toEqual([0.5, 0])
+  expect(velocityImage.getVelocityAt(1, 1)).toEqual([0.5, 1])
+  expect(velocityImage.getVelocityAt(2, 1)).toEqual([-1, 1])
+})
+
+test('passes bounding boxes within a single world through', async () => {
+  const source = createSource()
+  const antimeridian = new AntimeridianVelocityFieldSource(source)
+
+  // Ends exactly at the antimeridian.
+  await antimeridian.getVelocityField({
+    boundingBox: [0, 0, extent, extent],
+    width: 2,
+    height: 2,
+    time: '2024-01-01T00:00:00Z'
+  })
+  // Entirely in the next world.
+  await antimeridian.getVelocityField({
+    boundingBox: [1.5 * extent, 0, 2 * extent, extent],
+    width: 2,
+    height: 2,
+    time: '2024-01-01T00:00:00Z'
+  })
+  const requests = source.getVelocityField.mock.calls.map(call => call[0])
+  expect(requests).toHaveLength(2)
+  expect(requests[0]!.boundingBox).toEqual([0, 0, extent, extent])
+  const [xMin, , xMax] = requests[1]!.boundingBox
+  expect(xMin).toBeCloseTo(-0.5 * extent)
+  expect(xMax).toBeCloseTo(0)
+})
@@ -0,0 +1,152 @@
+import { expect, test, vi } from 'vitest'
+
+import {
+  CachedVelocityFieldSource,
+  type VelocityFieldRequest,
+  type VelocityFieldSource
+} from '@/sources'
+import { AbortedError } from '@/utils/errors'
+import { VelocityImage } from '@/utils/velocity-image'
+
+function createSource() {
+  let style = 'a'
+  const source = {
+    getAvailableTimesAndElevations: vi.fn(async () => ({
+      times: [],
+      elevationBounds: null
+    })),
+    getColormap: vi.fn(),
+    getVelocityField: vi.fn(
+      async (request: VelocityFieldRequest, _signal?: AbortSignal) => {
+        if (request.time === 'invalid') throw new Error('Invalid time.')
+        // 2 x 2 pixels of float32 U and V, with a 1-byte mask: 36 bytes.
+        return VelocityImage.fromComponents(
+          new Float32Array(4),
+          new Float32Array(4),
+          2,
+          2
+        )
+      }
+    ),
+    getCacheKey: () => style
+  } satisfies VelocityFieldSource
+  const setStyle = (newStyle: string) => (style = newStyle)
+  return { source, setStyle }
+}
+
+function createRequest(time: string): VelocityFieldRequest {
+  return { boundingBox: [0, 0, 1, 1], width: 2, height: 2, time }
+}
+
+test('reuses velocity fields for the same request and configuration', async () => {
+  const { source, setStyle } = createSource()
+  const cache = new CachedVelocityFieldSource(source)
+
+  const [first, second] = await Promise.all([
+    cache.getVelocityField(createRequest('t0')),
+    cache.getVelocityField(createRequest('t0'))
+  ])
+  expect(second).toBe(first)
+  expect(source.getVelocityField).toHaveBeenCalledTimes(1)
+  expect(cache.byteLength).toBe(36)
+
+  await cache.getVelocityField({ ...createRequest('t0'), elevation: 10 })
+  expect(source.getVelocityField).toHaveBeenCalledTimes(2)
+
+  setStyle('b')
+  const restyled = await cache.getVelocityField(createRequest('t0'))
+  expect(restyled).not.toBe(first)
+  expect(source.getVelocityField).toHaveBeenCalledTimes(3)
+})
+
+test('evicts the least recently used velocity fields', async () => {
+  const { source } = createSource()
+  const cache = new CachedVelocityFieldSource(source, { maxBytes: 2 * 36 })
+
+  await cache.getVelocityField(createRequest('t0'))
+  await cache.getVelocityField(createRequest('t1'))
+  // Use t0, so t1 is the least recently used field.
+  await cache.getVelocityField(createRequest('t0'))
+  await cache.getVelocityField(createRequest('t2'))
+  expect(cache.byteLength).toBe(2 * 36)
+  expect(source.getVelocityField).toHaveBeenCalledTimes(3)
+
+  await cache.getVelocityField(createRequest('t0'))
+  expect(source.getVelocityField).toHaveBeenCalledTimes(3)
+  await cache.getVelocityField(createRequest('t1'))
+  expect(source.getVelocityField).toHaveBeenCalledTimes(4)
+})
+
+test('does not cache failed fetches', async () => {
+  const { source } = createSource()
+  const cache = new CachedVelocityFieldSource(source)
+
+  await expect(
+    cache.getVelocityField(createRequest('invalid'))
+  ).rejects.toThrow()
+  await expect(
+    cache.getVelocityField(createRequest('invalid'))
+  ).rejects.toThrow()
+  expect(source.getVelocityField).toHaveBeenCalledTimes(2)
+  expect(cache.byteLength).toBe(0)
+})
+
+test('aborts shared fetches only when all requests are aborted', async () => {
+  const { source } = createSource()
+  const signals: AbortSignal[] = []
+  source.getVelocityField.mockImplementation(async (_request, signal) => {
+    signals.push(signal!)
+    await new Promise(resolve => setTimeout(resolve, 10))
+    return VelocityImage.fromComponents(
+      new Float32Array(4),
+      new Float32Array(4),
+      2,
+      2
+    )
+  })
+  const cache = new CachedVelocityFieldSource(source)
+
+  const firstController = new AbortController()
+  const first = cache.getVelocityField(
+    createRequest('t0'),
+    firstController.signal
+  )
+  const second = cache.getVelocityField(
+    createRequest('t0'),
+    new AbortController().signal
+  )
+  firstController.abort()
+  await expect(first).rejects.toThrow(AbortedError)
+  await expect(second).resolves.toBeInstanceOf(VelocityImage)
+  expect(source.getVelocityField).toHaveBeenCalledTimes(1)
+  expect(signals[0]!.aborted).toBe(false)
+
+  const controllers = [new AbortController(), new AbortController()]
+  const aborted = controllers.map(controller =>
+    cache.getVelocityField(createRequest('t1'), controller.signal)
+  )
+  controllers.forEach(controller => controller.abort())
+  await Promise.allSettled(aborted)
+  await Promise.resolve()
+  expect(signals[1]!.aborted).toBe(true)
+
+  // Aborted fetches are not cached.
+  await cache.getVelocityField(createRequest('t1'))
+  expect(source.getVelocityField).toHaveBeenCalledTimes(3)
+})
+
+test('shares fetches without caching them for a budget of 0', async () => {
+  const { source } = createSource()
+  const cache = new CachedVelocityFieldSource(source, { maxBytes: 0 })
+
+  const [first, second] = await Promise.all([
+    cache.getVelocityField(createRequest('t0')),
+    cache.getVelocityField(createRequest('t0'))
+  ])
+  expect(first).toBe(second)
+  expect(source.getVelocityField).toHaveBeenCalledTimes(1)
+  expect(cache.byteLength).toBe(0)
+
+  await cache.getVelocityField(createRequest('t0'))
+  expect(source.getVelocityField).toHaveBeenCalledTimes(2)
+})
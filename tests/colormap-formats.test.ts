@@ -0,0 +1,133 @@
+import { expect, test } from 'vitest'
+
+import { Color, Colormap } from '@/utils/colormap'
+import {
+  parseColorRamp,
+  parseCpt,
+  parseMatplotlibJson,
+  parseSldColorMap,
+  toColorRamp,
+  toCpt,
+  toMatplotlibJson,
+  toSldColorMap
+} from '@/utils/colormap-formats'
+import { parseCssColor } from '@/utils/css-colors'
+
+const colormap = new Colormap(
+  [0, 1, 3],
+  [new Color(68, 1, 84), new Color(33, 145, 140), new Color(253, 231, 37)]
+)
+
+test('parses CSS colors', () => {
+  expect(parseCssColor('#0f0')).toEqual([0, 255, 0, 1])
+  expect(parseCssColor('#00ff0080')).toEqual([0, 255, 0, 128 / 255])
+  expect(parseCssColor('rgb(255, 0, 0)')).toEqual([255, 0, 0, 1])
+  expect(parseCssColor('rgba(100% 0% 0% / 50%)')).toEqual([255, 0, 0, 0.5])
+  expect(parseCssColor('hsl(120, 100%, 25%)')).toEqual([0, 128, 0, 1])
+  expect(parseCssColor('hsl(0.5turn 100% 50%)')).toEqual([0, 255, 255, 1])
+  expect(parseCssColor('RebeccaPurple')).toEqual([102, 51, 153, 1])
+  expect(parseCssColor('transparent')).toEqual([0, 0, 0, 0])
+  expect(() => parseCssColor('#12345')).toThrow()
+  expect(() => parseCssColor('rgb(1, 2)')).toThrow()
+  expect(() => parseCssColor('not-a-color')).toThrow()
+
+  expect(Color.fromHex('#abc')).toEqual(new Color(170, 187, 204))
+  expect(() => Color.fromHex('red')).toThrow()
+})
+
+test('parses and serialises GMT color palette tables', () => {
+  const cpt = `# COLOR_MODEL = RGB
+0\t68 1 84\t1\t33 145 140
+1\t33/145/140\t3\t#fde725 ; fast
+5 red 6 255
+B 0/0/0
+F 255/255/255
+N 128
+`
+  const parsed = parseCpt(cpt)
+  expect(parsed.values).toEqual([0, 1, 3, 5, 6])
+  expect(parsed.colors[3]).toEqual(new Color(255, 0, 0))
+  expect(parsed.colors[4]).toEqual(new Color(255, 255, 255))
+
+  expect(parseCpt(toCpt(colormap))).toEqual(colormap)
+  expect(() => parseCpt('# COLOR_MODEL = HSV\n0 0-1-1 1 120-1-1')).toThrow()
+  expect(() => parseCpt('0 0 0 0')).not.toThrow()
+  expect(() => parseCpt('0 0 0')).toThrow()
+})
+
+test('parses and serialises QGIS and GDAL color ramps', () => {
+  const qgis = `# QGIS Generated Color Map Export File
+INTERPOLATION:INTERPOLATED
+0,68,1,84,255,slow: 0 m/s
+3,253,231,37,255,3
+`
+  expect(parseColorRamp(qgis).values).toEqual([0, 3])
+  expect(parseColorRamp(qgis).colors[1]).toEqual(new Color(253, 231, 37))
+
+  const gdal = '-1 blue\n0 0 0 0 0\nnv 0 0 0 0\n2:255:255:255\n'
+  expect(parseColorRamp(gdal).values).toEqual([-1, 0, 2])
+  expect(parseColorRamp(gdal).colors[0]).toEqual(new Color(0, 0, 255))
+  expect(() => parseColorRamp('50% 0 0 0')).toThrow()
+
+  expect(parseColorRamp(toColorRamp(colormap))).toEqual(colormap)
+  expect(parseColorRamp(toColorRamp(colormap, 'gdal'))).toEqual(colormap)
+})
+
+test('parses and serialises matplotlib-style JSON lists', () => {
+  const uniform = parseMatplotlibJson('[[0, 0, 0], [1, 1, 1, 1], "#ff0000"]')
+  expect(uniform.values).toEqual([0, 0.5, 1])
+  expect(uniform.colors[1]).toEqual(new Color(255, 255, 255))
+  expect(uniform.colors[2]).toEqual(new Color(255, 0, 0))
+
+  const pairs = parseMatplotlibJson([
+    [0, 'navy'],
+    [0.25, [1, 0, 0]]
+  ])
+  expect(pairs.values).toEqual([0, 0.25])
+  expect(pairs.colors[0]).toEqual(new Color(0, 0, 128))
+
+  // Values are normalised to [0, 1].
+  const parsed = parseMatplotlibJson(toMatplotlibJson(colormap))
+  expect(parsed.values).toEqual([0, 1 / 3, 1].map(v => expect.closeTo(v, 4)))
+  expect(parsed.colors[2]!.g).toBeCloseTo(231, 1)
+  expect(() => parseMatplotlibJson('[]')).toThrow()
+  expect(() => parseMatplotlibJson([['a', [0, 0, 0]]])).toThrow()
+})
+
+test('parses and serialises SLD color maps', () => {
+  const sld = `<sld:RasterSymbolizer>
+  <sld:ColorMap type="ramp">
+    <sld:ColorMapEntry color="#440154" quantity="0" label="slow"/>
+    <sld:ColorMapEntry quantity='2.5' color='#FDE725' opacity="0.5"></sld:ColorMapEntry>
+  </sld:ColorMap>
+</sld:RasterSymbolizer>`
+  const parsed = parseSldColorMap(sld)
+  expect(parsed.values).toEqual([0, 2.5])
+  expect(parsed.colors[1]).toEqual(new Color(253, 231, 37, 0.5))
+
+  expect(parseSldColorMap(toSldColorMap(colormap))).toEqual(colormap)
+  expect(() => parseSldColorMap('<ColorMap/>')).toThrow()
+  expect(() => parseSldColorMap('<ColorMapEntry color="#fff"/>')).toThrow()
+})
+
+test('parses and serialises colors with alpha', () => {
+  expect(Color.fromCss('rgb(255 0 0 / 25%)')).toEqual(
+    new Color(255, 0, 0, 0.25)
+  )
+  expect(Color.fromHex('#ff000000').a).toBe(0)
+
+  const transparent = new Colormap(
+    [0, 0.5, 2],
+    [new Color(68, 1, 84, 0), new Color(33, 145, 140, 0.5), new Color(0, 0, 0)]
+  )
+  expect(parseCpt(toCpt(transparent))).toEqual(transparent)
+  expect(parseCpt('0 255/0/0@100 1 0/0/255@25').colors[1]!.a).toBe(0.75)
+  expect(parseSldColorMap(toSldColorMap(transparent))).toEqual(transparent)
+
+  const ramp = parseColorRamp(toColorRamp(transparent, 'gdal'))
+  expect(ramp.colors.map(color => color.a)).toEqual([0, 128 / 255, 1])
+  expect(parseColorRamp('0,0,0,0,51,calm').colors[0]!.a).toBe(0.2)
+
+  const json = parseMatplotlibJson(toMatplotlibJson(transparent))
+  expect(json.colors.map(color => color.a)).toEqual([0, 0.5, 1])
+})
@@ -0,0 +1,63 @@
+import { expect, test, vi } from 'vitest'
+
+import { EventEmitter } from '@/utils/events'
+
+interface TestEventMap {
+  changed: { value: number }
+  done: void
+}
+
+test('calls all listeners with the payload', () => {
+  const emitter = new EventEmitter<TestEventMap>()
+  const first = vi.fn()
+  const second = vi.fn()
+  emitter.on('changed', first)
+  emitter.on('changed', second)
+  emitter.on('changed', first)
+
+  emitter.emit('changed', { value: 1 })
+  expect(first).toHaveBeenCalledTimes(1)
+  expect(first).toHaveBeenCalledWith({ value: 1 })
+  expect(second).toHaveBeenCalledWith({ value: 1 })
+
+  emitter.off('changed', first)
+  emitter.emit('changed', { value: 2 })
+  expect(first).toHaveBeenCalledTimes(1)
+  expect(second).toHaveBeenCalledTimes(2)
+})
+
+test('removes listeners added with once after the first event', () => {
+  const emitter = new EventEmitter<TestEventMap>()
+  const listener = vi.fn()
+  emitter.once('done', listener)
+  emitter.emit('done')
+  emitter.emit('done')
+  expect(listener).toHaveBeenCalledTimes(1)
+
+  const removed = vi.fn()
+  emitter.once('done', removed)
+  emitter.off('done', removed)
+  emitter.emit('done')
+  expect(removed).not.toHaveBeenCalled()
+})
+
+test('keeps calling listeners if one of them fails', () => {
+  const emitter = new EventEmitter<TestEventMap>()
+  // Capture the rethrown error instead of reporting it as unhandled.
+  const tasks: VoidFunction[] = []
+  const microtask = vi
+    .spyOn(globalThis, 'queueMicrotask')
+    .mockImplementation(task => tasks.push(task))
+  const listener = vi.fn()
+  const failure = new Error('failure')
+  emitter.on('done', () => {
+    throw failure
+  })
+  emitter.on('done', listener)
+
+  emitter.emit('done')
+  microtask.mockRestore()
+  expect(listener).toHaveBeenCalled()
+  expect(tasks).toHaveLength(1)
+  expect(() => tasks[0]!()).toThrow(failure)
+})
@@ -0,0 +1,124 @@
+import { afterEach, expect, test, vi } from 'vitest'
+
+import {
+  AbortedError,
+  EmptyImageError,
+  HttpError,
+  NetworkError,
+  ServiceExceptionError
+} from '@/utils/errors'
+import { fetchWithRetry } from '@/utils/fetch'
+import { fetchGDALGeoTiffVelocityField } from '@/utils/geotiff'
+import { fetchGRIB2VelocityField } from '@/utils/grib'
+import { fetchNetCDFVelocityField } from '@/utils/netcdf'
+import { fetchGeoTiffVelocityField, fetchWMSColormap } from '@/utils/wms'
+
+const url = 'https://example.com/wms'
+const retry = { maxRetries: 2, initialDelay: 1 }
+
+function stubFetch(...responses: (Response | Error)[]) {
+  const fetch = vi.fn(async () => {
+    const response = responses.shift()
+    if (!response) throw new Error('No more responses.')
+    if (response instanceof Error) throw response
+    return response
+  })
+  vi.stubGlobal('fetch', fetch)
+  return fetch
+}
+
+afterEach(() => {
+  vi.unstubAllGlobals()
+})
+
+test('retries server errors with backoff', async () => {
+  const fetch = stubFetch(
+    new Response(null, { status: 503 }),
+    new TypeError('Failed to fetch'),
+    new Response('ok')
+  )
+  const response = await fetchWithRetry(
+    new Request(url),
+    undefined,
+    undefined,
+    retry
+  )
+  expect(await response.text()).toBe('ok')
+  expect(fetch).toHaveBeenCalledTimes(3)
+})
+
+test('throws typed errors without retrying client errors', async () => {
+  const fetch = stubFetch(new Response(null, { status: 404 }))
+  const error = await fetchWithRetry(
+    new Request(url),
+    undefined,
+    undefined,
+    retry
+  ).catch(error => error)
+  expect(error).toBeInstanceOf(HttpError)
+  expect(error.status).toBe(404)
+  expect(fetch).toHaveBeenCalledTimes(1)
+
+  stubFetch(new TypeError('Failed to fetch'))
+  await expect(fetchWithRetry(new Request(url))).rejects.toBeInstanceOf(
+    NetworkError
+  )
+})
+
+test('parses WMS ServiceExceptions in XML and JSON', async () => {
+  const xml = `<?xml version="1.0"?>
+<ServiceExceptionReport version="1.3.0">
+  <ServiceException code="LayerNotDefined">Unknown layer &quot;x&quot;</ServiceException>
+</ServiceExceptionReport>`
+  stubFetch(new Response(xml, { status: 400 }))
+  const error = await fetchWithRetry(new Request(url)).catch(error => error)
+  expect(error).toBeInstanceOf(ServiceExceptionError)
+  expect(error.code).toBe('LayerNotDefined')
+  expect(error.message).toContain('Unknown layer "x"')
+
+  // Exceptions may also be returned with a successful status.
+  const json = JSON.stringify({
+    errors: [{ message: 'Invalid colorScaleRange' }]
+  })
+  stubFetch(new Response(json))
+  await expect(fetchWMSColormap(url, 'layer')).rejects.toThrow(
+    'Invalid colorScaleRange'
+  )
+})
+
+test('reports empty images and aborted requests', async () => {
+  stubFetch(new Response(new ArrayBuffer(0)))
+  await expect(fetchGeoTiffVelocityField(new URL(url))).rejects.toBeInstanceOf(
+    EmptyImageError
+  )
+
+  const controller = new AbortController()
+  vi.stubGlobal(
+    'fetch',
+    vi.fn(async () => {
+      controller.abort()
+      throw new DOMException('Aborted', 'AbortError')
+    })
+  )
+  await expect(
+    fetchWithRetry(new Request(url), controller.signal, undefined, retry)
+  ).rejects.toBeInstanceOf(AbortedError)
+})
+
+test('throws typed errors when fetching velocity field files', async () => {
+  const notFound = () => new Response('<html>Not found</html>', { status: 404 })
+  const fileUrl = new URL('https://example.com/wind.grib2')
+
+  stubFetch(notFound())
+  await expect(fetchGRIB2VelocityField(fileUrl)).rejects.toBeInstanceOf(
+    HttpError
+  )
+  stubFetch(notFound())
+  await expect(fetchNetCDFVelocityField(fileUrl)).rejects.toBeInstanceOf(
+    HttpError
+  )
+  stubFetch(notFound())
+  await expect(fetchGDALGeoTiffVelocityField(fileUrl)).rejects.toBeInstanceOf(
+    HttpError
+  )
+})
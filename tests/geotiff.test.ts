@@ -0,0 +1,182 @@
+import { expect, test } from 'vitest'
+
+import { MalformedGeoTiffError } from '@/utils/errors'
+import { readGDALGeoTiffVelocityField } from '@/utils/geotiff'
+
+// TIFF field types: 2 for ASCII, 3 for short, 4 for long, 12 for double.
+type Tag = [id: number, type: 2 | 3 | 4 | 12, values: number[] | string]
+
+const TYPE_SIZES = { 2: 1, 3: 2, 4: 4, 12: 8 }
+
+/**
+ * Writes a minimal little-endian, uncompressed, single-strip TIFF with
+ * interleaved samples.
+ */
+function writeTiff(
+  width: number,
+  height: number,
+  sampleType: 'float32' | 'int16',
+  pixels: number[],
+  tags: Tag[]
+): ArrayBuffer {
+  const numBands = pixels.length / (width * height)
+  const bytesPerSample = sampleType === 'float32' ? 4 : 2
+  const defaultTags: Tag[] = [
+    [256, 3, [width]],
+    [257, 3, [height]],
+    [258, 3, Array<number>(numBands).fill(bytesPerSample * 8)],
+    [259, 3, [1]],
+    [262, 3, [1]],
+    [273, 4, [0]],
+    [277, 3, [numBands]],
+    [278, 3, [height]],
+    [279, 4, [pixels.length * bytesPerSample]],
+    [284, 3, [1]],
+    [339, 3, Array<number>(numBands).fill(sampleType === 'float32' ? 3 : 2)]
+  ]
+  const allTags = [...defaultTags, ...tags].sort((a, b) => a[0] - b[0])
+
+  const entries = allTags.map(([id, type, values]) => {
+    const bytes = new Uint8Array(
+      typeof values === 'string'
+        ? values.length + 1
+        : values.length * TYPE_SIZES[type]
+    )
+    const view = new DataView(bytes.buffer)
+    if (typeof values === 'string') {
+      bytes.set(new TextEncoder().encode(values))
+    } else {
+      values.forEach((value, i) => {
+        if (type === 3) view.setUint16(i * 2, value, true)
+        if (type === 4) view.setUint32(i * 4, value, true)
+        if (type === 12) view.setFloat64(i * 8, value, true)
+      })
+    }
+    return { id, type, count: bytes.length / TYPE_SIZES[type], bytes }
+  })
+
+  const ifdSize = 2 + entries.length * 12 + 4
+  const valuesSize = entries
+    .filter(entry => entry.bytes.length > 4)
+    .reduce((sum, entry) => sum + entry.bytes.length, 0)
+  const pixelsOffset = 8 + ifdSize + valuesSize
+
+  const buffer = new ArrayBuffer(pixelsOffset + pixels.length * bytesPerSample)
+  const bytes = new Uint8Array(buffer)
+  const view = new DataView(buffer)
+  view.setUint16(0, 0x4949, true)
+  view.setUint16(2, 42, true)
+  view.setUint32(4, 8, true)
+  view.setUint16(8, entries.length, true)
+
+  let valuesOffset = 8 + ifdSize
+  entries.forEach((entry, i) => {
+    const entryOffset = 10 + i * 12
+    view.setUint16(entryOffset, entry.id, true)
+    view.setUint16(entryOffset + 2, entry.type, true)
+    view.setUint32(entryOffset + 4, entry.count, true)
+    if (entry.id === 273) {
+      view.setUint32(entryOffset + 8, pixelsOffset, true)
+    } else if (entry.bytes.length <= 4) {
+      bytes.set(entry.bytes, entryOffset + 8)
+    } else {
+      view.setUint32(entryOffset + 8, valuesOffset, true)
+      bytes.set(entry.bytes, valuesOffset)
+      valuesOffset += entry.bytes.length
+    }
+  })
+
+  pixels.forEach((value, i) => {
+    const offset = pixelsOffset + i * bytesPerSample
+    if (sampleType === 'float32') view.setFloat32(offset, value, true)
+    else view.setInt16(offset, value, true)
+  })
+  return buffer
+}
+
+test('reads float bands with the no-data value and the geotransform', async () => {
+  // 3x2 pixels of interleaved (u, v) with 0.5 degree pixels, starting at
+  // (3, 52) in the north-west.
+  const buffer = writeTiff(
+    3,
+    2,
+    'float32',
+    [1, 0, -2.5, 1, 3, -9999.9, 0.5, 0.5, -9999.9, -9999.9, 2, -4],
+    [
+      [33550, 12, [0.5, 0.5, 0]],
+      [33922, 12, [0, 0, 0, 3, 52, 0]],
+      [42113, 2, '-9999.9']
+    ]
+  )
+  const { velocityImage, boundingBox } =
+    await readGDALGeoTiffVelocityField(buffer)
+
+  expect(velocityImage.width).toBe(3)
+  expect(velocityImage.height).toBe(2)
+  expect(velocityImage.isFloat).toBe(true)
+  expect(boundingBox).toEqual([3, 51, 4.5, 52])
+  // The pixels with a no-data value in either band are excluded.
+  expect(velocityImage.maxVelocity()).toEqual([2.5, 4])
+})
+
+test('applies the GDAL scale and offset of 16-bit integer bands', async () => {
+  const metadata =
+    '<GDALMetadata>' +
+    '<Item name="SCALE" sample="0" role="scale">0.01</Item>' +
+    '<Item name="SCALE" sample="1" role="scale">0.1</Item>' +
+    '<Item name="OFFSET" sample="1" role="offset">-1</Item>' +
+    '</GDALMetadata>'
+  // Georeferenced by a transformation matrix with rows from south to north.
+  const buffer = writeTiff(
+    2,
+    1,
+    'int16',
+    [-250, 30, 100, 5],
+    [
+      [34264, 12, [10, 0, 0, 1000, 0, 20, 0, 2000, 0, 0, 0, 0, 0, 0, 0, 1]],
+      [42112, 2, metadata]
+    ]
+  )
+  const { velocityImage, boundingBox } = await readGDALGeoTiffVelocityField(
+    buffer,
+    { uBand: 1, vBand: 0 }
+  )
+
+  expect(boundingBox).toEqual([1000, 2000, 1020, 2020])
+  expect(velocityImage.maxVelocity()).toEqual([2, 2.5])
+})
+
+test('rejects 8-bit bands', async () => {
+  const buffer = writeTiff(
+    1,
+    1,
+    'int16',
+    [1, 2],
+    [
+      [33550, 12, [1, 1, 0]],
+      [33922, 12, [0, 0, 0, 0, 0, 0]]
+    ]
+  )
+  // Patch the bits per sample to 8.
+  const view = new DataView(buffer)
+  view.setUint16(10 + 2 * 12 + 8, 8, true)
+  view.setUint16(10 + 2 * 12 + 10, 8, true)
+  await expect(readGDALGeoTiffVelocityField(buffer)).rejects.toThrow(
+    MalformedGeoTiffError
+  )
+})
+
+test('rejects malformed GeoTIFFs and missing bands', async () => {
+  await expect(
+    readGDALGeoTiffVelocityField(new Uint8Array([1, 2, 3, 4]).buffer)
+  ).rejects.toThrow(MalformedGeoTiffError)
+
+  const buffer = writeTiff(1, 1, 'int16', [1, 2], [])
+  await expect(
+    readGDALGeoTiffVelocityField(buffer, { vBand: 2 })
+  ).rejects.toThrow(MalformedGeoTiffError)
+  // Without a geotransform.
+  await expect(readGDALGeoTiffVelocityField(buffer)).rejects.toThrow(
+    MalformedGeoTiffError
+  )
+})
@@ -0,0 +1,73 @@
+import { expect, test } from 'vitest'
+
+import { readGRIB2VelocityField } from '@/utils/grib'
+
+import windUrl from './assets/wind.grib2?inline'
+
+// The wind fixture contains four messages on the same 3x2 grid (52-51N,
+// 3-5E), valid at 2024-01-01T03:00Z: 2 m temperature, 10 m U- and V-wind (with
+// one missing point) and 100 m U-wind without a matching V-wind.
+async function fetchWindFixture(): Promise<ArrayBuffer> {
+  const response = await fetch(windUrl)
+  return response.arrayBuffer()
+}
+
+test('pairs U- and V-wind fields into a velocity image', async () => {
+  const buffer = await fetchWindFixture()
+  const { velocityImage, boundingBox } = readGRIB2VelocityField(buffer)
+
+  expect(velocityImage.width).toBe(3)
+  expect(velocityImage.height).toBe(2)
+  expect(boundingBox).toEqual([2.5, 50.5, 5.5, 52.5])
+
+  // Unpacked U-values are [1.5, 2, -3.25, 0.5, 4, -1] and V-values are
+  // [0, 1, 2, missing, 3, -2]; the missing point is excluded for both.
+  expect(velocityImage.maxVelocity()).toEqual([4, 3])
+})
+
+test('selects fields by level and valid time', async () => {
+  const buffer = await fetchWindFixture()
+
+  const { velocityImage } = readGRIB2VelocityField(buffer, {
+    level: { type: 103, value: 10 },
+    validTime: new Date('2024-01-01T03:00:00Z')
+  })
+  expect(velocityImage.width).toBe(3)
+
+  // There is no V-wind at 100 m.
+  expect(() =>
+    readGRIB2VelocityField(buffer, { level: { type: 103, value: 100 } })
+  ).toThrow()
+  // There are no fields at another time.
+  expect(() =>
+    readGRIB2VelocityField(buffer, {
+      validTime: new Date('2024-01-01T00:00:00Z')
+    })
+  ).toThrow()
+})
+
+test('rejects data that are not GRIB2', () => {
+  const buffer = new TextEncoder().encode('not a GRIB file').buffer
+  expect(() => readGRIB2VelocityField(buffer)).toThrow()
+})
+
+test('rejects truncated and corrupt messages', async () => {
+  const buffer = await fetchWindFixture()
+  expect(() => readGRIB2VelocityField(buffer.slice(0, 100))).toThrow(
+    /Malformed GRIB2 message/
+  )
+
+  // A message length of zero.
+  const zeroMessage = buffer.slice(0)
+  new DataView(zeroMessage).setBigUint64(8, 0n)
+  expect(() => readGRIB2VelocityField(zeroMessage)).toThrow(
+    /Malformed GRIB2 message/
+  )
+
+  // A zero length of the first section after the indicator section.
+  const zeroSection = buffer.slice(0)
+  new DataView(zeroSection).setUint32(16, 0)
+  expect(() => readGRIB2VelocityField(zeroSection)).toThrow(
+    /Malformed GRIB2 section/
+  )
+})
@@ -0,0 +1,125 @@
+import { expect, test, vi } from 'vitest'
+
+import { AbortedError, HttpError } from '@/utils/errors'
+import {
+  LayerUpdates,
+  computeWorldCopyOffsets,
+  createVelocityFieldRequest,
+  findTimeIndex,
+  findTimeInterval
+} from '@/utils/layer'
+
+const extent = 20037508.34
+
+test('requests velocity fields at the resolution of the view', () => {
+  const request = createVelocityFieldRequest(
+    { boundingBox: [0, 0, 2000, 1000], resolution: 10, canvasSize: [200, 100] },
+    '2024-01-01T00:00:00Z',
+    null,
+    2
+  )
+  expect(request).toEqual({
+    boundingBox: [0, 0, 2000, 1000],
+    width: 100,
+    height: 50,
+    time: '2024-01-01T00:00:00Z',
+    elevation: undefined
+  })
+})
+
+test('requests a single world for views that are wider', () => {
+  const resolution = (8 * extent) / 200
+  const request = createVelocityFieldRequest(
+    {
+      boundingBox: [-4 * extent, -extent, 4 * extent, extent],
+      resolution,
+      canvasSize: [200, 50]
+    },
+    '2024-01-01T00:00:00Z',
+    -10
+  )
+  expect(request.boundingBox).toEqual([-extent, -extent, extent, extent])
+  expect(request.width).toBe(50)
+  expect(request.height).toBe(50)
+  expect(request.elevation).toBe(-10)
+})
+
+test('limits the number of pixels of requests', () => {
+  // The footprint of a pitched view is much larger than its canvas.
+  const request = createVelocityFieldRequest(
+    { boundingBox: [0, 0, 8000, 8000], resolution: 1, canvasSize: [200, 100] },
+    '2024-01-01T00:00:00Z',
+    null
+  )
+  expect(request.width).toBe(200)
+  expect(request.height).toBe(200)
+})
+
+test('computes the offsets of world copies in the view', () => {
+  const boundingBox: [number, number, number, number] = [
+    -extent,
+    -extent,
+    extent,
+    extent
+  ]
+  const offsets = computeWorldCopyOffsets(boundingBox, [-extent / 2, 0, 0, 1])
+  expect(offsets).toHaveLength(1)
+  expect(offsets[0]).toBeCloseTo(0)
+  expect(
+    computeWorldCopyOffsets(boundingBox, [-2 * extent, 0, 4 * extent, 1])
+  ).toEqual([-1, 0, 1, 2])
+})
+
+test('finds the closest time and the surrounding times', () => {
+  const times = [
+    '2024-01-01T00:00:00Z',
+    '2024-01-01T01:00:00Z',
+    '2024-01-01T02:00:00Z'
+  ]
+  expect(findTimeIndex(times, new Date('2024-01-01T01:20:00Z'))).toBe(1)
+  expect(findTimeIndex(times, new Date('2024-01-02T00:00:00Z'))).toBe(2)
+  expect(findTimeIndex([], new Date('2024-01-01T00:00:00Z'))).toBe(0)
+
+  expect(findTimeInterval(times, new Date('2024-01-01T01:15:00Z'))).toEqual([
+    1, 2, 0.25
+  ])
+  expect(findTimeInterval(times, new Date('2023-12-31T00:00:00Z'))).toEqual([
+    0,
+    null,
+    0
+  ])
+  expect(() => findTimeInterval([], new Date())).toThrow()
+})
+
+test('supersedes updates of the same kind', () => {
+  const updates = new LayerUpdates<'velocity-field' | 'colormap'>(vi.fn())
+  const first = updates.start('velocity-field')
+  const colormap = updates.start('colormap')
+  const second = updates.start('velocity-field')
+  expect(first.aborted).toBe(true)
+  expect(colormap.aborted).toBe(false)
+  expect(second.aborted).toBe(false)
+
+  updates.abort()
+  expect(updates.signal.aborted).toBe(true)
+  expect(colormap.aborted).toBe(true)
+  expect(second.aborted).toBe(true)
+  expect(updates.start('colormap').aborted).toBe(true)
+})
+
+test('reports failures of updates that were not superseded', () => {
+  const onFetchError = vi.fn()
+  const updates = new LayerUpdates<'velocity-field'>(onFetchError)
+  const first = updates.start('velocity-field')
+  const second = updates.start('velocity-field')
+
+  const error = new HttpError(500, 'Internal Server Error')
+  updates.reportError(error, first)
+  updates.reportError(new AbortedError(), second)
+  expect(onFetchError).not.toHaveBeenCalled()
+
+  updates.reportError(error, second)
+  updates.reportError('failed', second)
+  expect(onFetchError).toHaveBeenNthCalledWith(1, error)
+  expect(onFetchError).toHaveBeenNthCalledWith(2, new Error('failed'))
+})
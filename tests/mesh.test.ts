@@ -0,0 +1,142 @@
+import { expect, test } from 'vitest'
+import { createWebGl2Context } from './utils'
+import { MeshRasteriser } from '@/render/mesh'
+import { LocalColormapVelocityFieldSource } from '@/sources/colormap'
+import { MeshVelocityFieldSource } from '@/sources/mesh'
+import { VelocityMesh } from '@/utils/mesh'
+
+// A square face and a triangular face on top of it, with 1-based node indices
+// padded with fill values as in UGRID files.
+const nodeCoordinates = [0, 0, 2, 0, 2, 2, 0, 2, 1, 3]
+const faceNodes = [1, 2, 3, 4, 4, 3, 5, -999]
+
+test('triangulates padded faces with velocities per face', () => {
+  const mesh = new VelocityMesh({
+    nodeCoordinates,
+    faceNodes,
+    maxNodesPerFace: 4,
+    startIndex: 1,
+    location: 'face',
+    u: [1, -3],
+    v: [2, 0.5]
+  })
+
+  // Two triangles for the square, one for the triangle.
+  expect(mesh.numVertices).toBe(9)
+  expect(mesh.boundingBox).toEqual([0, 0, 2, 3])
+  expect(mesh.maxVelocity()).toEqual([3, 2])
+  expect(Array.from(mesh.velocities.slice(-2))).toEqual([-3, 0.5])
+})
+
+test('skips faces with missing velocities', () => {
+  const mesh = new VelocityMesh({
+    nodeCoordinates,
+    faceNodes,
+    maxNodesPerFace: 4,
+    startIndex: 1,
+    location: 'node',
+    u: [1, 1, 1, 1, NaN],
+    v: [0, 0, 0, 0, 5]
+  })
+  expect(mesh.numVertices).toBe(6)
+  expect(mesh.maxVelocity()).toEqual([1, 0])
+
+  expect(
+    () =>
+      new VelocityMesh({
+        nodeCoordinates,
+        faceNodes,
+        location: 'face',
+        u: [1],
+        v: [1]
+      })
+  ).toThrow()
+})
+
+test('creates a mesh from a curvilinear grid', () => {
+  const mesh = VelocityMesh.fromCurvilinearGrid(
+    [0, 1, 2, 0.5, 1.5, 2.5],
+    [0, 0.1, 0.2, 1, 1.1, 1.2],
+    [1, 2, 3, 4, 5, -9],
+    [0, 0, 0, 0, 0, 0],
+    3,
+    2
+  )
+  expect(mesh.numVertices).toBe(12)
+  expect(mesh.maxVelocity()).toEqual([9, 0])
+})
+
+test('rasterises a mesh for a bounding box', async () => {
+  const gl = createWebGl2Context()
+  const rasteriser = new MeshRasteriser(gl)
+  await rasteriser.initialise()
+
+  const mesh = new VelocityMesh({
+    nodeCoordinates,
+    faceNodes,
+    maxNodesPerFace: 4,
+    startIndex: 1,
+    location: 'face',
+    u: [1, -3],
+    v: [2, 0.5]
+  })
+
+  const velocityImage = rasteriser.rasterise(mesh, [0, 0, 2, 2], 8, 8)
+  expect(velocityImage.width).toBe(8)
+  expect(velocityImage.height).toBe(8)
+  // Only the square face is inside the bounding box.
+  expect(velocityImage.maxVelocity()).toEqual([1, 2])
+
+  // Pixels outside of the mesh are missing.
+  const outside = rasteriser.rasterise(mesh, [10, 10, 12, 12], 4, 4)
+  expect(outside.maxVelocity()).toEqual([0, 0])
+
+  rasteriser.destruct()
+})
+
+test('provides rasterised meshes as velocity fields', async () => {
+  const mesh = new VelocityMesh({
+    nodeCoordinates,
+    faceNodes,
+    maxNodesPerFace: 4,
+    startIndex: 1,
+    location: 'face',
+    u: [1, -3],
+    v: [2, 0.5]
+  })
+  const times = ['2024-01-01T00:00:00Z']
+  const meshSource = new MeshVelocityFieldSource({
+    times,
+    getMesh: async time => {
+      if (time !== times[0]) throw new Error(`No mesh for ${time}.`)
+      return mesh
+    }
+  })
+  const source = new LocalColormapVelocityFieldSource(meshSource, {
+    colormap: 'viridis'
+  })
+  const request = {
+    boundingBox: [0, 0, 2, 3] as [number, number, number, number],
+    width: 8,
+    height: 12,
+    time: times[0]!
+  }
+
+  // Meshes are rasterised with the context that the source is initialised
+  // with.
+  await expect(source.getVelocityField(request)).rejects.toThrow()
+  await meshSource.initialise(createWebGl2Context())
+
+  const available = await source.getAvailableTimesAndElevations()
+  expect(available).toEqual({ times, elevationBounds: null })
+
+  const colormap = await source.getColormap([0, 2])
+  expect([colormap.start, colormap.end]).toEqual([0, 2])
+
+  const velocityImage = await source.getVelocityField(request)
+  expect(velocityImage.width).toBe(8)
+  expect(velocityImage.height).toBe(12)
+  expect(velocityImage.maxVelocity()).toEqual([3, 2])
+
+  meshSource.destruct()
+})
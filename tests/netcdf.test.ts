@@ -0,0 +1,233 @@
+import { expect, test } from 'vitest'
+
+import { readNetCDFVelocityField } from '@/utils/netcdf'
+
+type Attribute = [name: string, value: string | number, type?: number]
+
+interface Variable {
+  name: string
+  dimensions: number[]
+  attributes: Attribute[]
+  // 3 for short, 5 for float, 6 for double.
+  type: 3 | 5 | 6
+  values: number[]
+}
+
+const TYPE_SIZES = { 3: 2, 5: 4, 6: 8 }
+
+/**
+ * Writes a minimal NetCDF classic file. The first dimension is the record
+ * dimension if its length is 0.
+ */
+function writeNetCDF(
+  dimensions: [string, number][],
+  numRecords: number,
+  variables: Variable[]
+): ArrayBuffer {
+  const bytes: number[] = []
+  const int32 = (value: number) => {
+    const view = new DataView(new ArrayBuffer(4))
+    view.setInt32(0, value)
+    bytes.push(...new Uint8Array(view.buffer))
+  }
+  const value = (type: number, value: number) => {
+    const size = TYPE_SIZES[type as keyof typeof TYPE_SIZES]
+    const view = new DataView(new ArrayBuffer(size))
+    if (type === 3) view.setInt16(0, value)
+    if (type === 5) view.setFloat32(0, value)
+    if (type === 6) view.setFloat64(0, value)
+    bytes.push(...new Uint8Array(view.buffer))
+  }
+  const pad = () => {
+    while (bytes.length % 4 !== 0) bytes.push(0)
+  }
+  const name = (name: string) => {
+    int32(name.length)
+    bytes.push(...new TextEncoder().encode(name))
+    pad()
+  }
+  const attributes = (attributes: Attribute[]) => {
+    if (attributes.length === 0) {
+      int32(0)
+      int32(0)
+      return
+    }
+    int32(0x0c)
+    int32(attributes.length)
+    for (const [attributeName, attributeValue, type] of attributes) {
+      name(attributeName)
+      if (typeof attributeValue === 'string') {
+        int32(2)
+        int32(attributeValue.length)
+        bytes.push(...new TextEncoder().encode(attributeValue))
+      } else {
+        int32(type ?? 5)
+        int32(1)
+        value(type ?? 5, attributeValue)
+      }
+      pad()
+    }
+  }
+
+  const isRecord = (variable: Variable) =>
+    dimensions[variable.dimensions[0]!]![1] === 0
+  const sliceSize = (variable: Variable) =>
+    variable.dimensions
+      .filter(id => dimensions[id]![1] !== 0)
+      .reduce((product, id) => product * dimensions[id]![1], 1) *
+    TYPE_SIZES[variable.type]
+  const paddedSize = (variable: Variable) =>
+    Math.ceil(sliceSize(variable) / 4) * 4
+
+  bytes.push(...new TextEncoder().encode('CDF'), 1)
+  int32(numRecords)
+  int32(0x0a)
+  int32(dimensions.length)
+  for (const [dimensionName, length] of dimensions) {
+    name(dimensionName)
+    int32(length)
+  }
+  attributes([])
+
+  // Compute the header size by writing the variable list with dummy offsets.
+  const writeVariables = (begins: number[]) => {
+    int32(0x0b)
+    int32(variables.length)
+    variables.forEach((variable, i) => {
+      name(variable.name)
+      int32(variable.dimensions.length)
+      variable.dimensions.forEach(id => int32(id))
+      attributes(variable.attributes)
+      int32(variable.type)
+      int32(paddedSize(variable))
+      int32(begins[i] ?? 0)
+    })
+  }
+  const headerStart = bytes.length
+  writeVariables([])
+  const headerSize = bytes.length
+  bytes.length = headerStart
+
+  const begins: number[] = []
+  let offset = headerSize
+  for (const variable of variables.filter(variable => !isRecord(variable))) {
+    begins[variables.indexOf(variable)] = offset
+    offset += paddedSize(variable)
+  }
+  const recordVariables = variables.filter(isRecord)
+  for (const variable of recordVariables) {
+    begins[variables.indexOf(variable)] = offset
+    offset += paddedSize(variable)
+  }
+  writeVariables(begins)
+
+  for (const variable of variables.filter(variable => !isRecord(variable))) {
+    variable.values.forEach(entry => value(variable.type, entry))
+    pad()
+  }
+  for (let record = 0; record < numRecords; record++) {
+    for (const variable of recordVariables) {
+      const numValues = sliceSize(variable) / TYPE_SIZES[variable.type]
+      variable.values
+        .slice(record * numValues, (record + 1) * numValues)
+        .forEach(entry => value(variable.type, entry))
+      pad()
+    }
+  }
+  return new Uint8Array(bytes).buffer
+}
+
+function createExampleFile(): ArrayBuffer {
+  // Two time steps on a grid of 2 latitudes (ascending) and 3 longitudes.
+  return writeNetCDF(
+    [
+      ['time', 0],
+      ['lat', 2],
+      ['lon', 3]
+    ],
+    2,
+    [
+      {
+        name: 'time',
+        dimensions: [0],
+        attributes: [['units', 'hours since 2024-01-01']],
+        type: 6,
+        values: [0, 1]
+      },
+      {
+        name: 'lat',
+        dimensions: [1],
+        attributes: [],
+        type: 6,
+        values: [50, 51]
+      },
+      {
+        name: 'lon',
+        dimensions: [2],
+        attributes: [],
+        type: 6,
+        values: [3, 4, 5]
+      },
+      {
+        name: 'uo',
+        dimensions: [0, 1, 2],
+        attributes: [
+          ['standard_name', 'eastward_sea_water_velocity'],
+          ['_FillValue', -999]
+        ],
+        type: 5,
+        values: [1, 2, 3, 4, 5, -999, 10, 20, 30, 40, 50, 60]
+      },
+      {
+        name: 'vo',
+        dimensions: [0, 1, 2],
+        attributes: [
+          ['standard_name', 'northward_sea_water_velocity'],
+          ['scale_factor', 0.5],
+          ['add_offset', 1]
+        ],
+        type: 3,
+        values: [0, 2, 4, 6, 8, 10, 0, 0, 0, 0, 0, 0]
+      }
+    ]
+  )
+}
+
+test('reads a velocity field with its bounding box', () => {
+  const { velocityImage, boundingBox } =
+    readNetCDFVelocityField(createExampleFile())
+
+  expect(velocityImage.width).toBe(3)
+  expect(velocityImage.height).toBe(2)
+  expect(velocityImage.isFloat).toBe(true)
+  expect(boundingBox).toEqual([2.5, 49.5, 5.5, 51.5])
+
+  // Packed V-values are unpacked, and the pixel with a fill value in U is
+  // excluded for both components.
+  expect(velocityImage.maxVelocity()).toEqual([5, 5])
+})
+
+test('selects the time index', () => {
+  const { velocityImage } = readNetCDFVelocityField(createExampleFile(), {
+    timeIndex: 1
+  })
+  expect(velocityImage.maxVelocity()).toEqual([60, 1])
+})
+
+test('selects variables by explicit name', () => {
+  const { velocityImage } = readNetCDFVelocityField(createExampleFile(), {
+    uVariable: 'vo',
+    vVariable: 'uo',
+    timeIndex: 1
+  })
+  expect(velocityImage.maxVelocity()).toEqual([1, 60])
+
+  expect(() =>
+    readNetCDFVelocityField(createExampleFile(), { uVariable: 'missing' })
+  ).toThrow()
+})
+
+test('rejects files that are not NetCDF classic files', () => {
+  const buffer = new TextEncoder().encode('\x89HDF\r\n\x1a\n').buffer
+  expect(() => readNetCDFVelocityField(buffer)).toThrow()
+})
@@ -0,0 +1,165 @@
+import { expect, test, vi } from 'vitest'
+
+import { OpenLayersStreamlineLayer, type OpenLayersMap } from '@/openlayers'
+import { StreamlineStyle } from '@/render'
+import type { VelocityFieldRequest, VelocityFieldSource } from '@/sources'
+import { Color, Colormap } from '@/utils/colormap'
+import { AbortedError, HttpError } from '@/utils/errors'
+import { VelocityImage } from '@/utils/velocity-image'
+
+// A map of 200 x 100 CSS pixels, showing the extent in EPSG:3857.
+function createMap(extent = [0, 0, 2000, 1000]) {
+  const listeners = new Map<string, () => void>()
+  const map = {
+    getSize: () => [200, 100],
+    getView: () => ({
+      getResolution: () => (extent[2]! - extent[0]!) / 200,
+      calculateExtent: () => extent
+    }),
+    on: vi.fn((type: string, listener: () => void) =>
+      listeners.set(type, listener)
+    ),
+    un: vi.fn((type: string) => listeners.delete(type)),
+    render: vi.fn()
+  } satisfies OpenLayersMap
+  return { map, listeners }
+}
+
+function createSource() {
+  return {
+    getAvailableTimesAndElevations: vi.fn(async () => ({
+      times: ['2024-01-01T00:00:00Z', '2024-01-01T01:00:00Z'],
+      elevationBounds: null
+    })),
+    getColormap: vi.fn(
+      async () => new Colormap([0, 1], [new Color(0, 0, 0), new Color(1, 1, 1)])
+    ),
+    getVelocityField: vi.fn(async (request: VelocityFieldRequest) => {
+      const numPixels = request.width * request.height
+      const u = new Float32Array(numPixels).fill(1)
+      const v = new Float32Array(numPixels).fill(0)
+      return VelocityImage.fromComponents(u, v, request.width, request.height)
+    })
+  } satisfies VelocityFieldSource
+}
+
+function createLayer(source: VelocityFieldSource) {
+  return new OpenLayersStreamlineLayer({
+    baseUrl: '',
+    layer: '',
+    streamlineStyle: StreamlineStyle.LightParticlesOnMagnitude,
+    numParticles: 100,
+    particleSize: 2,
+    speedFactor: 1,
+    fadeAmountPerSecond: 1,
+    downsampleFactorWMS: 2,
+    maxCacheBytes: 0,
+    source
+  })
+}
+
+test('requests velocity fields for the extent of the view', async () => {
+  vi.stubGlobal('devicePixelRatio', 1)
+  const { map, listeners } = createMap()
+  const source = createSource()
+  const layer = createLayer(source)
+  layer.attach(map)
+  await layer.initialise(new Date('2024-01-01T01:00:00Z'))
+
+  expect(source.getVelocityField).toHaveBeenCalledTimes(1)
+  expect(source.getVelocityField.mock.calls[0]![0]).toEqual({
+    boundingBox: [0, 0, 2000, 1000],
+    width: 100,
+    height: 50,
+    time: '2024-01-01T01:00:00Z',
+    elevation: undefined
+  })
+  expect(map.on).toHaveBeenCalledWith('moveend', expect.any(Function))
+
+  const element = layer.render({
+    pixelRatio: 1,
+    extent: [0, 0, 2000, 1000],
+    viewState: { resolution: 10, rotation: 0 }
+  })
+  const canvas = element.querySelector('canvas')!
+  expect(canvas.style.width).toBe('200px')
+  expect(canvas.width).toBe(200)
+  expect(map.render).toHaveBeenCalled()
+
+  await layer.setTimeIndex(0)
+  expect(source.getVelocityField.mock.calls[1]![0].time).toBe(
+    '2024-01-01T00:00:00Z'
+  )
+
+  layer.detach()
+  expect(listeners.size).toBe(0)
+  vi.unstubAllGlobals()
+})
+
+test('fetches a single world for views that are wider', async () => {
+  vi.stubGlobal('devicePixelRatio', 1)
+  const extent = 20037508.34
+  const { map } = createMap([-4 * extent, -extent, 4 * extent, extent])
+  const source = createSource()
+  const layer = createLayer(source)
+  layer.attach(map)
+  await layer.initialise()
+
+  const request = source.getVelocityField.mock.calls[0]![0]
+  expect(request.boundingBox).toEqual([-extent, -extent, extent, extent])
+  expect(request.width).toBe(25)
+  expect(request.height).toBe(25)
+
+  layer.detach()
+  vi.unstubAllGlobals()
+})
+
+test('aborts superseded velocity field updates', async () => {
+  vi.stubGlobal('devicePixelRatio', 1)
+  const { map } = createMap()
+  const source = createSource()
+  const layer = createLayer(source)
+  layer.attach(map)
+  await layer.initialise()
+
+  const first = layer.setTimeIndex(1)
+  const second = layer.setTimeIndex(0)
+  await Promise.all([first, second])
+
+  const calls = source.getVelocityField.mock.calls
+  expect(calls).toHaveLength(3)
+  expect((calls[1] as unknown[])[1]).toHaveProperty('aborted', true)
+  expect((calls[2] as unknown[])[1]).toHaveProperty('aborted', false)
+
+  layer.detach()
+  vi.unstubAllGlobals()
+})
+
+test('reports failed velocity field updates with events', async () => {
+  vi.stubGlobal('devicePixelRatio', 1)
+  const { map } = createMap()
+  const source = createSource()
+  const layer = createLayer(source)
+  layer.attach(map)
+  await layer.initialise()
+
+  const onError = vi.fn()
+  const onEndLoading = vi.fn()
+  layer.on('fetch-error', onError)
+  layer.on('end-loading', onEndLoading)
+
+  const error = new HttpError(404, 'Not Found')
+  source.getVelocityField.mockRejectedValueOnce(error)
+  await expect(layer.setTimeIndex(1)).rejects.toBe(error)
+  expect(onError).toHaveBeenCalledWith({ error })
+  expect(onEndLoading).toHaveBeenCalledTimes(1)
+
+  // Aborted fetches are superseded by newer ones, so they are not failures.
+  source.getVelocityField.mockRejectedValueOnce(new AbortedError())
+  await expect(layer.setTimeIndex(0)).resolves.toBeUndefined()
+  expect(onError).toHaveBeenCalledTimes(1)
+  expect(onEndLoading).toHaveBeenCalledTimes(2)
+
+  layer.detach()
+  vi.unstubAllGlobals()
+})
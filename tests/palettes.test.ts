@@ -0,0 +1,50 @@
+import { expect, test, vi } from 'vitest'
+
+import {
+  type LocalColormapOptions,
+  LocalColormapVelocityFieldSource,
+  type VelocityFieldSource
+} from '@/sources'
+import { Color, Colormap } from '@/utils/colormap'
+import { createPaletteColormap, paletteNames } from '@/utils/palettes'
+
+test('creates colormaps from built-in palettes', () => {
+  for (const name of paletteNames) {
+    const colormap = createPaletteColormap(name, [2, 4])
+    expect(colormap.start).toBe(2)
+    expect(colormap.end).toBe(4)
+  }
+  expect(createPaletteColormap('viridis').num).toBe(11)
+})
+
+test('rescales colormaps keeping their relative spacing', () => {
+  const colors = [new Color(0, 0, 0), new Color(1, 1, 1), new Color(2, 2, 2)]
+  const colormap = new Colormap([0, 1, 4], colors)
+  const rescaled = colormap.rescale(10, 18)
+  expect(rescaled.start).toBe(10)
+  expect(rescaled.end).toBe(18)
+  expect(rescaled.rescale(0, 4).range).toBe(4)
+  expect(() => new Colormap([1], [colors[0]!]).rescale(0, 1)).toThrow()
+})
+
+test('uses the local colormap instead of the source colormap', async () => {
+  const sourceColormap = new Colormap(
+    [0, 1],
+    [new Color(0, 0, 0), new Color(255, 255, 255)]
+  )
+  const source = {
+    getAvailableTimesAndElevations: vi.fn(),
+    getColormap: vi.fn(async () => sourceColormap),
+    getVelocityField: vi.fn()
+  } satisfies VelocityFieldSource
+  const options: LocalColormapOptions = { colormap: 'turbo' }
+  const local = new LocalColormapVelocityFieldSource(source, options)
+
+  const palette = await local.getColormap([0, 5])
+  expect(palette.end).toBe(5)
+  expect(source.getColormap).not.toHaveBeenCalled()
+
+  options.colormap = undefined
+  expect(await local.getColormap([0, 5])).toBe(sourceColormap)
+  expect(source.getColormap).toHaveBeenCalledWith([0, 5], undefined)
+})
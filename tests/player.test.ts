@@ -0,0 +1,122 @@
+import { afterEach, expect, test, vi } from 'vitest'
+
+import { TimePlayer, type TimePlayerLayer } from '@/player'
+
+const times = [
+  '2024-01-01T00:00:00Z',
+  '2024-01-01T01:00:00Z',
+  '2024-01-01T02:00:00Z',
+  '2024-01-01T03:00:00Z'
+]
+
+function createLayer() {
+  return {
+    availableTimes: times,
+    setTimeIndex: vi.fn(async (_index: number) => {}),
+    setTimeInterpolated: vi.fn(async (_time: Date) => {}),
+    prefetchTimeIndices: vi.fn(async (_indices: number[]) => {})
+  } satisfies TimePlayerLayer
+}
+
+afterEach(() => {
+  vi.unstubAllGlobals()
+})
+
+test('steps through the available times', async () => {
+  const layer = createLayer()
+  const player = new TimePlayer(layer, { interpolate: false })
+  const shown: string[] = []
+  player.on('time', time => shown.push(time.toISOString()))
+
+  await player.step()
+  await player.step()
+  await player.step(-1)
+  expect(shown).toEqual([
+    '2024-01-01T01:00:00.000Z',
+    '2024-01-01T02:00:00.000Z',
+    '2024-01-01T01:00:00.000Z'
+  ])
+  expect(layer.setTimeIndex.mock.calls.map(call => call[0])).toEqual([1, 2, 1])
+  // The next two times are prefetched.
+  expect(layer.prefetchTimeIndices).toHaveBeenLastCalledWith([2, 3])
+
+  // Stepping past the end does nothing without looping.
+  await player.seek(new Date(times[3]!))
+  await player.step()
+  expect(player.time.toISOString()).toBe('2024-01-01T03:00:00.000Z')
+
+  player.setLoop(true)
+  await player.step()
+  expect(player.time.toISOString()).toBe('2024-01-01T00:00:00.000Z')
+})
+
+test('clamps to the time window', async () => {
+  const layer = createLayer()
+  const player = new TimePlayer(layer)
+
+  await player.seek(new Date('2023-12-31T00:00:00Z'))
+  expect(player.time.toISOString()).toBe('2024-01-01T00:00:00.000Z')
+
+  await player.setWindow([new Date(times[1]!), new Date(times[2]!)])
+  expect(player.time.toISOString()).toBe('2024-01-01T01:00:00.000Z')
+  await player.seek(new Date('2024-01-01T02:30:00Z'))
+  expect(player.time.toISOString()).toBe('2024-01-01T02:00:00.000Z')
+  expect(layer.setTimeInterpolated).toHaveBeenLastCalledWith(
+    new Date(times[2]!)
+  )
+
+  await expect(
+    player.setWindow([new Date(times[2]!), new Date(times[1]!)])
+  ).rejects.toThrow()
+})
+
+test('advances time with the playback rate and stops at the end', async () => {
+  let frameCallback: FrameRequestCallback | null = null
+  vi.stubGlobal('requestAnimationFrame', (callback: FrameRequestCallback) => {
+    frameCallback = callback
+    return 1
+  })
+  vi.stubGlobal('cancelAnimationFrame', () => {})
+  const runFrame = async (now: number) => {
+    const callback = frameCallback
+    frameCallback = null
+    callback?.(now)
+    // Let the pending update resolve.
+    await Promise.resolve()
+    await Promise.resolve()
+  }
+
+  const layer = createLayer()
+  const player = new TimePlayer(layer, { rate: 3600 })
+  const onEnd = vi.fn()
+  player.on('end', onEnd)
+
+  player.play()
+  expect(player.isPlaying).toBe(true)
+  await runFrame(0)
+  // 1.5 seconds of playback is 1.5 hours of model time.
+  await runFrame(1500)
+  expect(player.time.toISOString()).toBe('2024-01-01T01:30:00.000Z')
+  expect(layer.setTimeInterpolated).toHaveBeenLastCalledWith(player.time)
+
+  await runFrame(5000)
+  expect(player.time.toISOString()).toBe('2024-01-01T03:00:00.000Z')
+  expect(player.isPlaying).toBe(false)
+  expect(onEnd).toHaveBeenCalledOnce()
+})
+
+test('reports failed updates with the error event', async () => {
+  const layer = createLayer()
+  const failure = new Error('failure')
+  layer.setTimeIndex.mockRejectedValueOnce(failure)
+  const player = new TimePlayer(layer, { interpolate: false })
+  const onError = vi.fn()
+  player.on('error', onError)
+
+  await expect(player.step()).rejects.toThrow(failure)
+  expect(onError).toHaveBeenCalledWith({ error: failure })
+
+  // The next update succeeds.
+  await player.step()
+  expect(onError).toHaveBeenCalledOnce()
+})
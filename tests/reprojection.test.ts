@@ -0,0 +1,66 @@
+import { expect, test } from 'vitest'
+
+import { createVelocityFieldSourceChain } from '@/sources/chain'
+import type { VelocityFieldSource } from '@/sources/source'
+import {
+  type CoordinateTransform,
+  createReprojectionGrid,
+  transformBoundingBox
+} from '@/utils/reprojection'
+
+// A CRS that is rotated by 90° counterclockwise and scaled by a factor of 2
+// with respect to the display CRS.
+const rotated: CoordinateTransform = {
+  forward: (x, y) => [-2 * y, 2 * x],
+  inverse: (x, y) => [0.5 * y, -0.5 * x]
+}
+
+test('transforms bounding boxes', () => {
+  expect(transformBoundingBox([0, 1, 2, 2], rotated.forward)).toEqual([
+    -4, 0, -2, 4
+  ])
+  expect(() => transformBoundingBox([0, 0, 1, 1], () => [NaN, NaN])).toThrow()
+})
+
+test('creates a grid with source coordinates and axes', () => {
+  const grid = createReprojectionGrid(rotated, [-2, 0, 0, 4], [0, 0, 2, 1], 2)
+  // Two triangles for each of the 2 x 2 cells.
+  expect(grid.numVertices).toBe(24)
+
+  // The bottom-left corner of the target is at the bottom-right corner of the
+  // source, i.e. at the right of the last row of the source image.
+  expect(Array.from(grid.positions.slice(0, 2))).toEqual([-1, -1])
+  expect(Array.from(grid.texCoords.slice(0, 2))).toEqual([1, 1])
+  // The source's x-axis points south and its y-axis points east.
+  expect(grid.axesX[0]).toBeCloseTo(0)
+  expect(grid.axesX[1]).toBeCloseTo(-1)
+  expect(grid.axesY[0]).toBeCloseTo(1)
+  expect(grid.axesY[1]).toBeCloseTo(0)
+})
+
+test('leaves out cells that cannot be transformed', () => {
+  const partial: CoordinateTransform = {
+    forward: (x, y) => (x > 1.5 ? [NaN, NaN] : [x, y]),
+    inverse: (x, y) => [x, y]
+  }
+  const grid = createReprojectionGrid(partial, [0, 0, 2, 2], [0, 0, 2, 2], 2)
+  // Only the western cells have all their nodes transformed.
+  expect(grid.numVertices).toBe(12)
+})
+
+test('requires a transformation for sources in other CRSs', () => {
+  const source = {} as VelocityFieldSource
+  expect(() =>
+    createVelocityFieldSourceChain(source, { crs: 'EPSG:3413' })
+  ).toThrow()
+  expect(
+    createVelocityFieldSourceChain(source, {
+      crs: 'EPSG:3413',
+      crsTransform: rotated
+    }).reprojectedSource
+  ).not.toBeNull()
+  expect(
+    createVelocityFieldSourceChain(source, { crs: 'EPSG:3857' })
+      .reprojectedSource
+  ).toBeNull()
+})
@@ -0,0 +1,79 @@
+import { expect, test, vi } from 'vitest'
+
+import {
+  TiledVelocityFieldSource,
+  type VelocityFieldRequest,
+  type VelocityFieldSource
+} from '@/sources'
+import { VelocityImage } from '@/utils/velocity-image'
+
+const extent = 20037508.34
+
+function createSource() {
+  return {
+    getAvailableTimesAndElevations: vi.fn(),
+    getColormap: vi.fn(),
+    // Tiles with a U-velocity equal to the relative western edge of the tile,
+    // and a V-velocity equal to its relative northern edge; the top row of the
+    // north-eastern tile is missing.
+    getVelocityField: vi.fn(async (request: VelocityFieldRequest) => {
+      const [xMin, , , yMax] = request.boundingBox
+      const isNorthEast = xMin >= 0 && yMax === extent
+      const numPixels = request.width * request.height
+      const u = new Float32Array(numPixels).fill(xMin / extent)
+      const v = new Float32Array(numPixels).fill(yMax / extent)
+      if (isNorthEast) u.fill(NaN, 0, request.width)
+      return VelocityImage.fromComponents(u, v, request.width, request.height)
+    })
+  } satisfies VelocityFieldSource
+}
+
+test('stitches tiles into the requested bounding box', async () => {
+  const source = createSource()
+  const tiled = new TiledVelocityFieldSource(source, { tileSize: 2 })
+
+  // The whole world at 4 x 4 pixels needs the 2 x 2 tiles of zoom level 1.
+  const velocityImage = await tiled.getVelocityField({
+    boundingBox: [-extent, -extent, extent, extent],
+    width: 4,
+    height: 4,
+    time: '2024-01-01T00:00:00Z'
+  })
+  expect(source.getVelocityField).toHaveBeenCalledTimes(4)
+  expect(source.getVelocityField.mock.calls[1]![0]).toEqual({
+    boundingBox: [0, 0, extent, extent],
+    width: 2,
+    height: 2,
+    time: '2024-01-01T00:00:00Z',
+    elevation: undefined
+  })
+
+  expect(velocityImage.getVelocityAt(0, 0)).toEqual([-1, 1])
+  expect(velocityImage.getVelocityAt(3, 0)).toBeNull()
+  expect(velocityImage.getVelocityAt(3, 1)).toEqual([0, 1])
+  expect(velocityImage.getVelocityAt(1, 3)).toEqual([-1, 0])
+  expect(velocityImage.getVelocityAt(2, 2)).toEqual([0, 0])
+})
+
+test('only fetches the tiles in view, wrapped around the antimeridian', async () => {
+  const source = createSource()
+  const tiled = new TiledVelocityFieldSource(source, { tileSize: 2 })
+
+  // The north-eastern quarter of the world, and the same area one world to
+  // the east.
+  await tiled.getVelocityField({
+    boundingBox: [0, 0, extent, extent],
+    width: 2,
+    height: 2,
+    time: '2024-01-01T00:00:00Z'
+  })
+  await tiled.getVelocityField({
+    boundingBox: [2 * extent, 0, 3 * extent, extent],
+    width: 2,
+    height: 2,
+    time: '2024-01-01T00:00:00Z'
+  })
+  const requests = source.getVelocityField.mock.calls.map(call => call[0])
+  expect(requests).toHaveLength(2)
+  expect(requests[1]!.boundingBox).toEqual(requests[0]!.boundingBox)
+})
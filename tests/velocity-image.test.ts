@@ -0,0 +1,123 @@
+import { expect, test } from 'vitest'
+
+import { VelocityImage } from '@/utils/velocity-image'
+
+import { createWebGl2Context } from './utils'
+
+test('computes maximum velocity from 8-bit data', () => {
+  // Two pixels of RGB data, the second pixel is missing (r = g = 255).
+  const data = new Uint8Array([0, 255, 0, 255, 255, 0])
+  const image = new VelocityImage(data, 2, 1, -1, -2, 2, 4)
+
+  // u = 0 * 2 - 1 = -1, v = 1 * 4 - 2 = 2
+  expect(image.maxVelocity()).toEqual([1, 2])
+  expect(image.isFloat).toBe(false)
+})
+
+test('computes maximum velocity from floating-point components', () => {
+  const u = new Float32Array([0.001, -0.5, NaN, 0])
+  const v = new Float32Array([0.002, 0.25, 10, 0])
+  const image = VelocityImage.fromComponents(u, v, 2, 2)
+
+  // The missing pixel should not contribute to the maximum velocity.
+  const [maxU, maxV] = image.maxVelocity()
+  expect(maxU).toBeCloseTo(0.5)
+  expect(maxV).toBeCloseTo(0.25)
+  expect(image.isFloat).toBe(true)
+})
+
+test('treats maximum 8-bit velocities as valid with explicit no-data options', () => {
+  // Both components have their maximum value, which is the legacy sentinel.
+  const data = new Uint8Array([255, 255, 0])
+  const image = new VelocityImage(data, 1, 1, 0, 0, 1, 1, { noData: {} })
+  expect(image.maxVelocity()).toEqual([1, 1])
+})
+
+test('marks missing velocities with a no-data mask', () => {
+  const u = new Float32Array([1, 2])
+  const v = new Float32Array([3, 4])
+  const mask = new Uint8Array([1, 0])
+  const image = VelocityImage.fromComponents(u, v, 2, 1, { noData: { mask } })
+  expect(image.maxVelocity()).toEqual([1, 3])
+
+  expect(() =>
+    VelocityImage.fromComponents(u, v, 2, 1, {
+      noData: { mask: new Uint8Array(3) }
+    })
+  ).toThrow()
+})
+
+test('marks missing velocities with a sentinel value', () => {
+  const u = new Float32Array([-9999, 2, -9999])
+  const v = new Float32Array([-9999, 3, 1])
+  const image = VelocityImage.fromComponents(u, v, 3, 1, {
+    noData: { value: -9999 }
+  })
+  // Only pixels where both components equal the sentinel are missing.
+  expect(image.maxVelocity()).toEqual([9999, 3])
+})
+
+test('marks missing velocities with the alpha channel', () => {
+  const data = new Uint8Array([0, 0, 0, 255, 255, 255, 0, 0])
+  const image = new VelocityImage(data, 2, 1, 0, 0, 1, 1, {
+    noData: { useAlphaChannel: true }
+  })
+  expect(image.maxVelocity()).toEqual([0, 0])
+
+  // The alpha channel can only be used for RGBA data.
+  expect(
+    () =>
+      new VelocityImage(new Uint8Array(3), 1, 1, 0, 0, 1, 1, {
+        noData: { useAlphaChannel: true }
+      })
+  ).toThrow()
+})
+
+test('rejects velocity data with invalid dimensions', () => {
+  expect(() => new VelocityImage(new Uint8Array(5), 1, 1, 0, 0, 1, 1)).toThrow()
+  expect(
+    () => new VelocityImage(new Float32Array(3), 1, 1, 0, 0, 1, 1)
+  ).toThrow()
+  expect(() =>
+    VelocityImage.fromComponents(new Float32Array(4), new Float32Array(3), 2, 2)
+  ).toThrow()
+})
+
+test('creates floating-point velocity and mask textures', () => {
+  const gl = createWebGl2Context()
+
+  const u = new Float32Array([0.1, NaN, 0.3])
+  const v = new Float32Array([0.4, 0.5, 0.6])
+  for (const format of ['float32', 'float16'] as const) {
+    const image = VelocityImage.fromComponents(u, v, 3, 1, {
+      floatFormat: format
+    })
+    expect(image.toTexture(gl, false)).toBeDefined()
+    expect(image.toMaskTexture(gl)).toBeDefined()
+    expect(gl.getError()).toBe(gl.NO_ERROR)
+  }
+})
+
+test('resamples a region with bilinear interpolation', () => {
+  // U-velocity increasing to the right, with a missing pixel at the bottom
+  // right.
+  const u = new Float32Array([0, 1, 2, 3, 0, 1, 2, NaN])
+  const v = new Float32Array(8).fill(1)
+  const image = VelocityImage.fromComponents(u, v, 4, 2)
+
+  const resampled = image.resample([0, 0, 4, 2], [1, 1, 3, 2], 4, 1)
+  expect(resampled.width).toBe(4)
+  expect(resampled.height).toBe(1)
+  expect(resampled.getVelocityAt(0, 0)).toEqual([0.75, 1])
+  expect(resampled.getVelocityAt(1, 0)).toEqual([1.25, 1])
+  expect(resampled.getVelocityAt(3, 0)).toEqual([2.25, 1])
+
+  // Near the missing pixel, the nearest pixel is used.
+  const bottom = image.resample([0, 0, 4, 2], [2, 0, 4, 1], 2, 1)
+  expect(bottom.getVelocityAt(0, 0)).toEqual([2, 1])
+  expect(bottom.getVelocityAt(1, 0)).toBeNull()
+
+  // Regions outside of the image are missing.
+  const outside = image.resample([0, 0, 4, 2], [4, 0, 6, 2], 1, 1)
+  expect(outside.getVelocityAt(0, 0)).toBeNull()
+})
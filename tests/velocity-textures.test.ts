@@ -0,0 +1,54 @@
+import { expect, test } from 'vitest'
+
+import { updateVelocityTextures } from '@/render/velocity-textures'
+import { VelocityImage } from '@/utils/velocity-image'
+
+import { createWebGl2Context } from './utils'
+
+function createImage(value: number): VelocityImage {
+  const u = new Float32Array([value, value])
+  const v = new Float32Array([0, 0])
+  return VelocityImage.fromComponents(u, v, 2, 1)
+}
+
+test('reuses textures when stepping to the next velocity image', () => {
+  const gl = createWebGl2Context()
+  const [image0, image1, image2] = [
+    createImage(0),
+    createImage(1),
+    createImage(2)
+  ]
+
+  const [current, next] = updateVelocityTextures(
+    gl,
+    [null, null],
+    image0,
+    image1
+  )
+  expect(current.velocityImage).toBe(image0)
+  expect(next?.velocityImage).toBe(image1)
+
+  // The next textures become the current textures, and the old current
+  // textures are deleted.
+  const [stepped, steppedNext] = updateVelocityTextures(
+    gl,
+    [current, next],
+    image1,
+    image2
+  )
+  expect(stepped).toBe(next)
+  expect(steppedNext?.velocityImage).toBe(image2)
+  expect(gl.isTexture(current.velocityTexture)).toBe(false)
+  expect(gl.isTexture(stepped.velocityTexture)).toBe(true)
+
+  // Without a next image, only the current textures are kept.
+  const [single, none] = updateVelocityTextures(
+    gl,
+    [stepped, steppedNext],
+    image2,
+    null
+  )
+  expect(single).toBe(steppedNext)
+  expect(none).toBeNull()
+  expect(gl.isTexture(stepped.velocityTexture)).toBe(false)
+})
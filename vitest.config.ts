@@ -1,6 +1,7 @@
 import { resolve } from 'node:path'
 import { defineConfig } from 'vitest/config'
 import { playwright} from '@vitest/browser-playwright'
+import viteGlslPlugin from 'vite-plugin-glsl'
 
 export default defineConfig({
   resolve: {
@@ -8,6 +9,14 @@ export default defineConfig({
       '@': resolve(__dirname, 'src')
     }
   },
+  plugins: [
+    // Only process the library's shaders; test shaders are imported raw.
+    viteGlslPlugin({
+      include: ['src/**/*.frag.glsl', 'src/**/*.vert.glsl']
+    })
+  ],
+  // Binary test fixtures are imported as assets.
+  assetsInclude: ['**/*.grib2'],
   test: {
     browser: {
       enabled: true,